@@ -0,0 +1,119 @@
+#!/usr/bin/env -S npx tsx
+// bin/analysis-versions.ts
+import { listAnalysisVersions, getAnalysisVersion, diffAnalysisVersions } from "../lib/analysis-versions";
+import { closePool, setCurrentAnalysisVersion } from "../lib/database";
+import { safeLog } from "../lib/logger";
+import dotenv from "dotenv";
+import path from "path";
+
+dotenv.config({
+  path: path.resolve(process.cwd(), ".env"),
+});
+
+interface Options {
+  videoId?: string;
+  diff?: boolean;
+  from?: number;
+  to?: number;
+  show?: number;
+  accept?: number;
+}
+
+function formatValue(value: any): string {
+  return value === null || value === undefined ? "—" : JSON.stringify(value);
+}
+
+async function main() {
+  const options: Options = {};
+  const args = process.argv.slice(2);
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--video-id" && i + 1 < args.length) {
+      options.videoId = args[i + 1];
+      i++;
+    } else if (args[i] === "--diff") {
+      options.diff = true;
+    } else if (args[i] === "--from" && i + 1 < args.length) {
+      options.from = parseInt(args[i + 1], 10);
+      i++;
+    } else if (args[i] === "--to" && i + 1 < args.length) {
+      options.to = parseInt(args[i + 1], 10);
+      i++;
+    } else if (args[i] === "--show" && i + 1 < args.length) {
+      options.show = parseInt(args[i + 1], 10);
+      i++;
+    } else if (args[i] === "--accept" && i + 1 < args.length) {
+      options.accept = parseInt(args[i + 1], 10);
+      i++;
+    }
+  }
+
+  if (!options.videoId) {
+    safeLog("error", "Usage: analysis-versions.ts --video-id <id> [options]");
+    safeLog("error", "Lists the stored analysis versions of a video when no other option is given.");
+    safeLog("error", "Options:");
+    safeLog("error", "  --diff                    Compare two versions (default: the current one and the one before it)");
+    safeLog("error", "  --from <version_id>       Older side of the diff");
+    safeLog("error", "  --to <version_id>         Newer side of the diff");
+    safeLog("error", "  --show <version_id>       Print one version, including the raw LLM response");
+    safeLog("error", "  --accept <version_id>     Make a version the current analysis of the video");
+    process.exit(1);
+  }
+
+  try {
+    if (options.accept) {
+      if (!(await setCurrentAnalysisVersion(options.videoId, options.accept))) {
+        throw new Error(`Version ${options.accept} does not belong to video ${options.videoId}`);
+      }
+      safeLog("info", `✅ Version ${options.accept} is now the current analysis of ${options.videoId}`);
+    } else if (options.show) {
+      const version = await getAnalysisVersion(options.videoId, options.show);
+      if (!version) {
+        throw new Error(`Version ${options.show} does not belong to video ${options.videoId}`);
+      }
+      console.log(JSON.stringify(version, null, 2));
+    } else if (options.diff) {
+      const diff = await diffAnalysisVersions(options.videoId, { fromVersionId: options.from, toVersionId: options.to });
+      if (!diff) {
+        throw new Error(`Need two stored versions of ${options.videoId} to compare`);
+      }
+      console.log(`Version ${diff.from.versionId} (${diff.from.llmModel}, prompt ${diff.from.promptVersion}, ${diff.from.createdAt})`);
+      console.log(`  → version ${diff.to.versionId} (${diff.to.llmModel}, prompt ${diff.to.promptVersion}, ${diff.to.createdAt})`);
+      if (diff.changes.length === 0) {
+        console.log("No differences");
+      }
+      for (const change of diff.changes) {
+        console.log(`\n${change.field}:`);
+        if (change.added || change.removed) {
+          change.removed?.forEach(item => console.log(`  - ${item}`));
+          change.added?.forEach(item => console.log(`  + ${item}`));
+        } else {
+          console.log(`  - ${formatValue(change.before)}`);
+          console.log(`  + ${formatValue(change.after)}`);
+        }
+      }
+    } else {
+      const versions = await listAnalysisVersions(options.videoId);
+      if (versions.length === 0) {
+        safeLog("info", `No analysis versions stored for ${options.videoId}`);
+      }
+      for (const version of versions) {
+        console.log(
+          `${version.isCurrent ? "*" : " "} ${version.versionId}\t${version.createdAt}\t${version.llmModel || "unknown"}\tprompt ${version.promptVersion || "unknown"}`
+        );
+      }
+    }
+  } catch (error) {
+    safeLog("error", "❌ Error:", error);
+    await closePool();
+    process.exit(1);
+  }
+
+  await closePool();
+  process.exit(0);
+}
+
+main().catch((error) => {
+  safeLog("error", "Unhandled error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,81 @@
+#!/usr/bin/env -S npx tsx
+// bin/analytics.ts
+import { getCohortAnalytics } from "../lib/analytics";
+import { closePool } from "../lib/database";
+import { safeLog } from "../lib/logger";
+import dotenv from "dotenv";
+import path from "path";
+import fs from "fs/promises";
+
+dotenv.config({
+  path: path.resolve(process.cwd(), ".env"),
+});
+
+interface Options {
+  searchName?: string;
+  startDate?: string;
+  endDate?: string;
+  limit?: number;
+  outputFile?: string;
+}
+
+async function main() {
+  const options: Options = {};
+  const args = process.argv.slice(2);
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--search-name" && i + 1 < args.length) {
+      options.searchName = args[i + 1];
+      i++;
+    } else if (args[i] === "--start-date" && i + 1 < args.length) {
+      options.startDate = args[i + 1];
+      i++;
+    } else if (args[i] === "--end-date" && i + 1 < args.length) {
+      options.endDate = args[i + 1];
+      i++;
+    } else if (args[i] === "--limit" && i + 1 < args.length) {
+      options.limit = parseInt(args[i + 1], 10);
+      i++;
+    } else if (args[i] === "--output-file" && i + 1 < args.length) {
+      options.outputFile = args[i + 1];
+      i++;
+    }
+  }
+
+  if (!options.searchName) {
+    safeLog("error", "Usage: analytics.ts --search-name <name> [options]");
+    safeLog("error", "Options:");
+    safeLog("error", "  --start-date <YYYY-MM-DD> Only videos published on or after this date");
+    safeLog("error", "  --end-date <YYYY-MM-DD>   Only videos published on or before this date");
+    safeLog("error", "  --limit <number>          Rows in each ranked list (default 20)");
+    safeLog("error", "  --output-file <file>      Write the report as JSON instead of printing it");
+    process.exit(1);
+  }
+
+  try {
+    const analytics = await getCohortAnalytics(options.searchName, {
+      startDate: options.startDate,
+      endDate: options.endDate,
+      limit: options.limit,
+    });
+
+    if (options.outputFile) {
+      await fs.writeFile(options.outputFile, JSON.stringify(analytics, null, 2));
+      safeLog("info", `✅ Wrote analytics for "${options.searchName}" to ${options.outputFile}`);
+    } else {
+      console.log(JSON.stringify(analytics, null, 2));
+    }
+  } catch (error) {
+    safeLog("error", "❌ Error:", error);
+    await closePool();
+    process.exit(1);
+  }
+
+  await closePool();
+  process.exit(0);
+}
+
+main().catch((error) => {
+  safeLog("error", "Unhandled error:", error);
+  process.exit(1);
+});
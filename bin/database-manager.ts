@@ -1,5 +1,13 @@
 // bin/database-manager.ts
 import { initializeDatabase, storeVideo, storeTranscript, storeAnalysis, getPool } from "../lib/database";
+import {
+  createSearchConfig,
+  updateSearchConfig,
+  deleteSearchConfig,
+  suggestSearchConfigTerms,
+  searchConfigFromFileEntry,
+  SearchConfigFileEntry,
+} from "../lib/search-configs";
 import { safeLog } from "../lib/logger";
 import fs from "fs/promises";
 
@@ -15,6 +23,13 @@ interface Options {
   createVideo?: string;
   createTranscript?: string;
   createAnalysis?: string;
+  createSearchConfig?: string;
+  editSearchConfig?: string;
+  pauseSearchConfig?: string;
+  resumeSearchConfig?: string;
+  deleteSearchConfig?: string;
+  suggestSearchTerms?: string;
+  apply?: boolean;
 }
 
 async function clearAllTables() {
@@ -38,16 +53,63 @@ async function listRecords(table: string, videoId?: string) {
         query = videoId ? "SELECT * FROM videos WHERE video_id = $1" : "SELECT * FROM videos";
         break;
       case "transcripts":
-        query = videoId ? "SELECT * FROM transcripts WHERE video_id = $1" : "SELECT * FROM transcripts";
+        query = videoId
+          ? "SELECT video_id, full_transcript, language FROM transcripts WHERE video_id = $1"
+          : "SELECT video_id, full_transcript, language FROM transcripts";
+        break;
+      case "transcript-segments":
+        query = videoId
+          ? "SELECT video_id, seq, start_ms, duration_ms, text FROM transcript_segments WHERE video_id = $1 ORDER BY seq"
+          : "SELECT video_id, seq, start_ms, duration_ms, text FROM transcript_segments ORDER BY video_id, seq";
         break;
       case "analysis":
         query = videoId ? "SELECT * FROM analysis WHERE video_id = $1" : "SELECT * FROM analysis";
         break;
+      case "analysis-symptoms":
+        query = videoId
+          ? "SELECT * FROM analysis_symptoms WHERE video_id = $1 ORDER BY seq"
+          : "SELECT * FROM analysis_symptoms ORDER BY video_id, seq";
+        break;
+      case "analysis-versions":
+        query = videoId
+          ? "SELECT version_id, video_id, llm_model, prompt_name, prompt_version, created_at FROM analysis_versions WHERE video_id = $1 ORDER BY version_id"
+          : "SELECT version_id, video_id, llm_model, prompt_name, prompt_version, created_at FROM analysis_versions ORDER BY video_id, version_id";
+        break;
+      case "analysis-overrides":
+        query = videoId
+          ? "SELECT * FROM analysis_overrides WHERE video_id = $1 ORDER BY field"
+          : "SELECT * FROM analysis_overrides ORDER BY video_id, field";
+        break;
+      case "video-searches":
+        query = videoId
+          ? `SELECT vs.video_id, sc.search_name, vs.rank, vs.matched_queries, vs.first_seen, vs.last_seen
+             FROM video_searches vs JOIN SearchConfig sc ON sc.param_id = vs.param_id
+             WHERE vs.video_id = $1 ORDER BY vs.first_seen`
+          : `SELECT vs.video_id, sc.search_name, vs.rank, vs.matched_queries, vs.first_seen, vs.last_seen
+             FROM video_searches vs JOIN SearchConfig sc ON sc.param_id = vs.param_id
+             ORDER BY sc.search_name, vs.rank NULLS LAST, vs.video_id`;
+        break;
+      case "search-configs":
+        query = "SELECT * FROM SearchConfig ORDER BY search_name";
+        break;
+      case "scheduled-runs":
+        query = `SELECT sr.*, sc.search_name
+                 FROM scheduled_runs sr JOIN SearchConfig sc ON sc.param_id = sr.param_id
+                 ORDER BY sr.started_at DESC`;
+        break;
+      case "pipeline-runs":
+        query = "SELECT * FROM pipeline_runs ORDER BY run_id DESC";
+        break;
+      case "pipeline-items":
+        query = videoId
+          ? "SELECT run_id, video_id, state, failed_stage, error, updated_at FROM pipeline_items WHERE video_id = $1 ORDER BY run_id"
+          : "SELECT run_id, video_id, state, failed_stage, error, updated_at FROM pipeline_items ORDER BY run_id, video_id";
+        break;
       default:
-        throw new Error(`Invalid table name: ${table}. Use 'videos', 'transcripts', or 'analysis'.`);
+        throw new Error(`Invalid table name: ${table}. Use 'videos', 'transcripts', 'transcript-segments', 'analysis', 'analysis-symptoms', 'analysis-versions', 'analysis-overrides', 'video-searches', 'search-configs', 'scheduled-runs', 'pipeline-runs', or 'pipeline-items'.`);
     }
 
-    if (videoId) params = [videoId];
+    if (videoId && query.includes("$1")) params = [videoId];
     const result = await pool.query(query, params);
     safeLog("info", `✅ Retrieved ${result.rows.length} records from ${table}`);
     console.log(JSON.stringify(result.rows, null, 2));
@@ -72,25 +134,6 @@ async function deleteRecord(videoId: string) {
   }
 }
 
-async function storeSearchConfig(config: { user_id: string; search_phrase: string; search_name: string }) {
-  try {
-    const pool = await getPool();
-    await pool.query(
-      `INSERT INTO SearchConfig (user_id, search_phrase, search_name, creation_date)
-       VALUES ($1, $2, $3, NOW())
-       ON CONFLICT (search_name) DO UPDATE SET
-         user_id = EXCLUDED.user_id,
-         search_phrase = EXCLUDED.search_phrase,
-         creation_date = NOW()`,
-      [config.user_id, config.search_phrase, config.search_name]
-    );
-    safeLog("info", `✅ Stored SearchConfig for search_name ${config.search_name}`);
-  } catch (error) {
-    safeLog("error", `❌ Error storing SearchConfig:`, error);
-    throw error;
-  }
-}
-
 async function main() {
   const options: Options = {};
   const args = process.argv.slice(2);
@@ -128,11 +171,33 @@ async function main() {
     } else if (args[i] === "--create-analysis" && i + 1 < args.length) {
       options.createAnalysis = args[i + 1];
       i++;
+    } else if (args[i] === "--create-search-config" && i + 1 < args.length) {
+      options.createSearchConfig = args[i + 1];
+      i++;
+    } else if (args[i] === "--edit-search-config" && i + 1 < args.length) {
+      options.editSearchConfig = args[i + 1];
+      i++;
+    } else if (args[i] === "--pause-search-config" && i + 1 < args.length) {
+      options.pauseSearchConfig = args[i + 1];
+      i++;
+    } else if (args[i] === "--resume-search-config" && i + 1 < args.length) {
+      options.resumeSearchConfig = args[i + 1];
+      i++;
+    } else if (args[i] === "--delete-search-config" && i + 1 < args.length) {
+      options.deleteSearchConfig = args[i + 1];
+      i++;
+    } else if (args[i] === "--suggest-search-terms" && i + 1 < args.length) {
+      options.suggestSearchTerms = args[i + 1];
+      i++;
+    } else if (args[i] === "--apply") {
+      options.apply = true;
     }
   }
 
   if (!options.metadataFile && !options.transcriptsFile && !options.analysisFile && !options.searchConfigFile && !options.clear && 
-      !options.list && !options.delete && !options.createVideo && !options.createTranscript && !options.createAnalysis) {
+      !options.list && !options.delete && !options.createVideo && !options.createTranscript && !options.createAnalysis &&
+      !options.createSearchConfig && !options.editSearchConfig && !options.pauseSearchConfig && !options.resumeSearchConfig &&
+      !options.deleteSearchConfig && !options.suggestSearchTerms) {
     safeLog("error", "Usage: database-manager.ts [options]");
     safeLog("error", "Options:");
     safeLog("error", "  --metadata-file <file>    Path to metadata file from youtube-fetcher");
@@ -140,12 +205,19 @@ async function main() {
     safeLog("error", "  --analysis-file <file>    Path to analysis file from llm-analyzer");
     safeLog("error", "  --search-config-file <file> Path to search config file");
     safeLog("error", "  --clear                   Clear all data from all tables");
-    safeLog("error", "  --list <table>            List records from table (videos, transcripts, analysis)");
+    safeLog("error", "  --list <table>            List records from table (videos, transcripts, transcript-segments, analysis, analysis-symptoms, analysis-versions, analysis-overrides, video-searches, search-configs, scheduled-runs, pipeline-runs, pipeline-items)");
     safeLog("error", "  --video-id <id>           Filter list or specify record for delete");
     safeLog("error", "  --delete <video_id>       Delete record by video_id");
-    safeLog("error", "  --create-video <json>     Create a video record (JSON format)");
+    safeLog("error", "  --create-video <json>     Create a video record (JSON format, with the search_name of an existing search config)");
     safeLog("error", "  --create-transcript <json> Create a transcript record (JSON format)");
     safeLog("error", "  --create-analysis <json>  Create an analysis record (JSON format)");
+    safeLog("error", "  --create-search-config <json> Create a search config, e.g. {\"searchName\": \"...\", \"searchPhrases\": [\"...\"]}");
+    safeLog("error", "  --edit-search-config <json> Change the given fields of the search config named by searchName");
+    safeLog("error", "  --pause-search-config <search_name>  Stop scheduled refreshes of a search");
+    safeLog("error", "  --resume-search-config <search_name> Resume scheduled refreshes of a search");
+    safeLog("error", "  --delete-search-config <search_name> Delete a search config and its video links (videos are kept)");
+    safeLog("error", "  --suggest-search-terms <search_name> Ask the LLM for synonyms and keywords for a search");
+    safeLog("error", "  --apply                   With --suggest-search-terms, add the suggestions to the search config");
     process.exit(1);
   }
 
@@ -164,6 +236,20 @@ async function main() {
       await deleteRecord(options.delete);
     }
 
+    // Search configs are stored before any videos, which are linked to them
+    if (options.searchConfigFile) {
+      const configContent = await fs.readFile(options.searchConfigFile, "utf-8");
+      const configData: SearchConfigFileEntry[] = JSON.parse(configContent);
+      for (const config of configData) {
+        const input = searchConfigFromFileEntry(config);
+        // Configs already in the database are updated with the fields the file gives
+        if (!(await updateSearchConfig(config.search_name, input))) {
+          await createSearchConfig(input);
+        }
+        safeLog("info", `✅ Stored SearchConfig for search_name ${config.search_name}`);
+      }
+    }
+
     if (options.createVideo) {
       const videoData = JSON.parse(options.createVideo);
       await storeVideo({
@@ -175,6 +261,7 @@ async function main() {
         viewCount: videoData.viewCount || 0,
         url: videoData.url || `https://youtube.com/watch?v=${videoData.id}`,
         channel_name: videoData.channel_name || "",
+        search_name: videoData.search_name,
       });
       safeLog("info", `✅ Created video record for ${videoData.id}`);
     }
@@ -184,7 +271,8 @@ async function main() {
       await storeTranscript(
         transcriptData.videoId,
         transcriptData.transcript,
-        transcriptData.language // No default override
+        transcriptData.language, // No default override
+        transcriptData.segments
       );
       safeLog("info", `✅ Created transcript record for ${transcriptData.videoId}`);
     }
@@ -202,6 +290,11 @@ async function main() {
         familyMedicalHistory: analysisData.familyMedicalHistory,
         challengesFacedDuringDiagnosis: analysisData.challengesFacedDuringDiagnosis,
         key_opinion: analysisData.key_opinion,
+        prompt_name: analysisData.prompt_name,
+        prompt_version: analysisData.prompt_version,
+        llm_model: analysisData.llm_model,
+        evidence: analysisData.evidence,
+        raw_response: analysisData.raw_response,
       });
       safeLog("info", `✅ Created analysis record for ${analysisData.videoId}`);
     }
@@ -209,7 +302,8 @@ async function main() {
     if (options.metadataFile) {
       const metadataContent = await fs.readFile(options.metadataFile, "utf-8");
       const metadata = JSON.parse(metadataContent);
-      for (const video of metadata) {
+      for (let i = 0; i < metadata.length; i++) {
+        const video = metadata[i];
         await storeVideo({
           id: video.id,
           title: video.title,
@@ -219,8 +313,9 @@ async function main() {
           viewCount: video.viewCount || 0,
           url: video.url || `https://youtube.com/watch?v=${video.id}`,
           channel_name: video.channel_name || "",
-          search_name: video.search_name || "unknown" // Fallback adjusted
-        });
+          search_name: video.search_name,
+          matched_queries: video.matched_queries,
+        }, i + 1);
         safeLog("info", `✅ Stored metadata for video ${video.id}`);
       }
     }
@@ -228,8 +323,8 @@ async function main() {
     if (options.transcriptsFile) {
       const transcriptsContent = await fs.readFile(options.transcriptsFile, "utf-8");
       const transcripts = JSON.parse(transcriptsContent);
-      for (const { videoId, transcript, language } of transcripts) {
-        await storeTranscript(videoId, transcript, language); // No default override
+      for (const { videoId, transcript, language, segments } of transcripts) {
+        await storeTranscript(videoId, transcript, language, segments); // No default override
         safeLog("info", `✅ Stored transcript for video ${videoId}`);
       }
     }
@@ -243,15 +338,46 @@ async function main() {
       }
     }
 
-    if (options.searchConfigFile) {
-      const configContent = await fs.readFile(options.searchConfigFile, "utf-8");
-      const configData = JSON.parse(configContent);
-      for (const config of configData) {
-        await storeSearchConfig({
-          user_id: config.user_id,
-          search_phrase: config.search_phrase,
-          search_name: config.search_name
-        });
+    if (options.createSearchConfig) {
+      const config = await createSearchConfig(JSON.parse(options.createSearchConfig));
+      safeLog("info", `✅ Created search config ${config.searchName}`);
+      console.log(JSON.stringify(config, null, 2));
+    }
+
+    if (options.editSearchConfig) {
+      const { searchName, ...fields } = JSON.parse(options.editSearchConfig);
+      const config = await updateSearchConfig(searchName, fields);
+      if (!config) {
+        throw new Error(`Search config "${searchName}" not found`);
+      }
+      safeLog("info", `✅ Updated search config ${searchName}`);
+      console.log(JSON.stringify(config, null, 2));
+    }
+
+    if (options.pauseSearchConfig || options.resumeSearchConfig) {
+      const searchName = (options.pauseSearchConfig || options.resumeSearchConfig) as string;
+      if (!(await updateSearchConfig(searchName, { paused: Boolean(options.pauseSearchConfig) }))) {
+        throw new Error(`Search config "${searchName}" not found`);
+      }
+      safeLog("info", `✅ ${options.pauseSearchConfig ? "Paused" : "Resumed"} search config ${searchName}`);
+    }
+
+    if (options.suggestSearchTerms) {
+      const suggested = await suggestSearchConfigTerms(options.suggestSearchTerms, { apply: options.apply });
+      if (!suggested) {
+        throw new Error(`Search config "${options.suggestSearchTerms}" not found`);
+      }
+      console.log(JSON.stringify(suggested.suggestions, null, 2));
+      safeLog("info", options.apply
+        ? `✅ Added the suggestions to ${options.suggestSearchTerms}; it now searches with ${suggested.searchConfig.synonyms.length} synonyms and ${suggested.searchConfig.keywords.length} keywords`
+        : "Review the suggestions and rerun with --apply to add them to the search config");
+    }
+
+    if (options.deleteSearchConfig) {
+      if (await deleteSearchConfig(options.deleteSearchConfig)) {
+        safeLog("info", `✅ Deleted search config ${options.deleteSearchConfig}`);
+      } else {
+        safeLog("warn", `⚠️ No search config named ${options.deleteSearchConfig}`);
       }
     }
 
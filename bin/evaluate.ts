@@ -0,0 +1,118 @@
+#!/usr/bin/env -S npx tsx
+// bin/evaluate.ts
+import { runEvaluation, formatEvaluationReport, GoldVideo, EvaluationItem, EvaluationVariant } from "../lib/evaluation";
+import { getLlmModel } from "../lib/ollama";
+import { getAnalysisPromptTemplate } from "../lib/prompt-library";
+import { closePool, getTranscriptByVideoId } from "../lib/database";
+import { safeLog } from "../lib/logger";
+import dotenv from "dotenv";
+import path from "path";
+import fs from "fs/promises";
+
+dotenv.config({
+  path: path.resolve(process.cwd(), ".env"),
+});
+
+interface Options {
+  goldFile?: string;
+  models: string[];
+  prompts: string[];
+  limit?: number;
+  outputFile: string;
+}
+
+async function main() {
+  const options: Options = { models: [], prompts: [], outputFile: "evaluation-report.json" };
+  const args = process.argv.slice(2);
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--gold-file" && i + 1 < args.length) {
+      options.goldFile = args[i + 1];
+      i++;
+    } else if (args[i] === "--models" && i + 1 < args.length) {
+      options.models.push(...args[i + 1].split(",").map(model => model.trim()).filter(Boolean));
+      i++;
+    } else if (args[i] === "--prompts" && i + 1 < args.length) {
+      options.prompts.push(...args[i + 1].split(",").map(name => name.trim()).filter(Boolean));
+      i++;
+    } else if (args[i] === "--limit" && i + 1 < args.length) {
+      options.limit = parseInt(args[i + 1], 10);
+      i++;
+    } else if (args[i] === "--output-file" && i + 1 < args.length) {
+      options.outputFile = args[i + 1];
+      i++;
+    }
+  }
+
+  if (!options.goldFile) {
+    safeLog("error", "Usage: evaluate.ts --gold-file <file> [options]");
+    safeLog("error", "The gold file is a JSON array of hand-labelled analyses: { videoId, title?, transcript?, ...AnalysisResult }.");
+    safeLog("error", "Videos without a transcript in the file are read from the database.");
+    safeLog("error", "Options:");
+    safeLog("error", "  --models <a,b,...>        Model specs to compare (default: LLM_MODEL)");
+    safeLog("error", "  --prompts <a,b,...>       Prompt library templates to compare (default: PROMPT_TEMPLATE or disease_space)");
+    safeLog("error", "  --limit <number>          Only evaluate the first N gold videos");
+    safeLog("error", "  --output-file <file>      Where to write the JSON report (default: evaluation-report.json)");
+    process.exit(1);
+  }
+
+  try {
+    const gold: GoldVideo[] = JSON.parse(await fs.readFile(options.goldFile, "utf-8"));
+    if (!Array.isArray(gold)) {
+      throw new Error("The gold file must contain a JSON array");
+    }
+    const selected = options.limit ? gold.slice(0, options.limit) : gold;
+
+    const items: EvaluationItem[] = [];
+    for (const entry of selected) {
+      if (entry.transcript) {
+        items.push({ gold: entry, title: entry.title || `Video ${entry.videoId}`, transcript: entry.transcript });
+        continue;
+      }
+      const stored = process.env.DATABASE_URL ? await getTranscriptByVideoId(entry.videoId) : null;
+      if (!stored || stored.transcript === "NOT AVAILABLE") {
+        safeLog("warn", `⚠️ Skipping ${entry.videoId}: no transcript in the gold file or the database`);
+        continue;
+      }
+      items.push({ gold: entry, title: entry.title || stored.title, transcript: stored.transcript });
+    }
+    if (items.length === 0) {
+      throw new Error("No gold videos with a transcript to evaluate");
+    }
+
+    // Resolved up front so a misspelled template name fails before any model is called
+    const templates = options.prompts.length > 0
+      ? options.prompts.map(name => getAnalysisPromptTemplate(name))
+      : [getAnalysisPromptTemplate()];
+    const models = options.models.length > 0 ? options.models : [getLlmModel()];
+
+    const variants: EvaluationVariant[] = [];
+    for (const model of models) {
+      for (const template of templates) {
+        variants.push({
+          label: templates.length > 1 ? `${model} / ${template.name}` : model,
+          model,
+          promptTemplate: template.name,
+          promptVersion: template.hash,
+        });
+      }
+    }
+
+    const report = await runEvaluation(items, variants);
+    await fs.writeFile(options.outputFile, JSON.stringify(report, null, 2));
+    console.log(formatEvaluationReport(report));
+    safeLog("info", `✅ Wrote evaluation report for ${items.length} videos to ${options.outputFile}`);
+  } catch (error) {
+    safeLog("error", "❌ Error:", error);
+    await closePool();
+    process.exit(1);
+  }
+
+  await closePool();
+  process.exit(0);
+}
+
+main().catch((error) => {
+  safeLog("error", "Unhandled error:", error);
+  process.exit(1);
+});
@@ -1,12 +1,16 @@
-import { initializeDatabase } from "@/lib/database";
+import { getPool, closePool } from "@/lib/database";
+import { migrateUp } from "@/lib/migrate";
 
+// Kept for existing scripts; the same as "migrate.ts up"
 async function main() {
   try {
-    await initializeDatabase();
-    console.log("Database initialized successfully");
+    const applied = await migrateUp(await getPool());
+    console.log(`Database initialized successfully (${applied.length} migrations applied)`);
+    await closePool();
     process.exit(0);
   } catch (error) {
     console.error("Failed to initialize database:", error);
+    await closePool();
     process.exit(1);
   }
 }
@@ -1,8 +1,13 @@
 #!/usr/bin/env -S npx tsx
 // bin/llm-analyzer.ts
 
-import { analyzeTranscript } from "../lib/ollama";
+import { analyzeTranscriptWithDetails, getLlmModel, getPromptVersion } from "../lib/ollama";
+import { getAnalysisPromptTemplate } from "../lib/prompt-library";
+import { getVideosWithCurrentAnalysis, getSearchConfig, closePool } from "../lib/database";
+import { TimedSegment } from "../lib/types";
 import { safeLog } from "../lib/logger";
+import { PipelineRunTracker, parseRunId } from "../lib/pipeline-runs";
+import { normalizeSymptoms } from "../lib/symptom-vocabulary";
 import dotenv from "dotenv";
 import path from "path";
 import fs from "fs/promises";
@@ -16,6 +21,10 @@ interface Options {
   outputFile?: string;
   videoId?: string;
   metadataFile?: string; // Optional metadata file to provide titles
+  resume?: number;
+  force?: boolean;  // Re-analyze even when the stored analysis used the same prompt and model
+  prompt?: string;  // Prompt library template name
+  searchName?: string;  // Search config whose prompt template and custom fields to use
 }
 
 async function main() {
@@ -35,16 +44,39 @@ async function main() {
     } else if (args[i] === "--metadata-file" && i + 1 < args.length) {
       options.metadataFile = args[i + 1];
       i++;
+    } else if (args[i] === "--resume" && i + 1 < args.length) {
+      options.resume = parseRunId(args[i + 1]);
+      i++;
+    } else if (args[i] === "--force") {
+      options.force = true;
+    } else if (args[i] === "--prompt" && i + 1 < args.length) {
+      options.prompt = args[i + 1];
+      i++;
+    } else if (args[i] === "--search-name" && i + 1 < args.length) {
+      options.searchName = args[i + 1];
+      i++;
     }
   }
 
-  if (!options.inputFile && !options.videoId) {
-    safeLog("error", "Usage: llm-analyzer.ts [--input-file <file>] [--output-file <file>] [--metadata-file <file>]");
-    safeLog("error", "       llm-analyzer.ts --video-id <video_id> [--output-file <file>] [--metadata-file <file>]");
+  if (!options.inputFile && !options.videoId && options.resume === undefined) {
+    safeLog("error", "Usage: llm-analyzer.ts [--input-file <file>] [--output-file <file>] [--metadata-file <file>] [--resume <run_id>] [--force] [--prompt <template>] [--search-name <name>]");
+    safeLog("error", "       llm-analyzer.ts --video-id <video_id> [--output-file <file>] [--metadata-file <file>] [--resume <run_id>] [--force] [--prompt <template>] [--search-name <name>]");
+    safeLog("error", "       llm-analyzer.ts --resume <run_id>");
     process.exit(1);
   }
 
-  let inputData: { videoId: string; transcript: string; language?: string; title?: string }[] = [];
+  const tracker = await PipelineRunTracker.start("llm-analyzer", null, options, options.resume);
+  if (options.resume !== undefined && !options.inputFile && !options.videoId) {
+    // Re-run with the inputs the original run was started with
+    options.inputFile = tracker.runOptions.inputFile;
+    options.videoId = tracker.runOptions.videoId;
+    options.metadataFile = options.metadataFile || tracker.runOptions.metadataFile;
+    options.outputFile = options.outputFile || tracker.runOptions.outputFile;
+    options.prompt = options.prompt || tracker.runOptions.prompt;
+    options.searchName = options.searchName || tracker.runOptions.searchName;
+  }
+
+  let inputData: { videoId: string; transcript: string; language?: string; title?: string; segments?: TimedSegment[] }[] = [];
   let metadataMap: Record<string, { title: string; description?: string }> = {};
 
   // Load metadata if provided
@@ -64,7 +96,12 @@ async function main() {
   if (options.videoId) {
     const transcript = await (await import("../lib/youtube")).getTranscript(options.videoId);
     if (transcript) {
-      inputData = [{ videoId: options.videoId, transcript: transcript.transcript, title: metadataMap[options.videoId]?.title }];
+      inputData = [{
+        videoId: options.videoId,
+        transcript: transcript.transcript,
+        title: metadataMap[options.videoId]?.title,
+        segments: transcript.segments,
+      }];
     } else {
       safeLog("error", `❌ No transcript available for video ${options.videoId}`);
       process.exit(1);
@@ -76,6 +113,7 @@ async function main() {
         videoId: item.videoId || item.id,
         transcript: item.transcript,
         title: item.title || metadataMap[item.videoId || item.id]?.title,
+        segments: item.segments,
       }));
     } catch (error) {
       const lines = inputContent.split("\n").filter(line => line.trim());
@@ -86,12 +124,13 @@ async function main() {
             videoId: item.videoId || item.id,
             transcript: item.transcript,
             title: item.title || metadataMap[item.videoId || item.id]?.title,
+            segments: item.segments,
           };
         } catch (e) {
           safeLog("error", `Failed to parse line as JSON: ${line}`);
           return null;
         }
-      }).filter(data => data !== null) as { videoId: string; transcript: string; title?: string }[];
+      }).filter(data => data !== null) as { videoId: string; transcript: string; title?: string; segments?: TimedSegment[] }[];
       
       if (inputData.length === 0) {
         process.exit(1);
@@ -105,22 +144,64 @@ async function main() {
   }
 
   // Filter out "NOT AVAILABLE" transcripts
-  const validInputData = inputData.filter(item => item.transcript !== "NOT AVAILABLE");
+  let validInputData = inputData.filter(item => item.transcript !== "NOT AVAILABLE");
   safeLog("info", `Loaded ${inputData.length} total transcripts; processing ${validInputData.length} valid transcripts (skipped ${inputData.length - validInputData.length} unavailable)`);
 
+  const llmModel = getLlmModel();
+  const searchConfig = options.searchName && process.env.DATABASE_URL ? await getSearchConfig(options.searchName) : null;
+  if (options.searchName && !searchConfig) {
+    safeLog("warn", `⚠️ No search config named "${options.searchName}"; analyzing without its custom fields`);
+  }
+  const template = getAnalysisPromptTemplate(options.prompt || searchConfig?.prompt_template);
+  const customFields = searchConfig?.custom_field_schema || [];
+  const promptVersion = getPromptVersion(template, customFields);
+  if (options.force) {
+    safeLog("info", "--force given; re-analyzing every transcript");
+  } else if (process.env.DATABASE_URL) {
+    const upToDate = await getVideosWithCurrentAnalysis(validInputData.map(item => item.videoId), promptVersion, llmModel);
+    validInputData = validInputData.filter(item => !upToDate.has(item.videoId));
+    safeLog("info", `Skipping ${upToDate.size} videos already analyzed with prompt ${promptVersion} and model ${llmModel}; ${validInputData.length} left to analyze`);
+  } else {
+    safeLog("warn", "DATABASE_URL is not set; cannot check for existing analyses, analyzing every transcript");
+  }
+
+  await tracker.register(validInputData.map(item => item.videoId));
+
   const outputData: any[] = [];
-  for (const { videoId, transcript, title } of validInputData) {
+  for (const { videoId, transcript, title, segments } of validInputData) {
+    const tracked = tracker.getData(videoId).analysis;
+    if (tracker.isComplete(videoId, "analyzed") && tracked) {
+      safeLog("info", `⏭️ Skipping ${videoId}; already analyzed in run ${tracker.runId}`);
+      outputData.push({ videoId, ...tracked });
+      continue;
+    }
+
     try {
       safeLog("info", `🔍 Analyzing transcript for video ${videoId}...`);
-      const result = await analyzeTranscript(videoId, transcript, title || `Video ${videoId}`);
+      const { result, error, attempts, rawResponse } = await analyzeTranscriptWithDetails(videoId, transcript, title || `Video ${videoId}`, {
+        segments,
+        promptTemplate: template.name,
+        customFields,
+      });
       if (result) {
         safeLog("info", `✅ Analysis completed for ${videoId}`);
-        outputData.push({ videoId, ...result });
+        const analysis = {
+          ...result,
+          prompt_name: template.name,
+          prompt_version: promptVersion,
+          llm_model: llmModel,
+          normalized_symptoms: normalizeSymptoms(result.symptoms),
+          raw_response: rawResponse,
+        };
+        outputData.push({ videoId, ...analysis });
+        await tracker.complete(videoId, "analyzed", { analysis });
       } else {
-        safeLog("warn", `⚠️ No analysis result for ${videoId}`);
+        safeLog("warn", `⚠️ No analysis result for ${videoId} after ${attempts} attempts: ${error}`);
+        await tracker.fail(videoId, "analyze", error || "No analysis result");
       }
-    } catch (error) {
+    } catch (error: any) {
       safeLog("error", `❌ Error analyzing video ${videoId}:`, error);
+      await tracker.fail(videoId, "analyze", error.message);
     }
   }
 
@@ -142,10 +223,13 @@ async function main() {
     }
   }
 
+  await tracker.finish("completed");
+  await closePool();
   safeLog("info", "✅ Analysis pipeline completed");
 }
 
-main().catch((error) => {
+main().catch(async (error) => {
   safeLog("error", "🚨 Unhandled error:", error);
+  await closePool();
   process.exit(1);
 });
\ No newline at end of file
@@ -0,0 +1,117 @@
+#!/usr/bin/env -S npx tsx
+// bin/llm-chat.ts
+import { MyLama } from "../lib/MyLama";
+import { getTranscriptByVideoId, closePool } from "../lib/database";
+import { safeLog } from "../lib/logger";
+import dotenv from "dotenv";
+import path from "path";
+import * as readline from "readline";
+
+dotenv.config({
+  path: path.resolve(process.cwd(), ".env"),
+});
+
+interface Options {
+  videoId?: string;
+  model?: string;
+}
+
+interface ChatTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+function buildPrompt(history: ChatTurn[], context?: { title: string; transcript: string }): string {
+  const parts: string[] = [];
+  if (context) {
+    parts.push(
+      `You are answering questions about the YouTube video "${context.title}". ` +
+      "Base your answers on its transcript below and say so when the transcript does not contain the answer.",
+      `Transcript:\n${context.transcript}`
+    );
+  }
+  parts.push(history.map(turn => `${turn.role === "user" ? "User" : "Assistant"}: ${turn.content}`).join("\n"));
+  parts.push("Assistant:");
+  return parts.join("\n\n");
+}
+
+async function main() {
+  const options: Options = {};
+  const args = process.argv.slice(2);
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--video-id" && i + 1 < args.length) {
+      options.videoId = args[i + 1];
+      i++;
+    } else if (args[i] === "--model" && i + 1 < args.length) {
+      options.model = args[i + 1];
+      i++;
+    } else if (args[i] === "--help") {
+      safeLog("error", "Usage: llm-chat.ts [--video-id <video_id>] [--model <provider:model>]");
+      safeLog("error", "  --video-id <id>   Load the stored transcript of this video as context");
+      safeLog("error", "  --model <spec>    Model to chat with (defaults to LLM_MODEL)");
+      process.exit(0);
+    }
+  }
+
+  const llm = new MyLama(options.model);
+  let context: { title: string; transcript: string } | undefined;
+
+  if (options.videoId) {
+    const stored = await getTranscriptByVideoId(options.videoId);
+    await closePool();
+    if (!stored) {
+      safeLog("error", `❌ No stored transcript for video ${options.videoId}`);
+      process.exit(1);
+    }
+    context = { title: stored.title, transcript: stored.transcript };
+    safeLog("info", `Loaded transcript for "${stored.title}" (${stored.transcript.length} characters)`);
+  }
+
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  const history: ChatTurn[] = [];
+
+  console.log(`\nInteractive Mode - Using ${llm.model}`);
+  console.log('Type "exit" to quit\n');
+
+  const askQuestion = () => {
+    rl.question("You: ", async (input) => {
+      if (input.trim().toLowerCase() === "exit") {
+        rl.close();
+        return;
+      }
+      if (!input.trim()) {
+        askQuestion();
+        return;
+      }
+
+      history.push({ role: "user", content: input });
+      try {
+        const response = await llm.generate(buildPrompt(history, context));
+        history.push({ role: "assistant", content: response });
+        console.log("\nAssistant:", response, "\n");
+      } catch (error) {
+        // Drop the unanswered question so it does not linger in the conversation
+        history.pop();
+        console.error("Error:", error);
+      }
+
+      askQuestion(); // Continue the conversation
+    });
+  };
+
+  rl.on("close", () => {
+    console.log("\nGoodbye!");
+    process.exit(0);
+  });
+
+  askQuestion();
+}
+
+main().catch((error) => {
+  safeLog("error", "Unhandled error:", error);
+  process.exit(1);
+});
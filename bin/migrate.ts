@@ -0,0 +1,84 @@
+#!/usr/bin/env -S npx tsx
+// bin/migrate.ts
+import { migrateUp, migrateDown, getMigrationStatus } from "../lib/migrate";
+import { closePool, getPool } from "../lib/database";
+import { safeLog } from "../lib/logger";
+import dotenv from "dotenv";
+import path from "path";
+
+dotenv.config({
+  path: path.resolve(process.cwd(), ".env"),
+});
+
+interface Options {
+  command?: "up" | "down" | "status";
+  to?: number;
+  steps?: number;
+  allowDropBaseline?: boolean;
+}
+
+async function main() {
+  const options: Options = {};
+  const args = process.argv.slice(2);
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "up" || args[i] === "down" || args[i] === "status") {
+      options.command = args[i] as Options["command"];
+    } else if (args[i] === "--to" && i + 1 < args.length) {
+      options.to = parseInt(args[i + 1], 10);
+      i++;
+    } else if (args[i] === "--steps" && i + 1 < args.length) {
+      options.steps = parseInt(args[i + 1], 10);
+      i++;
+    } else if (args[i] === "--allow-drop-baseline") {
+      options.allowDropBaseline = true;
+    }
+  }
+
+  if (!options.command) {
+    safeLog("error", "Usage: migrate.ts <up|down|status> [options]");
+    safeLog("error", "  up                        Apply every pending migration");
+    safeLog("error", "  down                      Revert the most recent migration");
+    safeLog("error", "  status                    List migrations and whether they are applied");
+    safeLog("error", "Options:");
+    safeLog("error", "  --to <version>            up: stop after this version; down: revert every version above it");
+    safeLog("error", "  --steps <number>          down: how many migrations to revert (default: 1)");
+    safeLog("error", "  --allow-drop-baseline     down: allow reverting migration 1, which drops every table and all data");
+    process.exit(1);
+  }
+
+  try {
+    const pool = await getPool();
+    if (options.command === "status") {
+      const statuses = await getMigrationStatus(pool);
+      for (const status of statuses) {
+        const state = status.appliedAt ? `applied ${status.appliedAt}` : "pending";
+        console.log(`${String(status.version).padStart(4, "0")}  ${status.name.padEnd(30)}  ${state}${status.known ? "" : "  (not in this checkout)"}`);
+      }
+      const pending = statuses.filter(status => !status.appliedAt).length;
+      safeLog("info", pending > 0 ? `${pending} migrations pending; run "migrate.ts up"` : "✅ Schema is up to date");
+    } else if (options.command === "up") {
+      const applied = await migrateUp(pool, { to: options.to });
+      safeLog("info", applied.length > 0 ? `✅ Applied ${applied.length} migrations` : "✅ Schema is already up to date");
+    } else {
+      const reverted = await migrateDown(pool, {
+        to: options.to,
+        steps: options.steps,
+        allowDropBaseline: options.allowDropBaseline,
+      });
+      safeLog("info", reverted.length > 0 ? `✅ Reverted ${reverted.length} migrations` : "Nothing to revert");
+    }
+  } catch (error) {
+    safeLog("error", "❌ Error:", error);
+    await closePool();
+    process.exit(1);
+  }
+
+  await closePool();
+  process.exit(0);
+}
+
+main().catch((error) => {
+  safeLog("error", "Unhandled error:", error);
+  process.exit(1);
+});
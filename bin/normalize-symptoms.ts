@@ -0,0 +1,81 @@
+#!/usr/bin/env -S npx tsx
+// bin/normalize-symptoms.ts
+import { getAnalysisSymptomLists, storeAnalysisSymptoms, closePool } from "../lib/database";
+import { getSymptomVocabulary, normalizeSymptoms } from "../lib/symptom-vocabulary";
+import { safeLog } from "../lib/logger";
+import dotenv from "dotenv";
+import path from "path";
+
+dotenv.config({
+  path: path.resolve(process.cwd(), ".env"),
+});
+
+interface Options {
+  searchName?: string;
+  showUnmapped?: number;
+}
+
+async function main() {
+  const options: Options = {};
+  const args = process.argv.slice(2);
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--search-name" && i + 1 < args.length) {
+      options.searchName = args[i + 1];
+      i++;
+    } else if (args[i] === "--show-unmapped" && i + 1 < args.length) {
+      options.showUnmapped = parseInt(args[i + 1], 10);
+      i++;
+    } else if (args[i] === "--help") {
+      safeLog("error", "Usage: normalize-symptoms.ts [--search-name <name>] [--show-unmapped <n>]");
+      safeLog("error", "  Re-maps the symptoms of stored analyses to the vocabulary in SYMPTOM_VOCABULARY_FILE");
+      safeLog("error", "  --search-name <name>   Only analyses of videos from this search");
+      safeLog("error", "  --show-unmapped <n>    Print the n most common phrases no vocabulary term matched (default 20)");
+      process.exit(0);
+    }
+  }
+
+  try {
+    // Loaded up front so a missing vocabulary fails before any stored symptoms are touched
+    getSymptomVocabulary();
+    const analyses = await getAnalysisSymptomLists(options.searchName);
+    const unmapped = new Map<string, number>();
+    let mapped = 0;
+    let total = 0;
+
+    for (const { videoId, symptoms } of analyses) {
+      const normalized = normalizeSymptoms(symptoms);
+      await storeAnalysisSymptoms(videoId, normalized);
+      for (const symptom of normalized) {
+        total++;
+        if (symptom.code) {
+          mapped++;
+        } else {
+          const key = symptom.raw.toLowerCase();
+          unmapped.set(key, (unmapped.get(key) || 0) + 1);
+        }
+      }
+    }
+    safeLog("info", `✅ Normalized ${total} symptoms from ${analyses.length} analyses; ${mapped} mapped to a vocabulary term`);
+
+    const top = Array.from(unmapped.entries()).sort((a, b) => b[1] - a[1]).slice(0, options.showUnmapped ?? 20);
+    if (top.length > 0) {
+      safeLog("info", "Most common unmapped phrases:");
+      for (const [phrase, count] of top) {
+        safeLog("info", `  ${count}\t${phrase}`);
+      }
+    }
+  } catch (error) {
+    safeLog("error", "❌ Error:", error);
+    await closePool();
+    process.exit(1);
+  }
+
+  await closePool();
+  process.exit(0);
+}
+
+main().catch((error) => {
+  safeLog("error", "Unhandled error:", error);
+  process.exit(1);
+});
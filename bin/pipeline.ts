@@ -0,0 +1,110 @@
+#!/usr/bin/env -S npx tsx
+// bin/pipeline.ts
+import { runPipeline, parseStages, parseMaxResults, PipelineStage, PIPELINE_STAGES } from "../lib/pipeline";
+import { closePool } from "../lib/database";
+import { parseRunId } from "../lib/pipeline-runs";
+import { safeLog } from "../lib/logger";
+import dotenv from "dotenv";
+import path from "path";
+import fs from "fs/promises";
+
+dotenv.config({
+  path: path.resolve(process.cwd(), ".env"),
+});
+
+interface Options {
+  disease?: string;
+  searchPhrase?: string;
+  stages?: PipelineStage[];
+  maxResults?: number;
+  startDate?: string;
+  endDate?: string;
+  outputFile?: string;
+  resume?: number;
+  force?: boolean;
+  prompt?: string;
+}
+
+async function main() {
+  const options: Options = {};
+  const args = process.argv.slice(2);
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--disease" && i + 1 < args.length) {
+      options.disease = args[i + 1];
+      i++;
+    } else if (args[i] === "--search-phrase" && i + 1 < args.length) {
+      options.searchPhrase = args[i + 1];
+      i++;
+    } else if (args[i] === "--stages" && i + 1 < args.length) {
+      options.stages = parseStages(args[i + 1]);
+      i++;
+    } else if (args[i] === "--max-results" && i + 1 < args.length) {
+      options.maxResults = parseMaxResults(args[i + 1]);
+      i++;
+    } else if (args[i] === "--start-date" && i + 1 < args.length) {
+      options.startDate = args[i + 1];
+      i++;
+    } else if (args[i] === "--end-date" && i + 1 < args.length) {
+      options.endDate = args[i + 1];
+      i++;
+    } else if (args[i] === "--output-file" && i + 1 < args.length) {
+      options.outputFile = args[i + 1];
+      i++;
+    } else if (args[i] === "--resume" && i + 1 < args.length) {
+      options.resume = parseRunId(args[i + 1]);
+      i++;
+    } else if (args[i] === "--force") {
+      options.force = true;
+    } else if (args[i] === "--prompt" && i + 1 < args.length) {
+      options.prompt = args[i + 1];
+      i++;
+    }
+  }
+
+  if (!options.disease) {
+    safeLog("error", "Usage: pipeline.ts --disease <search_name> [options]");
+    safeLog("error", "Options:");
+    safeLog("error", "  --search-phrase <query>   Query sent to YouTube (defaults to the disease name)");
+    safeLog("error", `  --stages <list>           Comma-separated stages to run (${PIPELINE_STAGES.join(",")})`);
+    safeLog("error", "  --max-results <number>    Maximum number of videos to fetch");
+    safeLog("error", "  --start-date <YYYY-MM-DD> Only fetch videos published after this date");
+    safeLog("error", "  --end-date <YYYY-MM-DD>   Only fetch videos published before this date");
+    safeLog("error", "  --output-file <file>      Write the collected videos, transcripts and analyses as JSON");
+    safeLog("error", "  --resume <run_id>         Resume a previous run, skipping videos it already completed");
+    safeLog("error", "  --force                   Re-analyze videos already analyzed with the current prompt and model");
+    safeLog("error", "  --prompt <template>       Prompt library template to analyze with (default: the search config's, then disease_space)");
+    process.exit(1);
+  }
+
+  try {
+    const result = await runPipeline({
+      searchName: options.disease,
+      searchPhrase: options.searchPhrase,
+      stages: options.stages,
+      maxResults: options.maxResults,
+      startDate: options.startDate,
+      endDate: options.endDate,
+      resumeRunId: options.resume,
+      force: options.force,
+      promptTemplate: options.prompt,
+    });
+
+    if (options.outputFile) {
+      await fs.writeFile(options.outputFile, JSON.stringify(result, null, 2));
+      safeLog("info", `✅ Wrote pipeline results to ${options.outputFile}`);
+    }
+  } catch (error) {
+    safeLog("error", "❌ Error:", error);
+    await closePool();
+    process.exit(1);
+  }
+
+  await closePool();
+  process.exit(0);
+}
+
+main().catch((error) => {
+  safeLog("error", "Unhandled error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,165 @@
+#!/usr/bin/env -S npx tsx
+// bin/scheduler.ts
+import { runDueSearches, runScheduledSearch, nextRunTime, ScheduledRunOutcome } from "../lib/scheduler";
+import { initializeDatabase, getScheduledSearchConfigs, setSearchSchedule, setIdleClientErrorHandler, closePool } from "../lib/database";
+import { safeLog } from "../lib/logger";
+import dotenv from "dotenv";
+import path from "path";
+
+dotenv.config({
+  path: path.resolve(process.cwd(), ".env"),
+});
+
+interface Options {
+  due?: boolean;
+  run?: string;
+  list?: boolean;
+  searchName?: string;
+  setSchedule?: string;
+  clearSchedule?: boolean;
+}
+
+function logOutcomes(outcomes: ScheduledRunOutcome[]) {
+  for (const outcome of outcomes) {
+    if (outcome.status === "completed") {
+      safeLog(
+        "info",
+        `✅ "${outcome.searchName}" (run ${outcome.runId}): ${outcome.videos} new videos, ${outcome.transcripts} transcripts, ${outcome.analyses} analyses`
+      );
+    } else {
+      safeLog("error", `❌ "${outcome.searchName}" failed: ${outcome.error}`);
+    }
+  }
+}
+
+let stopping = false;
+let wake: (() => void) | null = null;
+
+// Sleeps until the start of the next minute, or until the process is asked to stop
+function sleepUntilNextMinute(): Promise<void> {
+  const delay = 60000 - (Date.now() % 60000);
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, delay);
+    wake = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+  });
+}
+
+async function runForever() {
+  const stop = () => {
+    safeLog("info", "Stopping the scheduler after the current run");
+    stopping = true;
+    if (wake) wake();
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  // A connection dropped while idle is replaced on the next check instead of ending the process
+  setIdleClientErrorHandler(error => safeLog("error", "❌ Lost an idle database connection:", error.message));
+  await initializeDatabase();
+
+  safeLog("info", "⏰ Scheduler started; checking scheduled searches every minute");
+  while (!stopping) {
+    try {
+      logOutcomes(await runDueSearches());
+    } catch (error: any) {
+      // A database outage should not end the process; the next minute tries again
+      safeLog("error", "❌ Error checking scheduled searches:", error.message);
+    }
+    if (!stopping) {
+      await sleepUntilNextMinute();
+    }
+  }
+}
+
+async function main() {
+  const options: Options = {};
+  const args = process.argv.slice(2);
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--due") {
+      options.due = true;
+    } else if (args[i] === "--run" && i + 1 < args.length) {
+      options.run = args[i + 1];
+      i++;
+    } else if (args[i] === "--list") {
+      options.list = true;
+    } else if (args[i] === "--search-name" && i + 1 < args.length) {
+      options.searchName = args[i + 1];
+      i++;
+    } else if (args[i] === "--set-schedule" && i + 1 < args.length) {
+      options.setSchedule = args[i + 1];
+      i++;
+    } else if (args[i] === "--clear-schedule") {
+      options.clearSchedule = true;
+    }
+  }
+
+  if ((options.setSchedule || options.clearSchedule) && !options.searchName) {
+    safeLog("error", "Usage: scheduler.ts [options]");
+    safeLog("error", "Without options, runs until stopped and refreshes each scheduled search when its cron expression fires.");
+    safeLog("error", "Options:");
+    safeLog("error", "  --due                     Run every search that is due now, then exit");
+    safeLog("error", "  --run <search_name>       Refresh one search now, whatever its schedule");
+    safeLog("error", "  --list                    List scheduled searches with their watermark and next run");
+    safeLog("error", "  --search-name <name>      Search to change with --set-schedule or --clear-schedule");
+    safeLog("error", "  --set-schedule <cron>     Set the search's cron expression, e.g. \"0 6 * * 1\" (Mondays at 06:00)");
+    safeLog("error", "  --clear-schedule          Stop refreshing the search");
+    process.exit(1);
+  }
+
+  let failed = false;
+  try {
+    if (options.searchName && (options.setSchedule || options.clearSchedule)) {
+      await initializeDatabase();
+      const schedule = options.clearSchedule ? null : options.setSchedule!;
+      if (!(await setSearchSchedule(options.searchName, schedule))) {
+        throw new Error(`Search config "${options.searchName}" not found`);
+      }
+      safeLog("info", schedule ? `✅ "${options.searchName}" now runs on "${schedule}"` : `✅ Cleared the schedule of "${options.searchName}"`);
+    } else if (options.list) {
+      await initializeDatabase();
+      const configs = await getScheduledSearchConfigs();
+      for (const config of configs) {
+        const next = nextRunTime(config);
+        console.log(
+          `${config.search_name.padEnd(30)}  ${(config.schedule || "").padEnd(15)}  fetched until ${
+            config.last_fetched_at ? new Date(config.last_fetched_at).toISOString() : "never"
+          }  next run ${next ? next.toISOString() : "-"}`
+        );
+      }
+      safeLog("info", `✅ ${configs.length} scheduled searches`);
+    } else if (options.run) {
+      await initializeDatabase();
+      const [config] = await getScheduledSearchConfigs(options.run);
+      if (!config) {
+        throw new Error(`Search config "${options.run}" not found`);
+      }
+      const outcome = await runScheduledSearch(config);
+      logOutcomes([outcome]);
+      failed = outcome.status === "failed";
+    } else if (options.due) {
+      await initializeDatabase();
+      const outcomes = await runDueSearches();
+      logOutcomes(outcomes);
+      safeLog("info", `✅ Ran ${outcomes.length} due searches`);
+      failed = outcomes.some(outcome => outcome.status === "failed");
+    } else {
+      await runForever();
+    }
+  } catch (error) {
+    safeLog("error", "❌ Error:", error);
+    await closePool();
+    process.exit(1);
+  }
+
+  await closePool();
+  process.exit(failed ? 1 : 0);
+}
+
+main().catch((error) => {
+  safeLog("error", "Unhandled error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,108 @@
+#!/usr/bin/env -S npx tsx
+// bin/semantic-search.ts
+import { embedTranscript, getTranscriptsToEmbed, semanticSearch } from "../lib/embeddings";
+import { getEmbeddingProvider, embeddingModelKey, listEmbeddingProviders } from "../lib/embedding-providers";
+import { closePool } from "../lib/database";
+import { safeLog } from "../lib/logger";
+import dotenv from "dotenv";
+import path from "path";
+
+dotenv.config({
+  path: path.resolve(process.cwd(), ".env"),
+});
+
+interface Options {
+  query?: string;
+  index?: boolean;
+  force?: boolean;
+  searchName?: string;
+  videoType?: string;
+  limit?: number;
+  model?: string;
+}
+
+async function indexTranscripts(options: Options) {
+  const provider = getEmbeddingProvider(options.model);
+  const model = embeddingModelKey(provider);
+  const transcripts = await getTranscriptsToEmbed(model, { searchName: options.searchName, force: options.force });
+  safeLog("info", `🔍 Embedding ${transcripts.length} transcripts with ${model}`);
+
+  let failed = 0;
+  for (let i = 0; i < transcripts.length; i++) {
+    const { videoId, transcript, segments } = transcripts[i];
+    try {
+      const chunks = await embedTranscript(videoId, transcript, segments, provider);
+      safeLog("info", `${i + 1}/${transcripts.length} ${videoId}: ${chunks} chunks`);
+    } catch (error: any) {
+      failed++;
+      safeLog("error", `❌ Failed to embed ${videoId}:`, error.message);
+    }
+  }
+  safeLog("info", `✅ Embedded ${transcripts.length - failed} transcripts (${failed} failed)`);
+}
+
+async function main() {
+  const options: Options = {};
+  const args = process.argv.slice(2);
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--query" && i + 1 < args.length) {
+      options.query = args[i + 1];
+      i++;
+    } else if (args[i] === "--index") {
+      options.index = true;
+    } else if (args[i] === "--force") {
+      options.force = true;
+    } else if (args[i] === "--search-name" && i + 1 < args.length) {
+      options.searchName = args[i + 1];
+      i++;
+    } else if (args[i] === "--video-type" && i + 1 < args.length) {
+      options.videoType = args[i + 1];
+      i++;
+    } else if (args[i] === "--limit" && i + 1 < args.length) {
+      options.limit = parseInt(args[i + 1], 10);
+      i++;
+    } else if (args[i] === "--model" && i + 1 < args.length) {
+      options.model = args[i + 1];
+      i++;
+    }
+  }
+
+  if (!options.query && !options.index) {
+    safeLog("error", "Usage: semantic-search.ts --index [--search-name <name>] [--force] [--model <spec>]");
+    safeLog("error", "       semantic-search.ts --query <text> [--search-name <name>] [--video-type <type>] [--limit <n>] [--model <spec>]");
+    safeLog("error", "Options:");
+    safeLog("error", "  --index               Embed stored transcripts that have no embeddings for the model yet");
+    safeLog("error", "  --force               With --index, re-embed transcripts that already have embeddings");
+    safeLog("error", "  --query <text>        Print the transcript passages closest in meaning to the text");
+    safeLog("error", `  --model <spec>        Embedding model, e.g. ollama:nomic-embed-text (providers: ${listEmbeddingProviders().join(", ")}; defaults to EMBEDDING_MODEL)`);
+    process.exit(1);
+  }
+
+  try {
+    if (options.index) {
+      await indexTranscripts(options);
+    }
+    if (options.query) {
+      const results = await semanticSearch(options.query, {
+        limit: options.limit,
+        searchName: options.searchName,
+        videoType: options.videoType,
+        provider: getEmbeddingProvider(options.model),
+      });
+      console.log(JSON.stringify(results, null, 2));
+    }
+  } catch (error) {
+    safeLog("error", "❌ Error:", error);
+    await closePool();
+    process.exit(1);
+  }
+
+  await closePool();
+  process.exit(0);
+}
+
+main().catch((error) => {
+  safeLog("error", "Unhandled error:", error);
+  process.exit(1);
+});
@@ -1,6 +1,9 @@
 // bin/transcript-fetcher.ts
 import { getTranscript } from "../lib/youtube";
+import { TimedSegment } from "../lib/types";
 import { safeLog } from "../lib/logger";
+import { PipelineRunTracker, parseRunId } from "../lib/pipeline-runs";
+import { storeTranscript, closePool } from "../lib/database";
 import fs from "fs/promises";
 import path from "path";
 
@@ -8,6 +11,8 @@ interface Options {
   inputFile?: string;
   outputFile?: string;
   videoId?: string;
+  resume?: number;
+  store?: boolean;
 }
 
 async function main() {
@@ -24,17 +29,27 @@ async function main() {
     } else if (args[i] === "--video-id" && i + 1 < args.length) {
       options.videoId = args[i + 1];
       i++;
+    } else if (args[i] === "--resume" && i + 1 < args.length) {
+      options.resume = parseRunId(args[i + 1]);
+      i++;
+    } else if (args[i] === "--store") {
+      options.store = true;
     }
   }
 
-  if (!options.inputFile && !options.videoId) {
-    safeLog("error", "Usage: transcript-fetcher.ts --input-file <videoIds_file> [--output-file <file>]");
-    safeLog("error", "       transcript-fetcher.ts --video-id <video_id> [--output-file <file>]");
+  if (!options.inputFile && !options.videoId && options.resume === undefined) {
+    safeLog("error", "Usage: transcript-fetcher.ts --input-file <videoIds_file> [--output-file <file>] [--resume <run_id>]");
+    safeLog("error", "       transcript-fetcher.ts --video-id <video_id> [--output-file <file>] [--resume <run_id>]");
+    safeLog("error", "       transcript-fetcher.ts --resume <run_id> [--output-file <file>]");
+    safeLog("error", "  --store   Also save transcripts and their timed segments to the database");
     process.exit(1);
   }
 
   let videoIds: string[] = [];
+  let tracker: PipelineRunTracker | null = null;
   try {
+    tracker = await PipelineRunTracker.start("transcript-fetcher", null, options, options.resume);
+
     if (options.videoId) {
       videoIds = [options.videoId];
     } else if (options.inputFile) {
@@ -51,7 +66,11 @@ async function main() {
           process.exit(1);
         }
       }
+    } else {
+      // Resuming without an input file: pick up every video the run already knows about
+      videoIds = tracker.trackedVideoIds;
     }
+    await tracker.register(videoIds);
 
     const totalVideos = videoIds.length;
     if (totalVideos === 0) {
@@ -60,27 +79,43 @@ async function main() {
       safeLog("info", `Starting transcript fetch for ${totalVideos} videos`);
     }
 
-    const outputData: { videoId: string; transcript: string; language: string }[] = [];
+    const outputData: { videoId: string; transcript: string; language: string; segments?: TimedSegment[] }[] = [];
     let completed = 0;
 
     for (const videoId of videoIds) {
+      const tracked = tracker.getData(videoId).transcript;
+      if (tracker.isComplete(videoId, "transcribed") && tracked) {
+        outputData.push({ videoId, transcript: tracked.transcript, language: tracked.language, segments: tracked.segments });
+        completed++;
+        safeLog("info", `${completed}/${totalVideos} fetched (already completed in run ${tracker.runId})`);
+        continue;
+      }
+
       try {
         const transcriptData = await getTranscript(videoId);
         outputData.push({
           videoId,
           transcript: transcriptData ? transcriptData.transcript : "NOT AVAILABLE",
-          language: transcriptData ? transcriptData.language : "unknown"
+          language: transcriptData ? transcriptData.language : "unknown",
+          segments: transcriptData?.segments
         });
-        if (!transcriptData) {
+        if (transcriptData) {
+          if (options.store) {
+            await storeTranscript(videoId, transcriptData.transcript, transcriptData.language, transcriptData.segments);
+          }
+          await tracker.complete(videoId, "transcribed", { transcript: transcriptData });
+        } else {
           safeLog("warn", `No transcript available for video ${videoId}`);
+          await tracker.fail(videoId, "transcripts", "No transcript available");
         }
-      } catch (error) {
+      } catch (error: any) {
         safeLog("error", `Error fetching transcript for ${videoId}:`, error.message);
         outputData.push({
           videoId,
           transcript: "NOT AVAILABLE",
           language: "unknown"
         });
+        await tracker.fail(videoId, "transcripts", error.message);
       }
       completed++;
       safeLog("info", `${completed}/${totalVideos} fetched`);
@@ -94,10 +129,15 @@ async function main() {
         process.stdout.write(JSON.stringify(data) + "\n");
       }
     }
+
+    await tracker.finish("completed");
   } catch (error) {
     safeLog("error", "❌ Error:", error);
+    await tracker?.finish("failed");
+    await closePool();
     process.exit(1);
   }
+  await closePool();
 }
 
 main().catch((error) => {
@@ -2,6 +2,8 @@
 // bin/youtube-fetcher.ts
 import { searchDiseaseVideos, VideoMetadata } from "../lib/youtube";
 import { safeLog } from "../lib/logger";
+import { PipelineRunTracker, parseRunId } from "../lib/pipeline-runs";
+import { closePool } from "../lib/database";
 import fs from "fs/promises";
 import path from "path";
 
@@ -13,6 +15,7 @@ interface Options {
   videoId?: string;
   startDate?: string;
   endDate?: string;
+  resume?: number;
 }
 
 async function main() {
@@ -41,20 +44,31 @@ async function main() {
     } else if (args[i] === "--end-date" && i + 1 < args.length) {
       options.endDate = args[i + 1];
       i++;
+    } else if (args[i] === "--resume" && i + 1 < args.length) {
+      options.resume = parseRunId(args[i + 1]);
+      i++;
     }
   }
 
   if (!options.disease && !options.videoId) {
-    safeLog("error", "Usage: youtube-fetcher.ts --disease <disease_name> [--max-results <number>] [--output-file <file>] [--video-ids-file <file>] [--start-date <YYYY-MM-DD>] [--end-date <YYYY-MM-DD>]");
-    safeLog("error", "       youtube-fetcher.ts --video-id <video_id> [--output-file <file>] [--video-ids-file <file>]");
+    safeLog("error", "Usage: youtube-fetcher.ts --disease <disease_name> [--max-results <number>] [--output-file <file>] [--video-ids-file <file>] [--start-date <YYYY-MM-DD>] [--end-date <YYYY-MM-DD>] [--resume <run_id>]");
+    safeLog("error", "       youtube-fetcher.ts --video-id <video_id> [--output-file <file>] [--video-ids-file <file>] [--resume <run_id>]");
     process.exit(1);
   }
 
+  let tracker: PipelineRunTracker | null = null;
   try {
     let videos: VideoMetadata[] = [];
     let searchName: string = options.disease || options.videoId || "unknown";
 
-    if (options.videoId) {
+    tracker = await PipelineRunTracker.start("youtube-fetcher", searchName, options, options.resume);
+    const fetched = tracker.fetchedMetadata();
+
+    if (fetched) {
+      // The search already completed in the resumed run; reuse its results instead of spending quota again
+      videos = fetched;
+      safeLog("info", `Reusing ${videos.length} videos fetched by run ${tracker.runId}`);
+    } else if (options.videoId) {
       const youtubeService = new (await import("../lib/youtube-service")).YouTubeService(process.env.YOUTUBE_API_KEY || "");
       const video = await youtubeService.getVideoDetails(options.videoId);
       if (video) {
@@ -73,6 +87,13 @@ async function main() {
       safeLog("info", `Found ${videos.length} videos for "${options.disease}"`);
     }
 
+    await tracker.register(videos.map(video => video.id));
+    for (const video of videos) {
+      if (!tracker.isComplete(video.id, "fetched")) {
+        await tracker.complete(video.id, "fetched", { metadata: video });
+      }
+    }
+
     const outputData: VideoMetadata[] = [];
     for (const video of videos) {
       try {
@@ -103,10 +124,15 @@ async function main() {
         process.stdout.write(JSON.stringify(data) + "\n");
       }
     }
+
+    await tracker.finish("completed");
   } catch (error) {
     safeLog("error", "❌ Error:", error);
+    await tracker?.finish("failed");
+    await closePool();
     process.exit(1);
   }
+  await closePool();
 }
 
 main().catch((error) => {
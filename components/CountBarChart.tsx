@@ -0,0 +1,38 @@
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+
+interface CountBarChartProps {
+  title: string;
+  data: { label: string; count: number }[];
+  layout?: "horizontal" | "vertical";  // vertical puts the labels on the y axis, for long names
+}
+
+export default function CountBarChart({ title, data, layout = "horizontal" }: CountBarChartProps) {
+  const vertical = layout === "vertical";
+  return (
+    <div className="bg-card p-6 rounded-lg shadow-md">
+      <h3 className="text-lg font-semibold text-text mb-4">{title}</h3>
+      {data.length === 0 ? (
+        <p className="text-sm text-text">No data yet</p>
+      ) : (
+        <ResponsiveContainer width="100%" height={vertical ? Math.max(200, data.length * 32) : 260}>
+          <BarChart data={data} layout={vertical ? "vertical" : "horizontal"} margin={{ left: vertical ? 40 : 0 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            {vertical ? (
+              <>
+                <XAxis type="number" allowDecimals={false} />
+                <YAxis type="category" dataKey="label" width={160} tick={{ fontSize: 12 }} />
+              </>
+            ) : (
+              <>
+                <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                <YAxis allowDecimals={false} />
+              </>
+            )}
+            <Tooltip />
+            <Bar dataKey="count" fill="#1B4965" />
+          </BarChart>
+        </ResponsiveContainer>
+      )}
+    </div>
+  );
+}
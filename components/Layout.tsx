@@ -0,0 +1,44 @@
+import { ReactNode } from "react";
+import Head from "next/head";
+import Link from "next/link";
+
+interface LayoutProps {
+  title?: string;
+  subtitle?: string;
+  children: ReactNode;
+}
+
+export default function Layout({ title = "Video Analysis Dashboard", subtitle, children }: LayoutProps) {
+  return (
+    <div className="min-h-screen bg-background">
+      <Head>
+        <title>{title}</title>
+      </Head>
+
+      {/* Header */}
+      <header className="bg-primary text-white py-6 shadow-lg">
+        <div className="container mx-auto px-4 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">{title}</h1>
+            <p className="mt-2 text-secondary">{subtitle || "Analyze YouTube videos for disease-related insights"}</p>
+          </div>
+          <nav className="flex gap-6 font-medium">
+            <Link href="/" className="hover:text-secondary">Search</Link>
+            <Link href="/searches" className="hover:text-secondary">Searches</Link>
+            <Link href="/reviews" className="hover:text-secondary">Review</Link>
+          </nav>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8">{children}</main>
+
+      {/* Footer */}
+      <footer className="bg-primary text-white py-4 mt-12">
+        <div className="container mx-auto px-4 text-center">
+          <p>© 2025 Video Analysis Pipeline. All rights reserved.</p>
+        </div>
+      </footer>
+    </div>
+  );
+}
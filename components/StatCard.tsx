@@ -0,0 +1,22 @@
+import { ReactNode } from "react";
+import { IconType } from "react-icons";
+
+interface StatCardProps {
+  icon: IconType;
+  label: string;
+  value: ReactNode;
+  children?: ReactNode;
+}
+
+export default function StatCard({ icon: Icon, label, value, children }: StatCardProps) {
+  return (
+    <div className="bg-card p-6 rounded-lg shadow-md flex items-center gap-4">
+      <Icon className="text-4xl text-primary" />
+      <div>
+        <h3 className="text-lg font-semibold text-text">{label}</h3>
+        <p className="text-2xl font-bold text-success">{value}</p>
+        {children}
+      </div>
+    </div>
+  );
+}
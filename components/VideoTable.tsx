@@ -0,0 +1,217 @@
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import axios from "axios";
+import { FaSort, FaSortUp, FaSortDown, FaSpinner, FaCheck } from "react-icons/fa";
+
+interface VideoRow {
+  videoId: string;
+  title: string;
+  channelName: string;
+  publishedDate: string | null;
+  durationSeconds: number | null;
+  videoType: string | null;
+  videoTypeConfidence: number | null;
+  hasTranscript: boolean;
+}
+
+type SortColumn = "title" | "published_date" | "channel_name" | "duration_seconds" | "video_type";
+
+const COLUMNS: { key: SortColumn; label: string }[] = [
+  { key: "title", label: "Title" },
+  { key: "channel_name", label: "Channel" },
+  { key: "published_date", label: "Published" },
+  { key: "duration_seconds", label: "Duration" },
+  { key: "video_type", label: "Type" },
+];
+
+const PAGE_SIZE = 25;
+
+const VIDEO_TYPES = [
+  "patient story",
+  "caregiver story",
+  "KOL interview",
+  "conference talk",
+  "clinical trial promo",
+  "fundraising",
+  "advertisement",
+  "Informational",
+  "unrelated",
+  "unknown",
+];
+
+function formatDuration(seconds: number | null): string {
+  if (seconds === null || seconds === undefined) return "—";
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+export default function VideoTable({ searchName }: { searchName: string }) {
+  const [title, setTitle] = useState("");
+  const [channel, setChannel] = useState("");
+  const [videoType, setVideoType] = useState("");
+  const [minConfidence, setMinConfidence] = useState("");
+  const [sort, setSort] = useState<SortColumn>("published_date");
+  const [order, setOrder] = useState<"asc" | "desc">("desc");
+  const [page, setPage] = useState(1);
+  const [videos, setVideos] = useState<VideoRow[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    // Debounce typing in the filter boxes
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await axios.get("/api/videos", {
+          params: {
+            search_name: searchName,
+            title: title || undefined,
+            channel: channel || undefined,
+            video_type: videoType || undefined,
+            min_confidence: minConfidence || undefined,
+            sort,
+            order,
+            page,
+            page_size: PAGE_SIZE,
+          },
+        });
+        if (!cancelled) {
+          setVideos(response.data.videos);
+          setTotal(response.data.total);
+        }
+      } catch (err: any) {
+        if (!cancelled) setError(err.response?.data?.error || "An error occurred while fetching videos");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchName, title, channel, videoType, minConfidence, sort, order, page]);
+
+  const toggleSort = (column: SortColumn) => {
+    if (column === sort) {
+      setOrder(order === "asc" ? "desc" : "asc");
+    } else {
+      setSort(column);
+      setOrder(column === "published_date" || column === "duration_seconds" ? "desc" : "asc");
+    }
+    setPage(1);
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="bg-card p-6 rounded-lg shadow-md">
+      <div className="flex flex-col md:flex-row gap-4 mb-4">
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => { setTitle(e.target.value); setPage(1); }}
+          placeholder="Filter by title"
+          className="flex-1 px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-secondary"
+        />
+        <input
+          type="text"
+          value={channel}
+          onChange={(e) => { setChannel(e.target.value); setPage(1); }}
+          placeholder="Filter by channel"
+          className="flex-1 px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-secondary"
+        />
+        <select
+          value={videoType}
+          onChange={(e) => { setVideoType(e.target.value); setPage(1); }}
+          className="px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-secondary"
+        >
+          <option value="">All types</option>
+          {VIDEO_TYPES.map((type) => (
+            <option key={type} value={type}>{type}</option>
+          ))}
+        </select>
+        <select
+          value={minConfidence}
+          onChange={(e) => { setMinConfidence(e.target.value); setPage(1); }}
+          className="px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-secondary"
+        >
+          <option value="">Any confidence</option>
+          <option value="0.5">Confidence ≥ 50%</option>
+          <option value="0.8">Confidence ≥ 80%</option>
+        </select>
+      </div>
+
+      {error && <div className="mb-4 p-4 bg-error text-white rounded-lg">{error}</div>}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="border-b">
+              {COLUMNS.map(({ key, label }) => (
+                <th key={key} className="py-2 pr-4 font-semibold">
+                  <button type="button" onClick={() => toggleSort(key)} className="flex items-center gap-1 hover:text-secondary">
+                    {label}
+                    {sort !== key ? <FaSort /> : order === "asc" ? <FaSortUp /> : <FaSortDown />}
+                  </button>
+                </th>
+              ))}
+              <th className="py-2 font-semibold">Transcript</th>
+            </tr>
+          </thead>
+          <tbody>
+            {videos.map((video) => (
+              <tr key={video.videoId} className="border-b">
+                <td className="py-2 pr-4">
+                  <Link href={`/videos/${encodeURIComponent(video.videoId)}`} className="text-primary hover:text-secondary font-medium">
+                    {video.title}
+                  </Link>
+                </td>
+                <td className="py-2 pr-4">{video.channelName}</td>
+                <td className="py-2 pr-4 whitespace-nowrap">
+                  {video.publishedDate ? new Date(video.publishedDate).toLocaleDateString("en-US", { dateStyle: "medium" }) : "—"}
+                </td>
+                <td className="py-2 pr-4">{formatDuration(video.durationSeconds)}</td>
+                <td className="py-2 pr-4">
+                  {video.videoType || "Not analyzed"}
+                  {video.videoTypeConfidence !== null && (
+                    <span className="text-xs text-secondary ml-1">{Math.round(video.videoTypeConfidence * 100)}%</span>
+                  )}
+                </td>
+                <td className="py-2">{video.hasTranscript ? <FaCheck className="text-success" /> : "—"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between mt-4 text-sm">
+        <span className="flex items-center gap-2">
+          {loading && <FaSpinner className="animate-spin" />}
+          {total} videos
+        </span>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            disabled={page <= 1}
+            onClick={() => setPage(page - 1)}
+            className="px-3 py-1 border rounded-lg disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span>Page {page} of {pageCount}</span>
+          <button
+            type="button"
+            disabled={page >= pageCount}
+            onClick={() => setPage(page + 1)}
+            className="px-3 py-1 border rounded-lg disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,9 @@
 module.exports = {
   preset: 'ts-jest',
   testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  transform: {
+    // Type errors are the type-check's job; transpiling file by file keeps the test run small
+    '^.+\\.tsx?$': ['ts-jest', { isolatedModules: true }],
+  },
 };
-
@@ -0,0 +1,382 @@
+// lib/analysis-schema.ts
+import { z } from "zod";
+import {
+  CustomFieldDefinition,
+  CustomFieldValues,
+  validateCustomFields,
+  mergeCustomFields,
+  buildCustomFieldInstructions,
+} from "./custom-fields";
+
+export const VIDEO_TYPES = [
+  "patient story",
+  "caregiver story",
+  "KOL interview",
+  "conference talk",
+  "clinical trial promo",
+  "fundraising",
+  "advertisement",
+  "Informational",
+  "unrelated",
+  "unknown",
+] as const;
+
+export type VideoType = typeof VIDEO_TYPES[number];
+
+// Used when the model cannot tell what a video is, instead of guessing a category
+export const UNKNOWN_VIDEO_TYPE: VideoType = "unknown";
+
+// Types that only win a merged classification when no chunk found something more specific
+const GENERIC_VIDEO_TYPES: string[] = ["Informational", "unrelated", UNKNOWN_VIDEO_TYPE];
+
+// List fields whose items must be backed by a quote from the transcript
+export const EVIDENCE_FIELDS = [
+  "symptoms",
+  "medicalHistoryOfPatient",
+  "familyMedicalHistory",
+  "challengesFacedDuringDiagnosis",
+] as const;
+
+export type EvidenceField = typeof EVIDENCE_FIELDS[number];
+
+export interface EvidenceItem {
+  field: EvidenceField;
+  item: string;
+  quote: string;
+  startSeconds: number | null;  // Filled in from the transcript segments when they are available
+  url: string | null;           // Deep link to the moment the quote is spoken
+}
+
+// Models often return numbers for age or a lone string where a list is expected; accept those
+const nullableText = z
+  .union([z.string(), z.number()])
+  .nullish()
+  .transform(value => (value === undefined || value === null || value === "" ? null : String(value)));
+
+const nullableList = z
+  .union([z.array(z.union([z.string(), z.number()])), z.string()])
+  .nullish()
+  .transform(value => {
+    if (value === undefined || value === null) return null;
+    const items = (Array.isArray(value) ? value : [value]).map(String).map(item => item.trim()).filter(Boolean);
+    return items.length > 0 ? items : null;
+  });
+
+// Medical histories come back either as a list of findings or as a keyed object
+const nullableHistory = z
+  .union([z.array(z.any()), z.record(z.any()), z.string()])
+  .nullish()
+  .transform(value => {
+    if (value === undefined || value === null || value === "") return null;
+    return (typeof value === "string" ? [value] : value) as Record<string, any>;
+  });
+
+// Evidence entries the model garbled are dropped rather than failing the whole analysis
+const evidenceList = z
+  .array(z.any())
+  .nullish()
+  .transform(value => {
+    if (!value) return null;
+    const items: EvidenceItem[] = [];
+    for (const entry of value) {
+      if (!entry || typeof entry !== "object") continue;
+      const field = EVIDENCE_FIELDS.find(name => name.toLowerCase() === String(entry.field || "").trim().toLowerCase());
+      const item = typeof entry.item === "string" ? entry.item.trim() : "";
+      const quote = typeof entry.quote === "string" ? entry.quote.trim() : "";
+      if (field && item && quote) {
+        items.push({ field, item, quote, startSeconds: null, url: null });
+      }
+    }
+    return items.length > 0 ? items : null;
+  });
+
+const videoType = z
+  .string({ required_error: `video_type is required and must be one of: ${VIDEO_TYPES.join(", ")}` })
+  .transform((value, ctx) => {
+    const match = VIDEO_TYPES.find(type => type.toLowerCase() === value.trim().toLowerCase());
+    if (!match) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `video_type must be one of: ${VIDEO_TYPES.join(", ")} (got "${value}")`,
+      });
+      return z.NEVER;
+    }
+    return match as string;
+  });
+
+// Every type that applies; labels outside the taxonomy are dropped rather than failing the analysis
+const videoLabels = z
+  .union([z.array(z.any()), z.string()])
+  .nullish()
+  .transform(value => {
+    if (value === undefined || value === null) return null;
+    const labels: string[] = [];
+    for (const entry of Array.isArray(value) ? value : [value]) {
+      const match = VIDEO_TYPES.find(type => type.toLowerCase() === String(entry).trim().toLowerCase());
+      if (match && match !== UNKNOWN_VIDEO_TYPE && !labels.includes(match)) labels.push(match);
+    }
+    return labels.length > 0 ? labels : null;
+  });
+
+// A 0-1 score; percentages such as 85 or "85%" are scaled down
+const confidence = z
+  .union([z.number(), z.string()])
+  .nullish()
+  .transform((value, ctx) => {
+    if (value === undefined || value === null || value === "") return null;
+    let score = typeof value === "number" ? value : parseFloat(value);
+    if (typeof value === "string" && value.trim().endsWith("%")) score /= 100;
+    else if (score > 1 && score <= 100) score /= 100;
+    if (!Number.isFinite(score) || score < 0 || score > 1) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `must be a number between 0 and 1 (got "${value}")` });
+      return z.NEVER;
+    }
+    return score;
+  });
+
+export const AnalysisResultSchema = z.object({
+  video_type: videoType,
+  video_labels: videoLabels,
+  video_type_confidence: confidence,
+  video_type_rationale: nullableText,
+  name: nullableText,
+  age: nullableText,
+  sex: nullableText,
+  location: nullableText,
+  symptoms: nullableList,
+  medicalHistoryOfPatient: nullableHistory,
+  familyMedicalHistory: nullableHistory,
+  challengesFacedDuringDiagnosis: nullableList,
+  key_opinion: nullableText,
+  evidence: evidenceList,
+});
+
+// custom_fields is only present when the search config defines custom fields
+export type ParsedAnalysis = z.infer<typeof AnalysisResultSchema> & { custom_fields?: CustomFieldValues | null };
+
+export const ANALYSIS_KEYS = Object.keys(AnalysisResultSchema.shape);
+
+export type AnalysisParseOutcome =
+  | { success: true; data: ParsedAnalysis }
+  | { success: false; error: string };
+
+/**
+ * Pulls the first complete JSON object out of a model response. Reasoning blocks such as
+ * deepseek-r1's <think>...</think> are dropped, fenced code blocks are preferred when present,
+ * and prose before or after the object is ignored.
+ */
+export function extractJsonObject(content: string): unknown {
+  let text = content.replace(/<think>[\s\S]*?<\/think>/gi, "");
+  // A closing tag without its opener means the reasoning started before the captured output
+  const danglingThink = text.toLowerCase().lastIndexOf("</think>");
+  if (danglingThink !== -1) {
+    text = text.slice(danglingThink + "</think>".length);
+  }
+
+  const candidates: string[] = [];
+  const fence = /```(?:json)?\s*([\s\S]*?)```/gi;
+  let match: RegExpExecArray | null;
+  while ((match = fence.exec(text)) !== null) {
+    candidates.push(match[1]);
+  }
+  candidates.push(text);
+
+  for (const candidate of candidates) {
+    for (const objectText of balancedObjects(candidate)) {
+      try {
+        const parsed = JSON.parse(objectText);
+        if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+          return parsed;
+        }
+      } catch {
+        // Try the next candidate
+      }
+    }
+  }
+  throw new Error("No parseable JSON object found in LLM response");
+}
+
+// Every top-level {...} span in the text, honouring braces inside JSON strings
+function balancedObjects(text: string): string[] {
+  const objects: string[] = [];
+  for (let start = text.indexOf("{"); start !== -1; start = text.indexOf("{", start + 1)) {
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === "\\") escaped = true;
+        else if (char === "\"") inString = false;
+        continue;
+      }
+      if (char === "\"") inString = true;
+      else if (char === "{") depth++;
+      else if (char === "}" && --depth === 0) {
+        objects.push(text.slice(start, i + 1));
+        break;
+      }
+    }
+  }
+  return objects;
+}
+
+// requiredKeys comes from the prompt template's declared output; those keys must be present, even if null
+export function parseAnalysisResponse(
+  content: string,
+  requiredKeys?: string[] | null,
+  customFields: CustomFieldDefinition[] = []
+): AnalysisParseOutcome {
+  let json: unknown;
+  try {
+    json = extractJsonObject(content);
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+
+  const missing = (requiredKeys || []).filter(key => !Object.prototype.hasOwnProperty.call(json, key));
+  if (missing.length > 0) {
+    return { success: false, error: `response: missing key(s) ${missing.map(key => `"${key}"`).join(", ")}` };
+  }
+
+  const result = AnalysisResultSchema.safeParse(json);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join(".") || "response"}: ${issue.message}`);
+    return { success: false, error: issues.join("; ") };
+  }
+  result.data.video_labels = withPrimaryLabel(result.data.video_type, result.data.video_labels);
+  if (customFields.length === 0) {
+    return { success: true, data: result.data };
+  }
+
+  const custom = validateCustomFields(customFields, (json as Record<string, unknown>).custom_fields);
+  if (custom.errors.length > 0) {
+    return { success: false, error: custom.errors.join("; ") };
+  }
+  return { success: true, data: { ...result.data, custom_fields: custom.values } };
+}
+
+// The primary type always counts as one of the video's labels
+function withPrimaryLabel(videoType: string, labels: string[] | null): string[] | null {
+  if (videoType === UNKNOWN_VIDEO_TYPE || (labels && labels.includes(videoType))) return labels;
+  return [videoType].concat(labels || []);
+}
+
+export function buildRepairPrompt(
+  previousResponse: string,
+  error: string,
+  output: { keys: string[] | null; constraints: string[] } = { keys: null, constraints: [] },
+  customFields: CustomFieldDefinition[] = []
+): string {
+  const keys = (output.keys || ANALYSIS_KEYS).concat(customFields.length > 0 ? ["custom_fields"] : []);
+  const constraints = output.constraints.length > 0 ? `\n${output.constraints.join("\n")}` : "";
+  return `Your previous answer could not be used because it was not valid JSON matching the required format.
+
+Problems found:
+${error}
+
+Your previous answer was:
+${previousResponse}
+
+Reply again with ONLY a single JSON object, no explanations or code fences, containing exactly these keys:
+${keys.map(key => `"${key}"`).join(", ")}.
+"video_type" must be one of: ${VIDEO_TYPES.map(type => `"${type}"`).join(", ")}.
+"video_labels" must be a list of those types and "video_type_confidence" a number between 0 and 1.
+"symptoms" and "challengesFacedDuringDiagnosis" must be lists of strings.
+"evidence" must be a list of objects with "field", "item" and "quote" keys. Use null for any unavailable value.${constraints}${buildCustomFieldInstructions(customFields)}`;
+}
+
+function dedupeList(lists: (string[] | null)[]): string[] | null {
+  const seen = new Set<string>();
+  const merged: string[] = [];
+  for (const item of lists.flatMap(list => list || [])) {
+    const key = item.trim().toLowerCase().replace(/[.\s]+$/, "");
+    if (!seen.has(key)) {
+      seen.add(key);
+      merged.push(item.trim());
+    }
+  }
+  return merged.length > 0 ? merged : null;
+}
+
+function mergeHistories(histories: (Record<string, any> | null)[]): Record<string, any> | null {
+  const present = histories.filter((history): history is Record<string, any> => history !== null);
+  if (present.length === 0) return null;
+  if (present.every(history => Array.isArray(history))) {
+    return dedupeList(present.map(history => (history as any[]).map(String)));
+  }
+  // Mixed or keyed histories: keep keyed entries and collect list entries under "notes"
+  const merged: Record<string, any> = {};
+  const notes: string[] = [];
+  for (const history of present) {
+    if (Array.isArray(history)) notes.push(...history.map(String));
+    else Object.assign(merged, history);
+  }
+  if (notes.length > 0) merged.notes = dedupeList([notes]);
+  return merged;
+}
+
+/**
+ * Combines the per-chunk extractions of one long transcript. The video type is the most common
+ * specific type across chunks ("Informational" or "unrelated" only when no chunk found anything
+ * more specific, "unknown" when no chunk could tell), with the mean confidence of the chunks that
+ * chose it. Single-valued fields take the first chunk that filled them in, and lists are deduplicated.
+ */
+export function mergeAnalysisResults(results: ParsedAnalysis[]): ParsedAnalysis {
+  if (results.length === 0) {
+    throw new Error("Cannot merge an empty list of analyses");
+  }
+  if (results.length === 1) {
+    return results[0];
+  }
+
+  const mostVoted = (types: string[]) => {
+    const votes = new Map<string, number>();
+    types.forEach(type => votes.set(type, (votes.get(type) || 0) + 1));
+    return Array.from(votes.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+  };
+  const types = results.map(result => result.video_type);
+  const videoType = mostVoted(types.filter(type => !GENERIC_VIDEO_TYPES.includes(type)))
+    || mostVoted(types.filter(type => type !== UNKNOWN_VIDEO_TYPE))
+    || UNKNOWN_VIDEO_TYPE;
+  const agreeing = results.filter(result => result.video_type === videoType);
+  const labels: string[] = VIDEO_TYPES.filter(type => results.some(result => (result.video_labels || []).includes(type)));
+  const scores = agreeing
+    .map(result => result.video_type_confidence)
+    .filter((score): score is number => score !== null);
+
+  const first = (field: "name" | "age" | "sex" | "location" | "key_opinion") =>
+    results.find(result => result[field] !== null)?.[field] ?? null;
+
+  return {
+    video_type: videoType,
+    video_labels: withPrimaryLabel(videoType, labels.length > 0 ? labels : null),
+    video_type_confidence: scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null,
+    video_type_rationale: agreeing.find(result => result.video_type_rationale !== null)?.video_type_rationale ?? null,
+    name: first("name"),
+    age: first("age"),
+    sex: first("sex"),
+    location: first("location"),
+    symptoms: dedupeList(results.map(result => result.symptoms)),
+    medicalHistoryOfPatient: mergeHistories(results.map(result => result.medicalHistoryOfPatient)),
+    familyMedicalHistory: mergeHistories(results.map(result => result.familyMedicalHistory)),
+    challengesFacedDuringDiagnosis: dedupeList(results.map(result => result.challengesFacedDuringDiagnosis)),
+    key_opinion: first("key_opinion"),
+    evidence: mergeEvidence(results.map(result => result.evidence)),
+    custom_fields: mergeCustomFields(results.map(result => result.custom_fields)),
+  };
+}
+
+function mergeEvidence(lists: (EvidenceItem[] | null)[]): EvidenceItem[] | null {
+  const seen = new Set<string>();
+  const merged: EvidenceItem[] = [];
+  for (const entry of lists.flatMap(list => list || [])) {
+    const key = `${entry.field}|${entry.item.toLowerCase()}|${entry.quote.toLowerCase()}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      merged.push(entry);
+    }
+  }
+  return merged.length > 0 ? merged : null;
+}
@@ -0,0 +1,151 @@
+// lib/analysis-versions.ts
+import { getPool } from "./database";
+
+// Fields of a stored extraction that a diff compares, in display order
+export const VERSIONED_FIELDS = [
+  "video_type",
+  "video_labels",
+  "video_type_confidence",
+  "video_type_rationale",
+  "name",
+  "age",
+  "sex",
+  "location",
+  "symptoms",
+  "medical_history_of_patient",
+  "family_medical_history",
+  "challenges_faced_during_diagnosis",
+  "key_opinion",
+  "evidence",
+  "custom_fields",
+] as const;
+
+export type VersionedField = typeof VERSIONED_FIELDS[number];
+
+export interface AnalysisVersionSummary {
+  versionId: number;
+  videoId: string;
+  llmModel: string | null;
+  promptVersion: string | null;   // Hash of the prompt template the version was produced with
+  createdAt: string;
+  isCurrent: boolean;
+}
+
+export interface AnalysisVersion extends AnalysisVersionSummary {
+  rawResponse: string | null;
+  result: Record<string, any>;
+}
+
+export interface FieldChange {
+  field: VersionedField;
+  before: any;
+  after: any;
+  added?: string[];     // For lists of strings: items only in the newer version
+  removed?: string[];   // For lists of strings: items only in the older version
+}
+
+export interface AnalysisVersionDiff {
+  videoId: string;
+  from: AnalysisVersionSummary;
+  to: AnalysisVersionSummary;
+  changes: FieldChange[];
+}
+
+function toSummary(row: any): AnalysisVersionSummary {
+  return {
+    versionId: row.version_id,
+    videoId: row.video_id,
+    llmModel: row.llm_model,
+    promptVersion: row.prompt_version,
+    createdAt: new Date(row.created_at).toISOString(),
+    isCurrent: Boolean(row.is_current),
+  };
+}
+
+function isStringList(value: any): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === "string");
+}
+
+// Set difference that ignores case and surrounding whitespace
+function missingFrom(items: string[], other: string[]): string[] {
+  const keys = new Set(other.map(item => item.trim().toLowerCase()));
+  return items.filter(item => !keys.has(item.trim().toLowerCase()));
+}
+
+export function diffAnalysisResults(before: Record<string, any>, after: Record<string, any>): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const field of VERSIONED_FIELDS) {
+    const oldValue = before[field] ?? null;
+    const newValue = after[field] ?? null;
+    // JSONB normalizes key order, so serialized values compare reliably
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) continue;
+
+    const change: FieldChange = { field, before: oldValue, after: newValue };
+    if ((oldValue === null || isStringList(oldValue)) && (newValue === null || isStringList(newValue))) {
+      change.added = missingFrom(newValue || [], oldValue || []);
+      change.removed = missingFrom(oldValue || [], newValue || []);
+    }
+    changes.push(change);
+  }
+  return changes;
+}
+
+export async function listAnalysisVersions(videoId: string): Promise<AnalysisVersionSummary[]> {
+  const pool = await getPool();
+  const result = await pool.query(
+    `SELECT v.version_id, v.video_id, v.llm_model, v.prompt_version, v.created_at,
+       a.current_version_id = v.version_id AS is_current
+     FROM analysis_versions v
+     LEFT JOIN analysis a ON a.video_id = v.video_id
+     WHERE v.video_id = $1
+     ORDER BY v.created_at, v.version_id`,
+    [videoId]
+  );
+  return result.rows.map(toSummary);
+}
+
+export async function getAnalysisVersion(videoId: string, versionId: number): Promise<AnalysisVersion | null> {
+  const pool = await getPool();
+  const result = await pool.query(
+    `SELECT v.*, a.current_version_id = v.version_id AS is_current
+     FROM analysis_versions v
+     LEFT JOIN analysis a ON a.video_id = v.video_id
+     WHERE v.video_id = $1 AND v.version_id = $2`,
+    [videoId, versionId]
+  );
+  const row = result.rows[0];
+  if (!row) return null;
+  return { ...toSummary(row), rawResponse: row.raw_response, result: row.result };
+}
+
+/**
+ * Compares two versions of one video's analysis. Without ids the current version is compared
+ * with the one stored before it. Returns null when either version cannot be found.
+ */
+export async function diffAnalysisVersions(
+  videoId: string,
+  options: { fromVersionId?: number; toVersionId?: number } = {}
+): Promise<AnalysisVersionDiff | null> {
+  const versions = await listAnalysisVersions(videoId);
+  const newer = options.toVersionId
+    ? versions.find(version => version.versionId === options.toVersionId)
+    : versions.find(version => version.isCurrent) || versions[versions.length - 1];
+  if (!newer) return null;
+  const older = options.fromVersionId
+    ? versions.find(version => version.versionId === options.fromVersionId)
+    : versions[versions.indexOf(newer) - 1];
+  if (!older) return null;
+
+  const [from, to] = await Promise.all([
+    getAnalysisVersion(videoId, older.versionId),
+    getAnalysisVersion(videoId, newer.versionId),
+  ]);
+  if (!from || !to) return null;
+
+  return {
+    videoId,
+    from: older,
+    to: newer,
+    changes: diffAnalysisResults(from.result, to.result),
+  };
+}
@@ -0,0 +1,269 @@
+// lib/analytics.ts
+import { getPool, getSearchConfig, searchVideoIds } from "./database";
+import { CustomFieldDefinition, CustomFieldValues } from "./custom-fields";
+
+export interface AnalyticsOptions {
+  startDate?: string;  // Filters on videos.published_date, e.g. "2024-01-01"
+  endDate?: string;
+  limit?: number;      // Rows per ranked list
+}
+
+export interface CountRow {
+  label: string;
+  count: number;
+}
+
+export interface SymptomCount extends CountRow {
+  code: string | null;  // Vocabulary code; null for phrases the vocabulary did not map
+}
+
+export interface CustomFieldSummary {
+  name: string;
+  type: CustomFieldDefinition["type"];
+  description: string;
+  answered: number;     // Analyses with a non-null value
+  values: CountRow[];   // Answer counts for string, boolean and list fields
+  stats: { min: number; max: number; mean: number; median: number } | null;  // Number fields only
+}
+
+export interface CohortAnalytics {
+  searchName: string;
+  startDate: string | null;
+  endDate: string | null;
+  totals: { videos: number; analyzed: number; patientStories: number; kolInterviews: number };
+  videoTypes: CountRow[];        // Primary type of every analyzed video, "unknown" included
+  topSymptoms: SymptomCount[];
+  ageDistribution: CountRow[];   // Patient stories only
+  sexDistribution: CountRow[];   // Patient stories only
+  challengeThemes: CountRow[];
+  topChallenges: CountRow[];
+  locations: CountRow[];
+  customFields: CustomFieldSummary[];  // One per field of the search config's custom field schema
+}
+
+export const AGE_BUCKETS = ["0-17", "18-29", "30-44", "45-59", "60+", "Unknown"];
+
+// Keyword themes for challenges_faced_during_diagnosis; a challenge can count towards several
+export const CHALLENGE_THEMES: { theme: string; pattern: RegExp }[] = [
+  { theme: "Misdiagnosis", pattern: /misdiagnos|wrong diagnos|incorrect(ly)? diagnos|diagnosed with .* instead/i },
+  { theme: "Delayed diagnosis", pattern: /delay|took (years|months)|years to|long time|waited|wait(ing)? (for|list)/i },
+  { theme: "Dismissed by clinicians", pattern: /dismiss|not (believed|taken seriously)|ignored|all in (my|her|his) head|just (anxiety|stress)|told .* (fine|normal)/i },
+  { theme: "Access to specialists", pattern: /specialist|neurologist|referr|access|rare disease (center|centre|clinic)/i },
+  { theme: "Testing", pattern: /genetic test|test(s|ing)?\b|mri|scan|biopsy|blood work/i },
+  { theme: "Cost and insurance", pattern: /cost|insurance|afford|expens|money|financial/i },
+  { theme: "Lack of awareness", pattern: /awareness|unfamiliar|never heard|rare|don't know|didn't know|lack of knowledge/i },
+];
+
+function toCounts(rows: any[]): CountRow[] {
+  return rows.map(row => ({ label: row.label, count: parseInt(row.count, 10) }));
+}
+
+/**
+ * The figures reports are built on for one search: symptom frequencies from the normalized
+ * analysis_symptoms (counting each video once per symptom), age and sex of patient-story subjects,
+ * diagnostic challenges grouped into themes, and where the subjects are from. Reviewer corrections
+ * are applied and rejected analyses are left out.
+ */
+export async function getCohortAnalytics(searchName: string, options: AnalyticsOptions = {}): Promise<CohortAnalytics> {
+  const limit = Math.max(1, Math.floor(options.limit || 20));
+  const pool = await getPool();
+  // $1..$3 are shared by every query below
+  const params = [searchName, options.startDate || null, options.endDate || null];
+  const cohort = `
+    SELECT a.*
+    FROM analysis_reviewed a
+    JOIN videos v ON v.video_id = a.video_id
+    WHERE a.video_id IN (${searchVideoIds("$1")})
+      AND ($2::date IS NULL OR v.published_date >= $2)
+      AND ($3::date IS NULL OR v.published_date < $3::date + 1)`;
+
+  const totalsResult = await pool.query(
+    `SELECT
+       (SELECT COUNT(*) FROM videos v
+        WHERE v.video_id IN (${searchVideoIds("$1")})
+          AND ($2::date IS NULL OR v.published_date >= $2)
+          AND ($3::date IS NULL OR v.published_date < $3::date + 1)) AS videos,
+       COUNT(*) AS analyzed,
+       COUNT(*) FILTER (WHERE c.video_type = 'patient story') AS patient_stories,
+       COUNT(*) FILTER (WHERE c.video_type = 'KOL interview') AS kol_interviews
+     FROM (${cohort}) c`,
+    params
+  );
+
+  const videoTypesResult = await pool.query(
+    `SELECT COALESCE(c.video_type, 'unknown') AS label, COUNT(*) AS count
+     FROM (${cohort}) c
+     GROUP BY 1
+     ORDER BY count DESC, label`,
+    params
+  );
+
+  const symptomsResult = await pool.query(
+    `SELECT COALESCE(s.canonical_term, LOWER(TRIM(s.raw_phrase))) AS label, s.canonical_code AS code,
+       COUNT(DISTINCT s.video_id) AS count
+     FROM analysis_symptoms s
+     JOIN (${cohort}) c ON c.video_id = s.video_id
+     GROUP BY 1, 2
+     ORDER BY count DESC, label
+     LIMIT $4`,
+    [...params, limit]
+  );
+
+  const ageResult = await pool.query(
+    `SELECT bucket AS label, COUNT(*) AS count
+     FROM (
+       SELECT CASE
+         WHEN years IS NULL OR years > 120 THEN 'Unknown'
+         WHEN years < 18 THEN '0-17'
+         WHEN years < 30 THEN '18-29'
+         WHEN years < 45 THEN '30-44'
+         WHEN years < 60 THEN '45-59'
+         ELSE '60+'
+       END AS bucket
+       FROM (
+         SELECT NULLIF(SUBSTRING(c.age FROM '[0-9]{1,3}'), '')::int AS years
+         FROM (${cohort}) c
+         WHERE c.video_type = 'patient story'
+       ) ages
+     ) buckets
+     GROUP BY bucket`,
+    params
+  );
+  const ageCounts = new Map(toCounts(ageResult.rows).map(row => [row.label, row.count] as [string, number]));
+
+  const sexResult = await pool.query(
+    `SELECT CASE
+         WHEN LOWER(TRIM(c.sex)) IN ('male', 'm', 'man', 'boy') THEN 'Male'
+         WHEN LOWER(TRIM(c.sex)) IN ('female', 'f', 'woman', 'girl') THEN 'Female'
+         WHEN c.sex IS NULL OR TRIM(c.sex) = '' THEN 'Unknown'
+         ELSE 'Other'
+       END AS label,
+       COUNT(*) AS count
+     FROM (${cohort}) c
+     WHERE c.video_type = 'patient story'
+     GROUP BY 1
+     ORDER BY count DESC`,
+    params
+  );
+
+  const challengesResult = await pool.query(
+    `SELECT TRIM(challenge) AS label, COUNT(DISTINCT c.video_id) AS count
+     FROM (${cohort}) c
+     CROSS JOIN LATERAL jsonb_array_elements_text(
+       CASE WHEN jsonb_typeof(c.challenges_faced_during_diagnosis) = 'array'
+         THEN c.challenges_faced_during_diagnosis ELSE '[]'::jsonb END
+     ) AS challenge
+     WHERE TRIM(challenge) <> ''
+     GROUP BY 1
+     ORDER BY count DESC, label`,
+    params
+  );
+  const challenges = toCounts(challengesResult.rows);
+
+  const locationsResult = await pool.query(
+    `SELECT INITCAP(TRIM(c.location)) AS label, COUNT(*) AS count
+     FROM (${cohort}) c
+     WHERE c.location IS NOT NULL AND TRIM(c.location) <> ''
+     GROUP BY 1
+     ORDER BY count DESC, label
+     LIMIT $4`,
+    [...params, limit]
+  );
+
+  const config = await getSearchConfig(searchName);
+  const customFieldsResult = await pool.query(
+    `SELECT c.custom_fields FROM (${cohort}) c WHERE c.custom_fields IS NOT NULL`,
+    params
+  );
+
+  const totals = totalsResult.rows[0];
+  return {
+    searchName,
+    startDate: options.startDate || null,
+    endDate: options.endDate || null,
+    totals: {
+      videos: parseInt(totals.videos, 10),
+      analyzed: parseInt(totals.analyzed, 10),
+      patientStories: parseInt(totals.patient_stories, 10),
+      kolInterviews: parseInt(totals.kol_interviews, 10),
+    },
+    videoTypes: toCounts(videoTypesResult.rows),
+    topSymptoms: symptomsResult.rows.map((row: any) => ({ label: row.label, code: row.code, count: parseInt(row.count, 10) })),
+    ageDistribution: AGE_BUCKETS.map(bucket => ({ label: bucket, count: ageCounts.get(bucket) || 0 })),
+    sexDistribution: toCounts(sexResult.rows),
+    challengeThemes: groupChallengeThemes(challenges),
+    topChallenges: challenges.slice(0, limit),
+    locations: toCounts(locationsResult.rows),
+    customFields: summarizeCustomFields(
+      config?.custom_field_schema || [],
+      customFieldsResult.rows.map((row: any) => row.custom_fields),
+      limit
+    ),
+  };
+}
+
+// Custom fields are free-form JSONB, so they are aggregated here rather than in SQL
+export function summarizeCustomFields(
+  schema: CustomFieldDefinition[],
+  rows: CustomFieldValues[],
+  limit = 20
+): CustomFieldSummary[] {
+  return schema.map(field => {
+    const answers = rows
+      .map(row => row[field.name])
+      .filter(value => value !== null && value !== undefined);
+    const summary: CustomFieldSummary = {
+      name: field.name,
+      type: field.type,
+      description: field.description,
+      answered: answers.length,
+      values: [],
+      stats: null,
+    };
+
+    if (field.type === "number") {
+      const numbers = answers.filter((value): value is number => typeof value === "number").sort((a, b) => a - b);
+      if (numbers.length > 0) {
+        const middle = Math.floor(numbers.length / 2);
+        summary.stats = {
+          min: numbers[0],
+          max: numbers[numbers.length - 1],
+          mean: numbers.reduce((sum, value) => sum + value, 0) / numbers.length,
+          median: numbers.length % 2 === 1 ? numbers[middle] : (numbers[middle - 1] + numbers[middle]) / 2,
+        };
+      }
+      return summary;
+    }
+
+    // A list answer counts once towards each of its items
+    const counts = new Map<string, number>();
+    for (const answer of answers) {
+      const labels = Array.isArray(answer) ? answer : [String(answer)];
+      new Set(labels.map(label => label.trim()).filter(Boolean)).forEach(label => {
+        counts.set(label, (counts.get(label) || 0) + 1);
+      });
+    }
+    summary.values = Array.from(counts.entries())
+      .map(([label, count]) => ({ label, count }))
+      .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+      .slice(0, limit);
+    return summary;
+  });
+}
+
+// Challenge counts are per distinct phrase, so theme totals can count a video more than once
+export function groupChallengeThemes(challenges: CountRow[]): CountRow[] {
+  const themes = CHALLENGE_THEMES.map(({ theme }) => ({ label: theme, count: 0 }));
+  const other = { label: "Other", count: 0 };
+  for (const challenge of challenges) {
+    let matched = false;
+    CHALLENGE_THEMES.forEach(({ pattern }, index) => {
+      if (pattern.test(challenge.label)) {
+        themes[index].count += challenge.count;
+        matched = true;
+      }
+    });
+    if (!matched) other.count += challenge.count;
+  }
+  return themes.concat(other).filter(theme => theme.count > 0).sort((a, b) => b.count - a.count);
+}
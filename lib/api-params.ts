@@ -0,0 +1,27 @@
+// lib/api-params.ts
+import { NextApiRequest } from "next";
+
+export const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// First value of a query-string parameter, trimmed; undefined when missing or blank
+export function queryParam(req: NextApiRequest, name: string): string | undefined {
+  const value = req.query[name];
+  const text = Array.isArray(value) ? value[0] : value;
+  return text && text.trim() ? text.trim() : undefined;
+}
+
+// undefined when the parameter is absent, null when it is present but not a positive integer
+export function positiveIntParam(req: NextApiRequest, name: string): number | undefined | null {
+  const value = queryParam(req, name);
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+// undefined when the parameter is absent, null when it is present but not a number from 0 to 1
+export function fractionParam(req: NextApiRequest, name: string): number | undefined | null {
+  const value = queryParam(req, name);
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 && parsed <= 1 ? parsed : null;
+}
@@ -0,0 +1,145 @@
+// lib/cron.ts
+
+// Thrown for a cron expression that cannot be parsed or never fires
+export class CronExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CronExpressionError";
+  }
+}
+
+// A parsed five-field expression ("minute hour day-of-month month day-of-week"), in local time
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;  // 0 is Sunday
+  // Cron matches either day field when both are restricted, and both when one is "*"
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+];
+
+// A schedule that has not fired within this many years (e.g. "0 0 30 2 *") never will
+const SEARCH_LIMIT_YEARS = 5;
+
+function parseNumber(text: string, field: { name: string; min: number; max: number }): number {
+  const value = Number(text);
+  if (!/^\d+$/.test(text) || value < field.min || value > field.max) {
+    throw new CronExpressionError(`Invalid ${field.name} "${text}": expected ${field.min}-${field.max}`);
+  }
+  return value;
+}
+
+// Expands one field: "*", "5", "1-5", "*/15", "10-40/10" or a comma-separated list of them
+function parseField(text: string, field: { name: string; min: number; max: number }): Set<number> {
+  const values = new Set<number>();
+  for (const part of text.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new CronExpressionError(`Invalid step "${stepText}" in ${field.name}`);
+    }
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseNumber(from, field);
+      end = parseNumber(to, field);
+      if (start > end) {
+        throw new CronExpressionError(`Invalid ${field.name} range "${range}"`);
+      }
+    } else {
+      start = parseNumber(range, field);
+      end = stepText === undefined ? start : field.max;
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+export function parseCronExpression(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const parts = (MACROS[trimmed.toLowerCase()] || trimmed).split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new CronExpressionError(
+      `Cron expression "${expression}" must have 5 fields (minute hour day-of-month month day-of-week)`
+    );
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index]));
+  // 7 is another name for Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+  const schedule: CronSchedule = {
+    expression: trimmed,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: !parts[2].startsWith("*"),
+    daysOfWeekRestricted: !parts[4].startsWith("*"),
+  };
+  // Rejects expressions such as "0 0 31 2 *" up front
+  nextCronTime(schedule, new Date());
+  return schedule;
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+// The first minute strictly after `after` at which the schedule fires
+export function nextCronTime(schedule: CronSchedule, after: Date): Date {
+  const next = new Date(after.getTime());
+  next.setSeconds(0, 0);
+  next.setMinutes(next.getMinutes() + 1);
+  const limit = new Date(after.getTime());
+  limit.setFullYear(limit.getFullYear() + SEARCH_LIMIT_YEARS);
+
+  // Skip whole months, days and hours that cannot match before stepping by minutes
+  while (next < limit) {
+    if (!schedule.months.has(next.getMonth() + 1)) {
+      next.setMonth(next.getMonth() + 1, 1);
+      next.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(schedule, next)) {
+      next.setDate(next.getDate() + 1);
+      next.setHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(next.getHours())) {
+      next.setHours(next.getHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(next.getMinutes())) {
+      next.setMinutes(next.getMinutes() + 1, 0, 0);
+    } else {
+      return next;
+    }
+  }
+  throw new CronExpressionError(`Cron expression "${schedule.expression}" never fires`);
+}
@@ -0,0 +1,180 @@
+// lib/custom-fields.ts
+
+export const CUSTOM_FIELD_TYPES = ["string", "number", "boolean", "list"] as const;
+
+export type CustomFieldType = typeof CUSTOM_FIELD_TYPES[number];
+
+// One disease-specific value to extract, e.g. { name: "gaa_repeat_length", type: "number", ... }
+export interface CustomFieldDefinition {
+  name: string;
+  type: CustomFieldType;
+  description: string;
+  values?: string[];  // Allowed answers for a string field
+}
+
+export type CustomFieldValue = string | number | boolean | string[] | null;
+
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+// Thrown for a custom field schema that cannot be used
+export class CustomFieldSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CustomFieldSchemaError";
+  }
+}
+
+// Field names become JSON keys in prompts and in analysis.custom_fields
+const FIELD_NAME_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+// Keys the analysis prompt already asks for; a custom field of the same name would confuse the model
+const RESERVED_FIELD_NAMES = new Set([
+  "video_type", "video_labels", "video_type_confidence", "video_type_rationale", "name", "age", "sex",
+  "location", "symptoms", "key_opinion", "evidence", "custom_fields",
+]);
+
+/**
+ * Checks a schema as stored with a search config or given in a config file. null and undefined
+ * mean "no custom fields".
+ */
+export function parseCustomFieldSchema(value: unknown): CustomFieldDefinition[] {
+  if (value === null || value === undefined) return [];
+  if (!Array.isArray(value)) {
+    throw new CustomFieldSchemaError("Custom field schema must be a list of fields");
+  }
+  const seen = new Set<string>();
+  return value.map((field: any, index) => {
+    if (!field || typeof field !== "object") {
+      throw new CustomFieldSchemaError(`Custom field ${index + 1} must be an object`);
+    }
+    const name = typeof field.name === "string" ? field.name.trim() : "";
+    if (!FIELD_NAME_PATTERN.test(name)) {
+      throw new CustomFieldSchemaError(`Custom field name "${name}" must be lowercase letters, digits and underscores`);
+    }
+    if (RESERVED_FIELD_NAMES.has(name)) {
+      throw new CustomFieldSchemaError(`Custom field name "${name}" is reserved for the standard analysis`);
+    }
+    if (seen.has(name)) {
+      throw new CustomFieldSchemaError(`Custom field "${name}" is defined twice`);
+    }
+    seen.add(name);
+    if (!CUSTOM_FIELD_TYPES.includes(field.type)) {
+      throw new CustomFieldSchemaError(`Custom field "${name}" must have a type of ${CUSTOM_FIELD_TYPES.join(", ")}`);
+    }
+    if (typeof field.description !== "string" || !field.description.trim()) {
+      throw new CustomFieldSchemaError(`Custom field "${name}" needs a description`);
+    }
+    const definition: CustomFieldDefinition = { name, type: field.type, description: field.description.trim() };
+    if (field.values !== undefined) {
+      if (field.type !== "string" || !Array.isArray(field.values) || field.values.some((item: any) => typeof item !== "string")) {
+        throw new CustomFieldSchemaError(`values of custom field "${name}" must be a list of strings on a string field`);
+      }
+      definition.values = field.values;
+    }
+    return definition;
+  });
+}
+
+function describeType(field: CustomFieldDefinition): string {
+  switch (field.type) {
+    case "number":
+      return "number";
+    case "boolean":
+      return "true or false";
+    case "list":
+      return "list of strings";
+    case "string":
+      return field.values ? `one of ${field.values.map(value => `"${value}"`).join(", ")}` : "string";
+  }
+}
+
+// Appended to the analysis prompt when a search config defines custom fields
+export function buildCustomFieldInstructions(schema: CustomFieldDefinition[]): string {
+  if (schema.length === 0) return "";
+  const lines = schema.map(field => `  - "${field.name}" (${describeType(field)}): ${field.description}`);
+  return `
+
+Also include a "custom_fields" key whose value is an object with exactly these keys:
+${lines.join("\n")}
+Use null for any custom field the transcript does not mention.`;
+}
+
+function coerceValue(field: CustomFieldDefinition, value: unknown): { value: CustomFieldValue } | { error: string } {
+  if (value === null || value === undefined || value === "") return { value: null };
+  switch (field.type) {
+    case "number": {
+      // Models like to answer "about 800 repeats"; keep the number
+      const match = typeof value === "number" ? [String(value)] : typeof value === "string" ? value.match(/-?\d+(\.\d+)?/) : null;
+      return match ? { value: Number(match[0]) } : { error: `${field.name} must be a number` };
+    }
+    case "boolean": {
+      if (typeof value === "boolean") return { value };
+      const text = String(value).trim().toLowerCase();
+      if (["true", "yes", "y"].includes(text)) return { value: true };
+      if (["false", "no", "n"].includes(text)) return { value: false };
+      return { error: `${field.name} must be true or false` };
+    }
+    case "list": {
+      const items = Array.isArray(value) ? value : [value];
+      if (items.some(item => typeof item !== "string" && typeof item !== "number")) {
+        return { error: `${field.name} must be a list of strings` };
+      }
+      const list = items.map(item => String(item).trim()).filter(Boolean);
+      return { value: list.length > 0 ? list : null };
+    }
+    case "string": {
+      if (typeof value !== "string" && typeof value !== "number") {
+        return { error: `${field.name} must be a string` };
+      }
+      const text = String(value).trim();
+      if (!field.values) return { value: text };
+      const allowed = field.values.find(option => option.toLowerCase() === text.toLowerCase());
+      return allowed ? { value: allowed } : { error: `${field.name} must be one of: ${field.values.join(", ")} (got "${text}")` };
+    }
+  }
+}
+
+// Validates the model's "custom_fields" object against the schema, coercing near-misses
+export function validateCustomFields(
+  schema: CustomFieldDefinition[],
+  value: unknown
+): { values: CustomFieldValues; errors: string[] } {
+  const values: CustomFieldValues = {};
+  const errors: string[] = [];
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { values, errors: ["custom_fields must be an object"] };
+  }
+  const given = value as Record<string, unknown>;
+  for (const field of schema) {
+    if (!Object.prototype.hasOwnProperty.call(given, field.name)) {
+      errors.push(`custom_fields: missing key "${field.name}"`);
+      continue;
+    }
+    const coerced = coerceValue(field, given[field.name]);
+    if ("error" in coerced) {
+      errors.push(`custom_fields.${coerced.error}`);
+    } else {
+      values[field.name] = coerced.value;
+    }
+  }
+  return { values, errors };
+}
+
+// Combines the custom fields of several transcript chunks: first answer wins, lists are united
+export function mergeCustomFields(parts: (CustomFieldValues | null | undefined)[]): CustomFieldValues | null {
+  const present = parts.filter((part): part is CustomFieldValues => Boolean(part));
+  if (present.length === 0) return null;
+  const merged: CustomFieldValues = {};
+  for (const part of present) {
+    for (const [name, value] of Object.entries(part)) {
+      const current = merged[name];
+      if (Array.isArray(current) && Array.isArray(value)) {
+        const seen = new Set(current.map(item => item.toLowerCase()));
+        merged[name] = current.concat(value.filter(item => !seen.has(item.toLowerCase())));
+      } else if (current === undefined || current === null) {
+        merged[name] = value;
+      }
+    }
+  }
+  return merged;
+}
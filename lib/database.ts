@@ -2,22 +2,45 @@
 import pg from "pg";
 const { Pool } = pg;
 import { safeLog } from "./logger";
+import { TimedSegment } from "./types";
+import { NormalizedSymptom } from "./symptom-vocabulary";
+import { CustomFieldDefinition, parseCustomFieldSchema } from "./custom-fields";
+import { parseCronExpression } from "./cron";
+import { migrateUp } from "./migrate";
 
-let pool: Pool | null = null;
+let pool: pg.Pool | null = null;
 
-export async function getPool(): Promise<Pool> {
+// Exits by default; long-running processes can keep going, as the pool drops the broken client itself
+let idleClientErrorHandler: (err: Error) => void = err => {
+  safeLog("error", "Unexpected error on idle client", err);
+  process.exit(-1);
+};
+
+export function setIdleClientErrorHandler(handler: (err: Error) => void) {
+  idleClientErrorHandler = handler;
+}
+
+export async function getPool(): Promise<pg.Pool> {
   if (!pool) {
     pool = new Pool({
       connectionString: process.env.DATABASE_URL,
     });
-    pool.on("error", (err) => {
-      safeLog("error", "Unexpected error on idle client", err);
-      process.exit(-1);
-    });
+    pool.on("error", (err: Error) => idleClientErrorHandler(err));
   }
   return pool;
 }
 
+export async function closePool() {
+  if (pool) {
+    await pool.end();
+    pool = null;
+  }
+}
+
+/**
+ * Brings the schema up to date by applying any pending migrations from lib/migrations.
+ * bin/migrate.ts can also show their status and revert them.
+ */
 export async function initializeDatabase() {
   const pool = await getPool();
   try {
@@ -25,56 +48,10 @@ export async function initializeDatabase() {
     await pool.query("SELECT NOW()");
     safeLog("info", "Successfully connected to PostgreSQL database!");
 
-    await pool.query(`
-      CREATE TABLE IF NOT EXISTS videos (
-        video_id VARCHAR(255) PRIMARY KEY,
-        search_name TEXT NOT NULL,
-        title TEXT NOT NULL,
-        description TEXT,
-        published_date TIMESTAMP,
-        duration_seconds INTEGER,
-        url TEXT NOT NULL,
-        channel_name TEXT NOT NULL
-      );
-    `);
-
-    await pool.query(`
-      CREATE TABLE IF NOT EXISTS transcripts (
-        video_id VARCHAR(255) PRIMARY KEY,
-        full_transcript TEXT NOT NULL,
-        language VARCHAR(255) NOT NULL,
-        FOREIGN KEY (video_id) REFERENCES videos(video_id) ON DELETE CASCADE
-      );
-    `);
-
-    await pool.query(`
-      CREATE TABLE IF NOT EXISTS analysis (
-        video_id VARCHAR(255) PRIMARY KEY,
-        video_type TEXT,
-        name TEXT,
-        age TEXT,
-        sex TEXT,
-        location TEXT,
-        symptoms JSONB,
-        medical_history_of_patient JSONB,
-        family_medical_history JSONB,
-        challenges_faced_during_diagnosis JSONB,
-        key_opinion TEXT,
-        FOREIGN KEY (video_id) REFERENCES videos(video_id) ON DELETE CASCADE
-      );
-    `);
-
-    await pool.query(`
-      CREATE TABLE IF NOT EXISTS SearchConfig (
-        param_id SERIAL PRIMARY KEY,
-        user_id TEXT NOT NULL,
-        search_phrase TEXT NOT NULL,
-        search_name TEXT NOT NULL UNIQUE,
-        creation_date TIMESTAMP NOT NULL
-      );
-    `);
-
-    safeLog("info", "Database initialized successfully");
+    const applied = await migrateUp(pool);
+    safeLog("info", applied.length > 0
+      ? `Database initialized successfully (applied ${applied.length} migrations)`
+      : "Database initialized successfully (schema already up to date)");
   } catch (error) {
     safeLog("error", "Error initializing database:", error);
     throw error;
@@ -91,55 +68,154 @@ export interface VideoData {
   viewCount: number;
   url: string;
   channel_name: string;
+  matched_queries?: string[];  // Query variants of the search that found the video
 }
 
-export async function storeVideo(video: VideoData) {
+// Subquery selecting the videos a search found; searchParam is its placeholder, e.g. "$1"
+export function searchVideoIds(searchParam: string): string {
+  return `SELECT vs.video_id FROM video_searches vs
+    JOIN SearchConfig sc ON sc.param_id = vs.param_id
+    WHERE sc.search_name = ${searchParam}`;
+}
+
+/**
+ * Stores the video's metadata and records that the named search found it, at the given 1-based
+ * position in its results, along with the query variants that matched it. The search's config
+ * must already exist; videos.search_name keeps the first search that found the video.
+ */
+export async function storeVideo(video: VideoData, rank?: number) {
+  const searchName = video.search_name;
+  if (!searchName) {
+    throw new Error(`Video ${video.id} has no search_name; every stored video must belong to a search`);
+  }
   const pool = await getPool();
-  await pool.query(
-    `INSERT INTO videos (video_id, search_name, title, description, published_date, duration_seconds, url, channel_name)
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-     ON CONFLICT (video_id) DO UPDATE SET
-       search_name = EXCLUDED.search_name,
-       title = EXCLUDED.title,
-       description = EXCLUDED.description,
-       published_date = EXCLUDED.published_date,
-       duration_seconds = EXCLUDED.duration_seconds,
-       url = EXCLUDED.url,
-       channel_name = EXCLUDED.channel_name`,
-    [
-      video.id,
-      video.search_name || "unknown",
-      video.title,
-      video.description,
-      video.publishedDate || null,
-      video.durationInSeconds,
-      video.url,
-      video.channel_name,
-    ]
-  );
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    await client.query(
+      `INSERT INTO videos (video_id, search_name, title, description, published_date, duration_seconds, url, channel_name)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (video_id) DO UPDATE SET
+         title = EXCLUDED.title,
+         description = EXCLUDED.description,
+         published_date = EXCLUDED.published_date,
+         duration_seconds = EXCLUDED.duration_seconds,
+         url = EXCLUDED.url,
+         channel_name = EXCLUDED.channel_name`,
+      [
+        video.id,
+        searchName,
+        video.title,
+        video.description,
+        video.publishedDate || null,
+        video.durationInSeconds,
+        video.url,
+        video.channel_name,
+      ]
+    );
+    const linked = await client.query(
+      `INSERT INTO video_searches (video_id, param_id, first_seen, last_seen, rank, matched_queries)
+       SELECT $1, sc.param_id, NOW(), NOW(), $3, $4 FROM SearchConfig sc WHERE sc.search_name = $2
+       ON CONFLICT (video_id, param_id) DO UPDATE SET
+         last_seen = NOW(),
+         rank = COALESCE(EXCLUDED.rank, video_searches.rank),
+         matched_queries = COALESCE(
+           (SELECT jsonb_agg(DISTINCT query)
+            FROM jsonb_array_elements_text(video_searches.matched_queries || EXCLUDED.matched_queries) AS query),
+           '[]'::jsonb
+         )`,
+      [video.id, searchName, rank ?? null, JSON.stringify(video.matched_queries || [])]
+    );
+    if (linked.rowCount === 0) {
+      throw new Error(`No search config named "${searchName}"; create it before storing its videos`);
+    }
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
 }
 
-export async function storeTranscript(videoId: string, transcript: string, language: string) {
+export async function storeTranscript(videoId: string, transcript: string, language: string, segments?: TimedSegment[]) {
   const pool = await getPool();
-  await pool.query(
-    `INSERT INTO transcripts (video_id, full_transcript, language)
-     VALUES ($1, $2, $3)
-     ON CONFLICT (video_id) DO UPDATE SET
-       full_transcript = EXCLUDED.full_transcript,
-       language = EXCLUDED.language`,
-    [videoId, transcript, language]
-  );
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    await client.query(
+      `INSERT INTO transcripts (video_id, full_transcript, language)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (video_id) DO UPDATE SET
+         full_transcript = EXCLUDED.full_transcript,
+         language = EXCLUDED.language`,
+      [videoId, transcript, language]
+    );
+    // Segments are replaced as a whole so a re-fetched transcript never mixes old and new lines
+    if (segments) {
+      await client.query("DELETE FROM transcript_segments WHERE video_id = $1", [videoId]);
+      if (segments.length > 0) {
+        await client.query(
+          `INSERT INTO transcript_segments (video_id, seq, start_ms, duration_ms, text)
+           SELECT $1, seq, start_ms, duration_ms, text
+           FROM unnest($2::int[], $3::int[], $4::int[], $5::text[]) AS s(seq, start_ms, duration_ms, text)`,
+          [
+            videoId,
+            segments.map((_, index) => index),
+            segments.map(segment => Math.round(segment.offset * 1000)),
+            segments.map(segment => Math.round(segment.duration * 1000)),
+            segments.map(segment => segment.text),
+          ]
+        );
+      }
+    }
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
 }
 
-export async function storeAnalysis(videoId: string, analysis: any) {
+export async function getTranscriptSegments(
+  videoId: string,
+  range: { fromMs?: number; toMs?: number } = {}
+): Promise<TimedSegment[]> {
   const pool = await getPool();
-  await pool.query(
-    `INSERT INTO analysis (
+  const result = await pool.query(
+    `SELECT start_ms, duration_ms, text FROM transcript_segments
+     WHERE video_id = $1
+       AND ($2::int IS NULL OR start_ms + duration_ms >= $2)
+       AND ($3::int IS NULL OR start_ms <= $3)
+     ORDER BY seq`,
+    [videoId, range.fromMs ?? null, range.toMs ?? null]
+  );
+  return result.rows.map((row: any) => ({
+    text: row.text,
+    offset: row.start_ms / 1000,
+    duration: row.duration_ms / 1000,
+  }));
+}
+
+// Upserts the analysis row from the analysis_versions row(s) aliased "v" in the given source
+function upsertAnalysisFromVersion(source: string, where = "true"): string {
+  // The WHERE clause is required: without it "ON CONFLICT" would parse as a join condition
+  return `INSERT INTO analysis (
        video_id, video_type, name, age, sex, location, symptoms,
        medical_history_of_patient, family_medical_history,
-       challenges_faced_during_diagnosis, key_opinion
+       challenges_faced_during_diagnosis, key_opinion, prompt_name, prompt_version, llm_model, evidence, custom_fields,
+       video_labels, video_type_confidence, video_type_rationale, current_version_id
      )
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+     SELECT v.video_id, v.result->>'video_type', v.result->>'name', v.result->>'age', v.result->>'sex',
+       v.result->>'location', NULLIF(v.result->'symptoms', 'null'),
+       NULLIF(v.result->'medical_history_of_patient', 'null'), NULLIF(v.result->'family_medical_history', 'null'),
+       NULLIF(v.result->'challenges_faced_during_diagnosis', 'null'), v.result->>'key_opinion',
+       v.prompt_name, v.prompt_version, v.llm_model, NULLIF(v.result->'evidence', 'null'),
+       NULLIF(v.result->'custom_fields', 'null'), NULLIF(v.result->'video_labels', 'null'),
+       (v.result->>'video_type_confidence')::real, v.result->>'video_type_rationale', v.version_id
+     FROM ${source} v
+     WHERE ${where}
      ON CONFLICT (video_id) DO UPDATE SET
        video_type = EXCLUDED.video_type,
        name = EXCLUDED.name,
@@ -150,19 +226,459 @@ export async function storeAnalysis(videoId: string, analysis: any) {
        medical_history_of_patient = EXCLUDED.medical_history_of_patient,
        family_medical_history = EXCLUDED.family_medical_history,
        challenges_faced_during_diagnosis = EXCLUDED.challenges_faced_during_diagnosis,
-       key_opinion = EXCLUDED.key_opinion`,
+       key_opinion = EXCLUDED.key_opinion,
+       prompt_name = EXCLUDED.prompt_name,
+       prompt_version = EXCLUDED.prompt_version,
+       llm_model = EXCLUDED.llm_model,
+       evidence = EXCLUDED.evidence,
+       custom_fields = EXCLUDED.custom_fields,
+       video_labels = EXCLUDED.video_labels,
+       video_type_confidence = EXCLUDED.video_type_confidence,
+       video_type_rationale = EXCLUDED.video_type_rationale,
+       current_version_id = EXCLUDED.current_version_id,
+       -- An approval covered the previous LLM output; corrections and rejections still stand
+       review_status = CASE WHEN analysis.review_status = 'approved' THEN 'unreviewed' ELSE analysis.review_status END`;
+}
+
+// A reviewer's symptom list takes precedence over whatever the model extracted
+async function storeVersionSymptoms(videoId: string, symptoms: NormalizedSymptom[] | null | undefined) {
+  if (!Array.isArray(symptoms)) return;
+  const pool = await getPool();
+  const corrected = await pool.query(
+    "SELECT 1 FROM analysis_overrides WHERE video_id = $1 AND field = 'symptoms'",
+    [videoId]
+  );
+  if (corrected.rows.length === 0) {
+    await storeAnalysisSymptoms(videoId, symptoms);
+  }
+}
+
+/**
+ * Records a new analysis version for the video and makes it the current analysis.
+ * Earlier versions stay in analysis_versions. Returns the new version id.
+ */
+export async function storeAnalysis(videoId: string, analysis: any): Promise<number> {
+  const result = {
+    video_type: analysis.video_type ?? null,
+    video_labels: analysis.video_labels || null,
+    video_type_confidence: analysis.video_type_confidence ?? null,
+    video_type_rationale: analysis.video_type_rationale ?? null,
+    name: analysis.name ?? null,
+    age: analysis.age ?? null,
+    sex: analysis.sex ?? null,
+    location: analysis.location ?? null,
+    symptoms: analysis.symptoms || null,
+    medical_history_of_patient: analysis.medicalHistoryOfPatient || null,
+    family_medical_history: analysis.familyMedicalHistory || null,
+    challenges_faced_during_diagnosis: analysis.challengesFacedDuringDiagnosis || null,
+    key_opinion: analysis.key_opinion ?? null,
+    evidence: analysis.evidence || null,
+    custom_fields: analysis.custom_fields || null,
+    normalized_symptoms: Array.isArray(analysis.normalized_symptoms) ? analysis.normalized_symptoms : null,
+  };
+  const pool = await getPool();
+  const stored = await pool.query(
+    `WITH new_version AS (
+       INSERT INTO analysis_versions (video_id, llm_model, prompt_name, prompt_version, raw_response, result)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *
+     ), upserted AS (
+       ${upsertAnalysisFromVersion("new_version")}
+     )
+     SELECT version_id FROM new_version`,
     [
       videoId,
-      analysis.video_type,
-      analysis.name,
-      analysis.age,
-      analysis.sex,
-      analysis.location,
-      analysis.symptoms ? JSON.stringify(analysis.symptoms) : null,
-      analysis.medicalHistoryOfPatient ? JSON.stringify(analysis.medicalHistoryOfPatient) : null,
-      analysis.familyMedicalHistory ? JSON.stringify(analysis.familyMedicalHistory) : null,
-      analysis.challengesFacedDuringDiagnosis ? JSON.stringify(analysis.challengesFacedDuringDiagnosis) : null,
-      analysis.key_opinion,
+      analysis.llm_model || null,
+      analysis.prompt_name || null,
+      analysis.prompt_version || null,
+      analysis.raw_response || null,
+      JSON.stringify(result),
+    ]
+  );
+  await storeVersionSymptoms(videoId, result.normalized_symptoms);
+  return stored.rows[0].version_id;
+}
+
+// Makes an earlier (or later) version of a video's analysis the current one; false if the version is unknown
+export async function setCurrentAnalysisVersion(videoId: string, versionId: number): Promise<boolean> {
+  const pool = await getPool();
+  const version = await pool.query(
+    "SELECT result FROM analysis_versions WHERE video_id = $1 AND version_id = $2",
+    [videoId, versionId]
+  );
+  if (version.rows.length === 0) return false;
+  await pool.query(upsertAnalysisFromVersion("analysis_versions", "v.version_id = $1"), [versionId]);
+  await storeVersionSymptoms(videoId, version.rows[0].result.normalized_symptoms);
+  return true;
+}
+
+// Replaces the normalized symptoms of one analysis
+export async function storeAnalysisSymptoms(videoId: string, symptoms: NormalizedSymptom[]) {
+  const pool = await getPool();
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    await client.query("DELETE FROM analysis_symptoms WHERE video_id = $1", [videoId]);
+    if (symptoms.length > 0) {
+      await client.query(
+        `INSERT INTO analysis_symptoms (video_id, seq, raw_phrase, canonical_code, canonical_term, match_type, vocabulary)
+         SELECT $1, seq, raw_phrase, canonical_code, canonical_term, match_type, vocabulary
+         FROM unnest($2::int[], $3::text[], $4::text[], $5::text[], $6::text[], $7::text[])
+           AS s(seq, raw_phrase, canonical_code, canonical_term, match_type, vocabulary)`,
+        [
+          videoId,
+          symptoms.map((_, index) => index),
+          symptoms.map(symptom => symptom.raw),
+          symptoms.map(symptom => symptom.code),
+          symptoms.map(symptom => symptom.term),
+          symptoms.map(symptom => symptom.matchType),
+          symptoms.map(symptom => symptom.vocabulary),
+        ]
+      );
+    }
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export async function getAnalysisSymptomLists(searchName?: string): Promise<{ videoId: string; symptoms: string[] }[]> {
+  const pool = await getPool();
+  const result = await pool.query(
+    `SELECT a.video_id, a.symptoms
+     FROM analysis_reviewed a
+     WHERE $1::text IS NULL OR a.video_id IN (${searchVideoIds("$1")})
+     ORDER BY a.video_id`,
+    [searchName || null]
+  );
+  return result.rows.map((row: any) => ({
+    videoId: row.video_id,
+    symptoms: Array.isArray(row.symptoms) ? row.symptoms.map(String) : [],
+  }));
+}
+
+export async function getTranscriptByVideoId(
+  videoId: string
+): Promise<{ videoId: string; transcript: string; language: string; title: string } | null> {
+  const pool = await getPool();
+  const result = await pool.query(
+    `SELECT t.video_id, t.full_transcript, t.language, v.title
+     FROM transcripts t
+     JOIN videos v ON v.video_id = t.video_id
+     WHERE t.video_id = $1`,
+    [videoId]
+  );
+  const row = result.rows[0];
+  if (!row) return null;
+  return {
+    videoId: row.video_id,
+    transcript: row.full_transcript,
+    language: row.language,
+    title: row.title,
+  };
+}
+
+export async function getVideosWithCurrentAnalysis(
+  videoIds: string[],
+  promptVersion: string,
+  llmModel: string
+): Promise<Set<string>> {
+  if (videoIds.length === 0) return new Set();
+  const pool = await getPool();
+  const result = await pool.query(
+    `SELECT video_id FROM analysis
+     WHERE video_id = ANY($1) AND prompt_version = $2 AND llm_model = $3`,
+    [videoIds, promptVersion, llmModel]
+  );
+  return new Set(result.rows.map((row: any) => row.video_id));
+}
+
+export interface SearchConfigRecord {
+  param_id?: number;
+  user_id: string;
+  search_phrase: string;  // The first of search_phrases
+  search_name: string;
+  search_phrases?: string[];  // Queries sent to YouTube; their results are merged
+  disease_name?: string | null;  // Expanded with synonyms and keywords into more queries
+  synonyms?: string[];
+  keywords?: string[];
+  language?: string | null;  // relevanceLanguage, e.g. "en"
+  region?: string | null;  // regionCode, e.g. "US"
+  start_date?: string | null;  // YYYY-MM-DD
+  end_date?: string | null;
+  max_results?: number | null;
+  exclude_keywords?: string[];  // Videos whose title or description mentions one are dropped
+  prompt_template?: string | null;  // Prompt library template used to analyze this search's videos
+  custom_field_schema?: CustomFieldDefinition[] | null;  // Disease-specific values to extract
+  schedule?: string | null;  // Cron expression for bin/scheduler.ts
+  paused?: boolean;  // Paused searches are skipped by bin/scheduler.ts
+  last_fetched_at?: Date | null;  // Videos published before this were already fetched by the scheduler
+  creation_date?: Date;
+  updated_at?: Date | null;
+}
+
+// Every SearchConfig column, with the dates as YYYY-MM-DD text
+export const SEARCH_CONFIG_COLUMNS = `sc.param_id, sc.user_id, sc.search_phrase, sc.search_name, sc.search_phrases,
+  sc.disease_name, sc.synonyms, sc.keywords,
+  sc.language, sc.region, to_char(sc.start_date, 'YYYY-MM-DD') AS start_date, to_char(sc.end_date, 'YYYY-MM-DD') AS end_date,
+  sc.max_results, sc.exclude_keywords, sc.prompt_template, sc.custom_field_schema, sc.schedule, sc.paused,
+  sc.last_fetched_at, sc.creation_date, sc.updated_at`;
+
+export async function storeSearchConfig(config: SearchConfigRecord) {
+  const pool = await getPool();
+  await pool.query(
+    `INSERT INTO SearchConfig (user_id, search_phrase, search_phrases, search_name, prompt_template, custom_field_schema, schedule, creation_date)
+     VALUES ($1, $2, jsonb_build_array($2::text), $3, $4, $5, $6, NOW())
+     ON CONFLICT (search_name) DO UPDATE SET
+       user_id = EXCLUDED.user_id,
+       search_phrase = EXCLUDED.search_phrase,
+       -- The stored phrase goes first, keeping any other phrases the config already had
+       search_phrases = EXCLUDED.search_phrases || (SearchConfig.search_phrases - EXCLUDED.search_phrase),
+       prompt_template = COALESCE(EXCLUDED.prompt_template, SearchConfig.prompt_template),
+       custom_field_schema = COALESCE(EXCLUDED.custom_field_schema, SearchConfig.custom_field_schema),
+       schedule = COALESCE(EXCLUDED.schedule, SearchConfig.schedule),
+       updated_at = NOW()`,
+    [
+      config.user_id,
+      config.search_phrase,
+      config.search_name,
+      config.prompt_template || null,
+      // Validated here so a bad schema never reaches the prompts
+      config.custom_field_schema ? JSON.stringify(parseCustomFieldSchema(config.custom_field_schema)) : null,
+      config.schedule ? parseCronExpression(config.schedule).expression : null,
     ]
   );
-}
\ No newline at end of file
+}
+
+export async function getSearchConfig(searchName: string): Promise<SearchConfigRecord | null> {
+  const pool = await getPool();
+  const result = await pool.query(
+    `SELECT ${SEARCH_CONFIG_COLUMNS} FROM SearchConfig sc WHERE sc.search_name = $1`,
+    [searchName]
+  );
+  const row = result.rows[0];
+  if (!row) return null;
+  return { ...row, custom_field_schema: parseCustomFieldSchema(row.custom_field_schema) };
+}
+
+export interface ScheduledSearchConfig extends SearchConfigRecord {
+  param_id: number;
+  search_phrases: string[];
+  exclude_keywords: string[];
+  schedule: string | null;
+  last_fetched_at: Date | null;
+  last_run_started_at: Date | null;  // Latest scheduled run, whatever its outcome
+}
+
+// Active search configs with a schedule, or the named one whether it has a schedule or not
+export async function getScheduledSearchConfigs(searchName?: string): Promise<ScheduledSearchConfig[]> {
+  const pool = await getPool();
+  const result = await pool.query(
+    `SELECT ${SEARCH_CONFIG_COLUMNS},
+       (SELECT MAX(sr.started_at) FROM scheduled_runs sr WHERE sr.param_id = sc.param_id) AS last_run_started_at
+     FROM SearchConfig sc
+     WHERE ${searchName ? "sc.search_name = $1" : "sc.schedule IS NOT NULL AND NOT sc.paused"}
+     ORDER BY sc.search_name`,
+    searchName ? [searchName] : []
+  );
+  return result.rows.map((row: any) => ({ ...row, custom_field_schema: parseCustomFieldSchema(row.custom_field_schema) }));
+}
+
+// Sets or (with null) clears a search's cron expression; false when the search does not exist
+export async function setSearchSchedule(searchName: string, schedule: string | null): Promise<boolean> {
+  const pool = await getPool();
+  const result = await pool.query(
+    "UPDATE SearchConfig SET schedule = $2 WHERE search_name = $1",
+    [searchName, schedule === null ? null : parseCronExpression(schedule).expression]
+  );
+  return Boolean(result.rowCount);
+}
+
+export async function createScheduledRun(paramId: number, windowStart: Date | null, windowEnd: Date): Promise<number> {
+  const pool = await getPool();
+  const result = await pool.query(
+    `INSERT INTO scheduled_runs (param_id, window_start, window_end)
+     VALUES ($1, $2, $3)
+     RETURNING scheduled_run_id`,
+    [paramId, windowStart, windowEnd]
+  );
+  return result.rows[0].scheduled_run_id;
+}
+
+/**
+ * Records how a scheduled run ended. A completed run also moves its search's watermark to the end
+ * of the window it fetched, so the next run starts where this one stopped.
+ */
+export async function finishScheduledRun(
+  scheduledRunId: number,
+  outcome: {
+    status: "completed" | "failed";
+    runId: number | null;
+    videos?: number;
+    transcripts?: number;
+    analyses?: number;
+    error?: string;
+  }
+) {
+  const pool = await getPool();
+  const result = await pool.query(
+    `UPDATE scheduled_runs
+     SET status = $2, run_id = $3, videos = $4, transcripts = $5, analyses = $6, error = $7, finished_at = NOW()
+     WHERE scheduled_run_id = $1
+     RETURNING param_id, window_end`,
+    [
+      scheduledRunId,
+      outcome.status,
+      outcome.runId,
+      outcome.videos ?? null,
+      outcome.transcripts ?? null,
+      outcome.analyses ?? null,
+      outcome.error || null,
+    ]
+  );
+  const run = result.rows[0];
+  if (run && outcome.status === "completed") {
+    await pool.query(
+      "UPDATE SearchConfig SET last_fetched_at = GREATEST(last_fetched_at, $2) WHERE param_id = $1",
+      [run.param_id, run.window_end]
+    );
+  }
+}
+
+export async function getVideosBySearchName(searchName: string): Promise<VideoData[]> {
+  const pool = await getPool();
+  const result = await pool.query(
+    `SELECT video_id, title, description, published_date, duration_seconds, url, channel_name
+     FROM videos WHERE video_id IN (${searchVideoIds("$1")})
+     ORDER BY published_date DESC NULLS LAST`,
+    [searchName]
+  );
+  return result.rows.map((row: any) => ({
+    id: row.video_id,
+    search_name: searchName,
+    title: row.title,
+    description: row.description || "",
+    publishedDate: row.published_date ? new Date(row.published_date).toISOString() : "",
+    durationInSeconds: row.duration_seconds || 0,
+    viewCount: 0,
+    url: row.url,
+    channel_name: row.channel_name,
+  }));
+}
+
+export async function getTranscriptsBySearchName(
+  searchName: string
+): Promise<{ videoId: string; transcript: string; language: string; title: string; segments?: TimedSegment[] }[]> {
+  const pool = await getPool();
+  const result = await pool.query(
+    `SELECT t.video_id, t.full_transcript, t.language, v.title,
+       (SELECT json_agg(json_build_object('text', s.text, 'offset', s.start_ms / 1000.0, 'duration', s.duration_ms / 1000.0) ORDER BY s.seq)
+        FROM transcript_segments s WHERE s.video_id = t.video_id) AS segments
+     FROM transcripts t
+     JOIN videos v ON v.video_id = t.video_id
+     WHERE t.video_id IN (${searchVideoIds("$1")})`,
+    [searchName]
+  );
+  return result.rows.map((row: any) => ({
+    videoId: row.video_id,
+    transcript: row.full_transcript,
+    language: row.language,
+    title: row.title,
+    segments: row.segments || undefined,
+  }));
+}
+
+export type PipelineItemState = "pending" | "fetched" | "transcribed" | "analyzed" | "failed";
+
+export interface PipelineRun {
+  run_id: number;
+  command: string;
+  search_name: string | null;
+  options: Record<string, any> | null;
+  status: "running" | "completed" | "failed";
+  started_at: Date;
+  finished_at: Date | null;
+}
+
+export interface PipelineItem {
+  run_id: number;
+  video_id: string;
+  state: PipelineItemState;
+  failed_stage: string | null;
+  error: string | null;
+  data: Record<string, any>;
+  updated_at: Date;
+}
+
+export async function createPipelineRun(command: string, searchName: string | null, options: Record<string, any>): Promise<number> {
+  const pool = await getPool();
+  const result = await pool.query(
+    `INSERT INTO pipeline_runs (command, search_name, options)
+     VALUES ($1, $2, $3)
+     RETURNING run_id`,
+    [command, searchName, JSON.stringify(options)]
+  );
+  return result.rows[0].run_id;
+}
+
+export async function getPipelineRun(runId: number): Promise<PipelineRun | null> {
+  const pool = await getPool();
+  const result = await pool.query("SELECT * FROM pipeline_runs WHERE run_id = $1", [runId]);
+  return result.rows[0] || null;
+}
+
+export async function updatePipelineRunStatus(runId: number, status: PipelineRun["status"]) {
+  const pool = await getPool();
+  await pool.query(
+    `UPDATE pipeline_runs
+     SET status = $2,
+         finished_at = CASE WHEN $2 = 'running' THEN NULL ELSE NOW() END
+     WHERE run_id = $1`,
+    [runId, status]
+  );
+}
+
+export async function addPipelineItems(runId: number, videoIds: string[]) {
+  const pool = await getPool();
+  for (const videoId of videoIds) {
+    await pool.query(
+      `INSERT INTO pipeline_items (run_id, video_id)
+       VALUES ($1, $2)
+       ON CONFLICT (run_id, video_id) DO NOTHING`,
+      [runId, videoId]
+    );
+  }
+}
+
+export async function getPipelineItems(runId: number): Promise<PipelineItem[]> {
+  const pool = await getPool();
+  const result = await pool.query(
+    "SELECT * FROM pipeline_items WHERE run_id = $1 ORDER BY video_id",
+    [runId]
+  );
+  return result.rows;
+}
+
+export async function updatePipelineItem(
+  runId: number,
+  videoId: string,
+  state: PipelineItemState,
+  update: { data?: Record<string, any>; failedStage?: string; error?: string } = {}
+) {
+  const pool = await getPool();
+  // Stage outputs are merged into data so a later stage never discards an earlier one
+  await pool.query(
+    `INSERT INTO pipeline_items (run_id, video_id, state, failed_stage, error, data, updated_at)
+     VALUES ($1, $2, $3, $4, $5, $6, NOW())
+     ON CONFLICT (run_id, video_id) DO UPDATE SET
+       state = EXCLUDED.state,
+       failed_stage = EXCLUDED.failed_stage,
+       error = EXCLUDED.error,
+       data = pipeline_items.data || EXCLUDED.data,
+       updated_at = NOW()`,
+    [runId, videoId, state, update.failedStage || null, update.error || null, JSON.stringify(update.data || {})]
+  );
+}
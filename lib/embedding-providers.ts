@@ -0,0 +1,122 @@
+// lib/embedding-providers.ts
+import axios from "axios";
+import { createHash } from "crypto";
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbeddingProviderFactory = (model: string) => EmbeddingProvider;
+
+export const DEFAULT_EMBEDDING_MODEL = "ollama:nomic-embed-text";
+
+class OllamaEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "ollama";
+
+  constructor(readonly model: string) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const auth = Buffer.from(`${process.env.USER_NAME}:${process.env.USER_PASSWORD}`).toString("base64");
+    const response = await axios.post(
+      `${(process.env.OLLAMA_BASE_URL || "http://localhost:11434").replace(/\/$/, "")}/api/embed`,
+      { model: this.model, input: texts },
+      {
+        headers: {
+          Authorization: `Basic ${auth}`,
+          "Content-Type": "application/json",
+        },
+      }
+    );
+    return response.data.embeddings;
+  }
+}
+
+class OpenAiEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "openai";
+
+  constructor(readonly model: string) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await axios.post(
+      `${(process.env.OPENAI_BASE_URL || "https://api.openai.com/v1").replace(/\/$/, "")}/embeddings`,
+      { model: this.model, input: texts },
+      {
+        headers: {
+          Authorization: `Bearer ${process.env.OPENAI_API_KEY || ""}`,
+          "Content-Type": "application/json",
+        },
+      }
+    );
+    // The API may return the items out of order; index tells us where each one belongs
+    const embeddings: number[][] = [];
+    for (const item of response.data.data) {
+      embeddings[item.index] = item.embedding;
+    }
+    return embeddings;
+  }
+}
+
+/**
+ * Feature-hashing embedder: every lowercased word and word pair is hashed into one of `dimensions`
+ * buckets with a hash-derived sign, and the vector is L2-normalized. It needs no model server and
+ * always gives the same vector for the same text, which makes it suitable for tests and offline
+ * runs, but it only captures word overlap, not meaning.
+ */
+class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "hash";
+
+  constructor(readonly model: string) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const dimensions = parseInt(this.model, 10) || 384;
+    return texts.map(text => {
+      const vector = new Array<number>(dimensions).fill(0);
+      const words: string[] = text.toLowerCase().match(/[a-z0-9']+/g) || [];
+      const features = words.concat(words.slice(1).map((word, i) => `${words[i]} ${word}`));
+      for (const feature of features) {
+        const digest = createHash("md5").update(feature).digest();
+        const bucket = digest.readUInt32BE(0) % dimensions;
+        vector[bucket] += digest[4] & 1 ? 1 : -1;
+      }
+      const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+      return vector.map(value => value / norm);
+    });
+  }
+}
+
+const registry = new Map<string, { factory: EmbeddingProviderFactory; defaultModel: string }>();
+
+export function registerEmbeddingProvider(name: string, factory: EmbeddingProviderFactory, defaultModel: string) {
+  registry.set(name.toLowerCase(), { factory, defaultModel });
+}
+
+export function listEmbeddingProviders(): string[] {
+  return Array.from(registry.keys());
+}
+
+/**
+ * Resolves an embedding spec such as "ollama:nomic-embed-text", "openai:text-embedding-3-small" or
+ * "hash:256" (defaults to EMBEDDING_MODEL). A bare provider name uses that provider's default model.
+ */
+export function getEmbeddingProvider(spec: string = process.env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL): EmbeddingProvider {
+  const trimmed = spec.trim();
+  const separator = trimmed.indexOf(":");
+  const name = (separator > 0 ? trimmed.slice(0, separator) : trimmed).toLowerCase();
+  const entry = registry.get(name);
+  if (!entry) {
+    throw new Error(`Unknown embedding provider: ${name}. Registered providers: ${listEmbeddingProviders().join(", ")}`);
+  }
+  const model = separator > 0 ? trimmed.slice(separator + 1) : "";
+  return entry.factory(model || entry.defaultModel);
+}
+
+// The spec stored next to each embedding, so vectors from different models are never compared
+export function embeddingModelKey(provider: EmbeddingProvider): string {
+  return `${provider.name}:${provider.model}`;
+}
+
+registerEmbeddingProvider("ollama", model => new OllamaEmbeddingProvider(model), "nomic-embed-text");
+registerEmbeddingProvider("openai", model => new OpenAiEmbeddingProvider(model), "text-embedding-3-small");
+registerEmbeddingProvider("hash", model => new HashingEmbeddingProvider(model), "384");
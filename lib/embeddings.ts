@@ -0,0 +1,164 @@
+// lib/embeddings.ts
+import { getPool, searchVideoIds } from "./database";
+import { EmbeddingProvider, getEmbeddingProvider, embeddingModelKey } from "./embedding-providers";
+import { chunkByTokens, countTokens } from "./transcript-chunker";
+import { youtubeTimestampUrl } from "./evidence";
+import { TimedSegment } from "./types";
+
+export interface EmbeddingChunk {
+  content: string;
+  startMs: number | null;  // Known only when the transcript was stored with its segments
+}
+
+export interface SemanticSearchOptions {
+  limit?: number;
+  searchName?: string;
+  videoType?: string;
+  provider?: EmbeddingProvider;
+}
+
+export interface SemanticSearchHit {
+  videoId: string;
+  title: string;
+  channelName: string;
+  searchName: string;
+  videoType: string | null;
+  chunkIndex: number;
+  content: string;
+  startMs: number | null;
+  similarity: number;     // Cosine similarity, 1 for identical direction
+  url: string;
+}
+
+const CHUNK_TOKENS = parseInt(process.env.EMBEDDING_CHUNK_TOKENS || "200", 10);
+const BATCH_SIZE = 32;
+export const MAX_SEMANTIC_RESULTS = 100;
+
+function toVectorLiteral(vector: number[]): string {
+  return `[${vector.join(",")}]`;
+}
+
+/**
+ * Splits a transcript into passages of about EMBEDDING_CHUNK_TOKENS tokens. With segments the
+ * passages follow caption boundaries so each one knows when it starts; otherwise the plain text is
+ * cut by token count.
+ */
+export function chunkForEmbedding(transcript: string, segments?: TimedSegment[], maxTokens: number = CHUNK_TOKENS): EmbeddingChunk[] {
+  if (!segments || segments.length === 0) {
+    return chunkByTokens(transcript, maxTokens).map(content => ({ content, startMs: null }));
+  }
+
+  const chunks: EmbeddingChunk[] = [];
+  let lines: string[] = [];
+  let tokens = 0;
+  let startMs = 0;
+  for (const segment of segments) {
+    const segmentTokens = countTokens(segment.text);
+    if (lines.length > 0 && tokens + segmentTokens > maxTokens) {
+      chunks.push({ content: lines.join(" "), startMs });
+      lines = [];
+      tokens = 0;
+    }
+    if (lines.length === 0) startMs = Math.round(segment.offset * 1000);
+    lines.push(segment.text);
+    tokens += segmentTokens;
+  }
+  if (lines.length > 0) chunks.push({ content: lines.join(" "), startMs });
+  return chunks;
+}
+
+// Replaces the stored embeddings of one transcript for the provider's model; returns the chunk count
+export async function embedTranscript(
+  videoId: string,
+  transcript: string,
+  segments?: TimedSegment[],
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<number> {
+  const chunks = chunkForEmbedding(transcript, segments);
+  const vectors: number[][] = [];
+  for (let start = 0; start < chunks.length; start += BATCH_SIZE) {
+    vectors.push(...(await provider.embed(chunks.slice(start, start + BATCH_SIZE).map(chunk => chunk.content))));
+  }
+
+  const model = embeddingModelKey(provider);
+  const pool = await getPool();
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    await client.query("DELETE FROM transcript_embeddings WHERE video_id = $1 AND model = $2", [videoId, model]);
+    for (let i = 0; i < chunks.length; i++) {
+      await client.query(
+        `INSERT INTO transcript_embeddings (video_id, model, chunk_index, start_ms, content, embedding)
+         VALUES ($1, $2, $3, $4, $5, $6::vector)`,
+        [videoId, model, i, chunks[i].startMs, chunks[i].content, toVectorLiteral(vectors[i])]
+      );
+    }
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+  return chunks.length;
+}
+
+// Stored transcripts that have no embeddings yet for the given model (all of them when force is set)
+export async function getTranscriptsToEmbed(
+  model: string,
+  options: { searchName?: string; force?: boolean } = {}
+): Promise<{ videoId: string; transcript: string; segments?: TimedSegment[] }[]> {
+  const pool = await getPool();
+  const result = await pool.query(
+    `SELECT t.video_id, t.full_transcript,
+       (SELECT json_agg(json_build_object('text', s.text, 'offset', s.start_ms / 1000.0, 'duration', s.duration_ms / 1000.0) ORDER BY s.seq)
+        FROM transcript_segments s WHERE s.video_id = t.video_id) AS segments
+     FROM transcripts t
+     JOIN videos v ON v.video_id = t.video_id
+     WHERE t.full_transcript <> 'NOT AVAILABLE'
+       AND ($1::text IS NULL OR v.video_id IN (${searchVideoIds("$1")}))
+       AND ($3::boolean OR NOT EXISTS (SELECT 1 FROM transcript_embeddings e WHERE e.video_id = t.video_id AND e.model = $2))
+     ORDER BY t.video_id`,
+    [options.searchName || null, model, Boolean(options.force)]
+  );
+  return result.rows.map((row: any) => ({
+    videoId: row.video_id,
+    transcript: row.full_transcript,
+    segments: row.segments || undefined,
+  }));
+}
+
+export async function semanticSearch(query: string, options: SemanticSearchOptions = {}): Promise<SemanticSearchHit[]> {
+  const provider = options.provider || getEmbeddingProvider();
+  const limit = Math.min(MAX_SEMANTIC_RESULTS, Math.max(1, Math.floor(options.limit || 10)));
+  const [queryVector] = await provider.embed([query]);
+
+  const pool = await getPool();
+  const result = await pool.query(
+    `SELECT e.video_id, e.chunk_index, e.start_ms, e.content, v.title, v.channel_name,
+       COALESCE($3::text, v.search_name) AS search_name, a.video_type,
+       1 - (e.embedding <=> $1::vector) AS similarity
+     FROM transcript_embeddings e
+     JOIN videos v ON v.video_id = e.video_id
+     LEFT JOIN analysis_reviewed a ON a.video_id = e.video_id
+     WHERE e.model = $2
+       AND ($3::text IS NULL OR v.video_id IN (${searchVideoIds("$3")}))
+       AND ($4::text IS NULL OR LOWER(a.video_type) = LOWER($4))
+     ORDER BY e.embedding <=> $1::vector
+     LIMIT $5`,
+    [toVectorLiteral(queryVector), embeddingModelKey(provider), options.searchName || null, options.videoType || null, limit]
+  );
+
+  return result.rows.map((row: any) => ({
+    videoId: row.video_id,
+    title: row.title,
+    channelName: row.channel_name,
+    searchName: row.search_name,
+    videoType: row.video_type,
+    chunkIndex: row.chunk_index,
+    content: row.content,
+    startMs: row.start_ms,
+    similarity: Number(row.similarity),
+    url: youtubeTimestampUrl(row.video_id, (row.start_ms || 0) / 1000),
+  }));
+}
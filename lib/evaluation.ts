@@ -0,0 +1,303 @@
+// lib/evaluation.ts
+import { analyzeTranscriptWithDetails, AnalysisResult } from "./ollama";
+import { normalizeSymptoms } from "./symptom-vocabulary";
+import { safeLog } from "./logger";
+
+// One hand-labelled video: the expected AnalysisResult plus where to find its transcript
+export interface GoldVideo extends Partial<AnalysisResult> {
+  videoId: string;
+  title?: string;
+  transcript?: string;  // Read from the database when omitted
+}
+
+export interface EvaluationItem {
+  gold: GoldVideo;
+  title: string;
+  transcript: string;
+}
+
+export interface EvaluationVariant {
+  label: string;
+  model: string;           // Model spec as accepted by LLM_MODEL
+  promptTemplate: string;  // Prompt library template name
+  promptVersion: string;
+}
+
+export interface ListScore {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface FieldAccuracy {
+  correct: number;
+  total: number;
+  accuracy: number;
+}
+
+export interface ListComparison {
+  matched: string[];
+  missed: string[];   // In the gold label but not extracted
+  extra: string[];    // Extracted but not in the gold label
+}
+
+export interface FieldComparison {
+  expected: string | null;
+  actual: string | null;
+  correct: boolean;
+}
+
+// Fields the gold entry leaves out are null here and not scored; a null in the gold entry is compared as a value
+export interface VideoEvaluation {
+  videoId: string;
+  latencyMs: number;
+  error: string | null;
+  symptoms: ListComparison | null;
+  challenges: ListComparison | null;
+  videoType: FieldComparison | null;
+  sex: FieldComparison | null;
+  age: FieldComparison | null;
+}
+
+export interface VariantReport {
+  label: string;
+  model: string;
+  promptTemplate: string;
+  promptVersion: string;
+  videos: number;
+  failures: number;
+  failureRate: number;
+  latencyMs: { mean: number; median: number; p95: number };
+  symptoms: ListScore;
+  challenges: ListScore;
+  videoType: FieldAccuracy;
+  sex: FieldAccuracy;
+  age: FieldAccuracy;
+  perVideo: VideoEvaluation[];
+}
+
+export interface EvaluationReport {
+  createdAt: string;
+  videoCount: number;
+  variants: VariantReport[];
+}
+
+// Two free-text items are the same when this share of their words overlaps
+const TOKEN_OVERLAP_THRESHOLD = 0.5;
+
+function tokens(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length > 1));
+}
+
+function tokenOverlap(a: string, b: string): number {
+  const left = tokens(a);
+  const right = tokens(b);
+  if (left.size === 0 || right.size === 0) return 0;
+  let shared = 0;
+  left.forEach(token => {
+    if (right.has(token)) shared++;
+  });
+  return shared / (left.size + right.size - shared);
+}
+
+/**
+ * Pairs extracted items with gold items. Items match when they map to the same vocabulary code
+ * (symptoms only) or when enough of their words overlap; each gold item is matched at most once.
+ */
+export function compareLists(expected: string[], actual: string[], useVocabulary = false): ListComparison {
+  const expectedCodes = useVocabulary ? normalizeSymptoms(expected).map(symptom => symptom.code) : [];
+  const actualCodes = useVocabulary ? normalizeSymptoms(actual).map(symptom => symptom.code) : [];
+  const used = new Set<number>();
+  const matched: string[] = [];
+  const extra: string[] = [];
+
+  actual.forEach((item, actualIndex) => {
+    const code = actualCodes[actualIndex];
+    let best = -1;
+    let bestScore = 0;
+    expected.forEach((goldItem, goldIndex) => {
+      if (used.has(goldIndex)) return;
+      const score = code && code === expectedCodes[goldIndex] ? 1 : tokenOverlap(item, goldItem);
+      if (score >= TOKEN_OVERLAP_THRESHOLD && score > bestScore) {
+        best = goldIndex;
+        bestScore = score;
+      }
+    });
+    if (best >= 0) {
+      used.add(best);
+      matched.push(item);
+    } else {
+      extra.push(item);
+    }
+  });
+
+  return { matched, missed: expected.filter((_, index) => !used.has(index)), extra };
+}
+
+export function scoreLists(allComparisons: (ListComparison | null)[]): ListScore {
+  const comparisons = allComparisons.filter((comparison): comparison is ListComparison => comparison !== null);
+  const truePositives = comparisons.reduce((sum, comparison) => sum + comparison.matched.length, 0);
+  const falsePositives = comparisons.reduce((sum, comparison) => sum + comparison.extra.length, 0);
+  const falseNegatives = comparisons.reduce((sum, comparison) => sum + comparison.missed.length, 0);
+  // Nothing to find and nothing found counts as perfect
+  const precision = truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : 1;
+  const recall = truePositives + falseNegatives > 0 ? truePositives / (truePositives + falseNegatives) : 1;
+  const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+  return { truePositives, falsePositives, falseNegatives, precision, recall, f1 };
+}
+
+function normalizeSex(value: string | null | undefined): string | null {
+  const text = (value || "").trim().toLowerCase();
+  if (!text) return null;
+  if (["m", "male", "man", "boy"].includes(text)) return "male";
+  if (["f", "female", "woman", "girl"].includes(text)) return "female";
+  return text;
+}
+
+function normalizeAge(value: string | number | null | undefined): string | null {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim().toLowerCase();
+  if (!text) return null;
+  const years = text.match(/\d+/);
+  return years ? years[0] : text;
+}
+
+function normalizeVideoType(value: string | null | undefined): string | null {
+  return value ? value.trim().toLowerCase() : null;
+}
+
+function listOf(value: string[] | null | undefined): string[] {
+  return Array.isArray(value) ? value.map(String) : [];
+}
+
+function compareListField(
+  expected: string[] | null | undefined,
+  actual: string[] | null | undefined,
+  useVocabulary = false
+): ListComparison | null {
+  return expected === undefined ? null : compareLists(listOf(expected), listOf(actual), useVocabulary);
+}
+
+function compareField(
+  expected: string | null | undefined,
+  actual: string | null | undefined,
+  normalize: (value: string | null | undefined) => string | null,
+  failed: boolean
+): FieldComparison | null {
+  if (expected === undefined) return null;
+  return {
+    expected,
+    actual: actual ?? null,
+    correct: !failed && normalize(expected) === normalize(actual),
+  };
+}
+
+function accuracy(allValues: (FieldComparison | null)[]): FieldAccuracy {
+  const values = allValues.filter((value): value is FieldComparison => value !== null);
+  const correct = values.filter(value => value.correct).length;
+  return { correct, total: values.length, accuracy: values.length > 0 ? correct / values.length : 0 };
+}
+
+function percentile(sorted: number[], fraction: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.ceil(fraction * sorted.length) - 1)];
+}
+
+/**
+ * Scores one analyzed video against its gold label. A failed analysis counts as an empty
+ * extraction: every gold item is missed and every single-valued field is wrong. Fields the gold
+ * label does not define are skipped, so a partially labelled gold set only scores what it labels.
+ */
+export function evaluateVideo(
+  gold: GoldVideo,
+  result: AnalysisResult | null,
+  latencyMs: number,
+  error: string | null
+): VideoEvaluation {
+  const failed = !result;
+  return {
+    videoId: gold.videoId,
+    latencyMs,
+    error: failed ? error || "No analysis result" : null,
+    symptoms: compareListField(gold.symptoms, result?.symptoms, true),
+    challenges: compareListField(gold.challengesFacedDuringDiagnosis, result?.challengesFacedDuringDiagnosis),
+    videoType: compareField(gold.video_type, result?.video_type, normalizeVideoType, failed),
+    sex: compareField(gold.sex, result?.sex, normalizeSex, failed),
+    age: compareField(gold.age, result?.age, normalizeAge, failed),
+  };
+}
+
+export function summarizeVariant(variant: EvaluationVariant, perVideo: VideoEvaluation[]): VariantReport {
+  const latencies = perVideo.map(video => video.latencyMs).sort((a, b) => a - b);
+  const failures = perVideo.filter(video => video.error !== null).length;
+  return {
+    label: variant.label,
+    model: variant.model,
+    promptTemplate: variant.promptTemplate,
+    promptVersion: variant.promptVersion,
+    videos: perVideo.length,
+    failures,
+    failureRate: perVideo.length > 0 ? failures / perVideo.length : 0,
+    latencyMs: {
+      mean: latencies.length > 0 ? Math.round(latencies.reduce((sum, value) => sum + value, 0) / latencies.length) : 0,
+      median: percentile(latencies, 0.5),
+      p95: percentile(latencies, 0.95),
+    },
+    symptoms: scoreLists(perVideo.map(video => video.symptoms)),
+    challenges: scoreLists(perVideo.map(video => video.challenges)),
+    videoType: accuracy(perVideo.map(video => video.videoType)),
+    sex: accuracy(perVideo.map(video => video.sex)),
+    age: accuracy(perVideo.map(video => video.age)),
+    perVideo,
+  };
+}
+
+// Analyzes every item with each variant in turn; calls run one at a time so latencies are comparable
+export async function runEvaluation(items: EvaluationItem[], variants: EvaluationVariant[]): Promise<EvaluationReport> {
+  const reports: VariantReport[] = [];
+  for (const variant of variants) {
+    safeLog("info", `🧪 Evaluating ${variant.label} on ${items.length} videos`);
+    const perVideo: VideoEvaluation[] = [];
+    for (const { gold, title, transcript } of items) {
+      const started = Date.now();
+      let result: AnalysisResult | null = null;
+      let error: string | null = null;
+      try {
+        const outcome = await analyzeTranscriptWithDetails(gold.videoId, transcript, title, {
+          model: variant.model,
+          promptTemplate: variant.promptTemplate,
+        });
+        result = outcome.result;
+        error = outcome.error;
+      } catch (caught: any) {
+        error = caught.message || String(caught);
+      }
+      perVideo.push(evaluateVideo(gold, result, Date.now() - started, error));
+    }
+    reports.push(summarizeVariant(variant, perVideo));
+  }
+  return { createdAt: new Date().toISOString(), videoCount: items.length, variants: reports };
+}
+
+// Plain-text comparison table, one row per variant
+export function formatEvaluationReport(report: EvaluationReport): string {
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const header = ["Variant", "Symptoms P/R/F1", "Challenges P/R/F1", "Type", "Sex", "Age", "Failures", "Latency mean/p95"];
+  const rows = report.variants.map(variant => [
+    variant.label,
+    `${percent(variant.symptoms.precision)} / ${percent(variant.symptoms.recall)} / ${percent(variant.symptoms.f1)}`,
+    `${percent(variant.challenges.precision)} / ${percent(variant.challenges.recall)} / ${percent(variant.challenges.f1)}`,
+    percent(variant.videoType.accuracy),
+    percent(variant.sex.accuracy),
+    percent(variant.age.accuracy),
+    `${variant.failures}/${variant.videos}`,
+    `${(variant.latencyMs.mean / 1000).toFixed(1)}s / ${(variant.latencyMs.p95 / 1000).toFixed(1)}s`,
+  ]);
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+  return [header, ...rows]
+    .map(row => row.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd())
+    .join("\n");
+}
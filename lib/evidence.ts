@@ -0,0 +1,50 @@
+// lib/evidence.ts
+import { EvidenceItem } from "./analysis-schema";
+import { TimedSegment } from "./types";
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9']+/g, " ").trim();
+}
+
+export function youtubeTimestampUrl(videoId: string, seconds: number): string {
+  return `https://www.youtube.com/watch?v=${videoId}&t=${Math.floor(seconds)}s`;
+}
+
+/**
+ * Finds where each evidence quote is spoken and attaches its start time and a deep link. Quotes are
+ * matched on normalized text across segment boundaries; when the model paraphrased, the match falls
+ * back to the quote's opening words. Quotes that cannot be found keep a null timestamp.
+ */
+export function locateEvidence(evidence: EvidenceItem[], segments: TimedSegment[], videoId: string): EvidenceItem[] {
+  if (segments.length === 0) {
+    return evidence;
+  }
+
+  let fullText = "";
+  const segmentStarts: number[] = [];
+  for (const segment of segments) {
+    segmentStarts.push(fullText.length);
+    fullText += normalize(segment.text) + " ";
+  }
+
+  const findSegment = (position: number) => {
+    let index = 0;
+    while (index + 1 < segmentStarts.length && segmentStarts[index + 1] <= position) index++;
+    return segments[index];
+  };
+
+  return evidence.map(entry => {
+    const words = normalize(entry.quote).split(" ").filter(Boolean);
+    const attempts = [words, words.slice(0, 8), words.slice(0, 4)].filter(attempt => attempt.length >= 3 || attempt === words);
+
+    for (const attempt of attempts) {
+      // Padded with spaces so only whole words match, e.g. "tired" never matches inside "retired"
+      const position = ` ${fullText}`.indexOf(` ${attempt.join(" ")} `);
+      if (attempt.length > 0 && position !== -1) {
+        const segment = findSegment(position);
+        return { ...entry, startSeconds: Math.floor(segment.offset), url: youtubeTimestampUrl(videoId, segment.offset) };
+      }
+    }
+    return { ...entry, startSeconds: null, url: null };
+  });
+}
@@ -0,0 +1,219 @@
+// lib/llm-providers.ts
+import { Ollama } from "@langchain/community/llms/ollama";
+import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
+import axios from "axios";
+import { createHash } from "crypto";
+import { safeLog } from "./logger";
+
+export interface LlmProviderConfig {
+  baseUrl?: string;
+  apiKey?: string;
+  temperature?: number;
+  maxTokens?: number;
+  contextTokens: number;  // Context window the prompt plus response must fit in
+  defaultModel: string;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  readonly config: LlmProviderConfig;
+  generate(prompt: string, model?: string): Promise<string>;
+}
+
+export type LlmProviderFactory = (config: LlmProviderConfig) => LlmProvider;
+
+class OllamaProvider implements LlmProvider {
+  readonly name = "ollama";
+
+  constructor(readonly config: LlmProviderConfig) {}
+
+  async generate(prompt: string, model: string = this.config.defaultModel): Promise<string> {
+    safeLog("info", `Using Ollama model: ${model}`);
+    const auth = Buffer.from(`${process.env.USER_NAME}:${process.env.USER_PASSWORD}`).toString("base64");
+    const llm = new Ollama({
+      baseUrl: this.config.baseUrl,
+      model,
+      temperature: this.config.temperature,
+      numPredict: this.config.maxTokens,
+      numCtx: this.config.contextTokens,
+      headers: {
+        Authorization: `Basic ${auth}`,
+        "Content-Type": "application/json",
+      },
+    });
+    return await llm.invoke(prompt);
+  }
+}
+
+// Works against api.openai.com and any server exposing the same /chat/completions API (vLLM, LM Studio, ...)
+class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name = "openai";
+
+  constructor(readonly config: LlmProviderConfig) {}
+
+  async generate(prompt: string, model: string = this.config.defaultModel): Promise<string> {
+    safeLog("info", `Using OpenAI-compatible model: ${model}`);
+    const response = await axios.post(
+      `${(this.config.baseUrl || "https://api.openai.com/v1").replace(/\/$/, "")}/chat/completions`,
+      {
+        model,
+        messages: [{ role: "user", content: prompt }],
+        temperature: this.config.temperature,
+        max_tokens: this.config.maxTokens,
+      },
+      {
+        headers: {
+          Authorization: `Bearer ${this.config.apiKey}`,
+          "Content-Type": "application/json",
+        },
+      }
+    );
+    return response.data.choices[0].message.content;
+  }
+}
+
+class GeminiProvider implements LlmProvider {
+  readonly name = "gemini";
+
+  constructor(readonly config: LlmProviderConfig) {}
+
+  async generate(prompt: string, model: string = this.config.defaultModel): Promise<string> {
+    safeLog("info", `Using Google Gemini model: ${model}`);
+    const llm = new ChatGoogleGenerativeAI({
+      modelName: model,
+      temperature: this.config.temperature,
+      maxOutputTokens: this.config.maxTokens,
+      apiKey: this.config.apiKey,
+    });
+    const response = await llm.invoke(prompt);
+    return typeof response.content === "string" ? response.content : JSON.stringify(response.content);
+  }
+}
+
+// Deterministic stand-in for tests: the same prompt always yields the same well-formed analysis JSON
+class MockProvider implements LlmProvider {
+  readonly name = "mock";
+
+  constructor(readonly config: LlmProviderConfig) {}
+
+  async generate(prompt: string, model: string = this.config.defaultModel): Promise<string> {
+    if (process.env.MOCK_LLM_RESPONSE) {
+      return process.env.MOCK_LLM_RESPONSE;
+    }
+    const digest = createHash("sha256").update(`${model}\n${prompt}`).digest("hex");
+    return JSON.stringify({
+      video_type: "Informational",
+      video_labels: ["Informational"],
+      video_type_confidence: 1,
+      video_type_rationale: "Mock response",
+      name: null,
+      age: null,
+      sex: null,
+      location: null,
+      symptoms: null,
+      medicalHistoryOfPatient: null,
+      familyMedicalHistory: null,
+      challengesFacedDuringDiagnosis: null,
+      key_opinion: `mock-${digest.slice(0, 8)}`,
+      evidence: null,
+    });
+  }
+}
+
+const registry = new Map<string, { factory: LlmProviderFactory; defaults: () => LlmProviderConfig }>();
+
+function envNumber(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === "") return undefined;
+  const parsed = Number(value);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+// Reads <PREFIX>_BASE_URL, <PREFIX>_TEMPERATURE, <PREFIX>_MAX_TOKENS and <PREFIX>_CONTEXT_TOKENS,
+// e.g. OLLAMA_TEMPERATURE=0.2
+function envConfig(prefix: string, defaultModel: string, contextTokens: number, apiKey?: string): LlmProviderConfig {
+  return {
+    baseUrl: process.env[`${prefix}_BASE_URL`] || undefined,
+    apiKey,
+    temperature: envNumber(`${prefix}_TEMPERATURE`),
+    maxTokens: envNumber(`${prefix}_MAX_TOKENS`),
+    contextTokens: envNumber(`${prefix}_CONTEXT_TOKENS`) || contextTokens,
+    defaultModel,
+  };
+}
+
+export function registerLlmProvider(
+  name: string,
+  factory: LlmProviderFactory,
+  defaults: () => LlmProviderConfig
+) {
+  registry.set(name.toLowerCase(), { factory, defaults });
+}
+
+export function listLlmProviders(): string[] {
+  return Array.from(registry.keys());
+}
+
+export function getLlmProvider(name: string, overrides: Partial<LlmProviderConfig> = {}): LlmProvider {
+  const entry = registry.get(name.toLowerCase());
+  if (!entry) {
+    throw new Error(`Unknown LLM provider: ${name}. Registered providers: ${listLlmProviders().join(", ")}`);
+  }
+  const config = { ...entry.defaults() };
+  for (const key of Object.keys(overrides) as (keyof LlmProviderConfig)[]) {
+    setConfigValue(config, key, overrides[key]);
+  }
+  return entry.factory(config);
+}
+
+// Undefined overrides keep the provider's default
+function setConfigValue<K extends keyof LlmProviderConfig>(config: LlmProviderConfig, key: K, value: LlmProviderConfig[K] | undefined) {
+  if (value !== undefined) config[key] = value;
+}
+
+/**
+ * Splits a model spec such as "ollama:qwen2.5:14b" into provider and model. Specs without a
+ * registered provider prefix keep working the way LLM_MODEL always has: "gpt-*" and "openai" go to
+ * OpenAI, "gemini" to Gemini, and anything else is treated as an Ollama model name.
+ */
+export function parseModelSpec(spec: string): { provider: string; model?: string } {
+  const trimmed = spec.trim();
+  const separator = trimmed.indexOf(":");
+  if (separator > 0) {
+    const prefix = trimmed.slice(0, separator).toLowerCase();
+    if (registry.has(prefix)) {
+      return { provider: prefix, model: trimmed.slice(separator + 1) || undefined };
+    }
+  }
+
+  const lower = trimmed.toLowerCase();
+  if (registry.has(lower)) {
+    return { provider: lower };
+  }
+  if (lower.startsWith("gpt-")) {
+    return { provider: "openai", model: trimmed };
+  }
+  if (lower.startsWith("gemini-")) {
+    return { provider: "gemini", model: trimmed };
+  }
+  return { provider: "ollama", model: trimmed };
+}
+
+export function resolveModelSpec(spec: string): { provider: LlmProvider; model: string } {
+  const { provider: providerName, model } = parseModelSpec(spec);
+  const provider = getLlmProvider(providerName);
+  return { provider, model: model || provider.config.defaultModel };
+}
+
+registerLlmProvider("ollama", config => new OllamaProvider(config), () =>
+  envConfig("OLLAMA", "deepseek-r1:14b", 8192)
+);
+registerLlmProvider("openai", config => new OpenAiCompatibleProvider(config), () =>
+  envConfig("OPENAI", "gpt-4", 8192, process.env.OPENAI_API_KEY || "")
+);
+registerLlmProvider("gemini", config => new GeminiProvider(config), () =>
+  envConfig("GEMINI", "gemini-pro", 30720, process.env.GEMINI_API_KEY || "")
+);
+registerLlmProvider("mock", config => new MockProvider(config), () =>
+  envConfig("MOCK", "mock", 8192)
+);
@@ -1,5 +1,5 @@
 // lib/logger.ts
-export function safeLog(level: "error" | "info", ...args: any[]) {
+export function safeLog(level: "error" | "warn" | "info", ...args: any[]) {
   const message = `[${level.toUpperCase()}] ${args.join(" ")}\n`;
   try {
     process.stderr.write(message);
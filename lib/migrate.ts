@@ -0,0 +1,170 @@
+// lib/migrate.ts
+import pg from "pg";
+import { safeLog } from "./logger";
+import { MIGRATIONS } from "./migrations";
+import { Migration, MigrationStep } from "./migrations/migration";
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: string | null;  // null while pending
+  known: boolean;            // false for versions applied by newer code than this checkout
+}
+
+// Thrown when the migration list or the schema_migrations table is inconsistent
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MigrationError";
+  }
+}
+
+// Reverting the baseline drops every table and all of their data
+const BASELINE_VERSION = 1;
+
+// Arbitrary key for pg_advisory_lock, so two processes never migrate at the same time
+const MIGRATION_LOCK_KEY = 724019;
+
+function checkMigrations(migrations: Migration[]) {
+  migrations.forEach((migration, index) => {
+    if (!Number.isInteger(migration.version) || migration.version <= 0) {
+      throw new MigrationError(`Migration "${migration.name}" needs a positive integer version`);
+    }
+    if (index > 0 && migration.version <= migrations[index - 1].version) {
+      throw new MigrationError(`Migration ${migration.version} (${migration.name}) is out of order`);
+    }
+  });
+}
+
+async function appliedMigrations(client: pg.PoolClient): Promise<Map<number, { name: string; appliedAt: string }>> {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+  `);
+  const result = await client.query("SELECT version, name, applied_at FROM schema_migrations ORDER BY version");
+  const applied = new Map<number, { name: string; appliedAt: string }>();
+  for (const row of result.rows) {
+    applied.set(row.version, { name: row.name, appliedAt: new Date(row.applied_at).toISOString() });
+  }
+  return applied;
+}
+
+async function withMigrationLock<T>(pool: pg.Pool, work: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query("SELECT pg_advisory_lock($1)", [MIGRATION_LOCK_KEY]);
+    try {
+      return await work(client);
+    } finally {
+      await client.query("SELECT pg_advisory_unlock($1)", [MIGRATION_LOCK_KEY]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+// Runs one step and records the outcome in schema_migrations, all in one transaction
+async function runStep(client: pg.PoolClient, migration: Migration, direction: "up" | "down") {
+  const step: MigrationStep = migration[direction];
+  await client.query("BEGIN");
+  try {
+    if (typeof step === "string") {
+      await client.query(step);
+    } else {
+      await step(client);
+    }
+    if (direction === "up") {
+      await client.query("INSERT INTO schema_migrations (version, name) VALUES ($1, $2)", [migration.version, migration.name]);
+    } else {
+      await client.query("DELETE FROM schema_migrations WHERE version = $1", [migration.version]);
+    }
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  }
+}
+
+export async function getMigrationStatus(pool: pg.Pool, migrations: Migration[] = MIGRATIONS): Promise<MigrationStatus[]> {
+  checkMigrations(migrations);
+  const client = await pool.connect();
+  try {
+    const applied = await appliedMigrations(client);
+    const statuses: MigrationStatus[] = migrations.map(migration => ({
+      version: migration.version,
+      name: migration.name,
+      appliedAt: applied.get(migration.version)?.appliedAt || null,
+      known: true,
+    }));
+    applied.forEach((record, version) => {
+      if (!migrations.some(migration => migration.version === version)) {
+        statuses.push({ version, name: record.name, appliedAt: record.appliedAt, known: false });
+      }
+    });
+    return statuses.sort((a, b) => a.version - b.version);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Applies every pending migration up to and including `to` (default: all), oldest first.
+ * Returns the migrations that were applied.
+ */
+export async function migrateUp(
+  pool: pg.Pool,
+  options: { to?: number } = {},
+  migrations: Migration[] = MIGRATIONS
+): Promise<Migration[]> {
+  checkMigrations(migrations);
+  return withMigrationLock(pool, async client => {
+    const applied = await appliedMigrations(client);
+    const pending = migrations.filter(
+      migration => !applied.has(migration.version) && (options.to === undefined || migration.version <= options.to)
+    );
+    for (const migration of pending) {
+      safeLog("info", `⬆️ Applying migration ${migration.version} (${migration.name})`);
+      await runStep(client, migration, "up");
+    }
+    return pending;
+  });
+}
+
+/**
+ * Reverts the most recent migrations: the last `steps` (default 1), or every one above `to`.
+ * The baseline is only reverted with `allowDropBaseline`; otherwise nothing is reverted.
+ * Returns the migrations that were reverted, newest first.
+ */
+export async function migrateDown(
+  pool: pg.Pool,
+  options: { steps?: number; to?: number; allowDropBaseline?: boolean } = {},
+  migrations: Migration[] = MIGRATIONS
+): Promise<Migration[]> {
+  checkMigrations(migrations);
+  return withMigrationLock(pool, async client => {
+    const applied = Array.from((await appliedMigrations(client)).keys()).sort((a, b) => b - a);
+    const versions = options.to !== undefined
+      ? applied.filter(version => version > (options.to as number))
+      : applied.slice(0, options.steps ?? 1);
+    if (versions.includes(BASELINE_VERSION) && !options.allowDropBaseline) {
+      throw new MigrationError(
+        `Reverting migration ${BASELINE_VERSION} (baseline) drops every table and all data; pass --allow-drop-baseline to do it anyway`
+      );
+    }
+
+    const reverted: Migration[] = [];
+    for (const version of versions) {
+      const migration = migrations.find(candidate => candidate.version === version);
+      if (!migration) {
+        throw new MigrationError(`Migration ${version} was applied by a newer version of this code and cannot be reverted here`);
+      }
+      safeLog("info", `⬇️ Reverting migration ${migration.version} (${migration.name})`);
+      await runStep(client, migration, "down");
+      reverted.push(migration);
+    }
+    return reverted;
+  });
+}
@@ -0,0 +1,303 @@
+// lib/migrations/001-baseline.ts
+import { Migration } from "./migration";
+import { safeLog } from "../logger";
+
+/**
+ * The schema as initializeDatabase last created it. Every statement tolerates existing objects,
+ * so databases set up before migrations existed adopt this version without changes.
+ */
+export const baseline: Migration = {
+  version: 1,
+  name: "baseline",
+  async up(client) {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS videos (
+        video_id VARCHAR(255) PRIMARY KEY,
+        search_name TEXT NOT NULL,
+        title TEXT NOT NULL,
+        description TEXT,
+        published_date TIMESTAMP,
+        duration_seconds INTEGER,
+        url TEXT NOT NULL,
+        channel_name TEXT NOT NULL
+      );
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS transcripts (
+        video_id VARCHAR(255) PRIMARY KEY,
+        full_transcript TEXT NOT NULL,
+        language VARCHAR(255) NOT NULL,
+        FOREIGN KEY (video_id) REFERENCES videos(video_id) ON DELETE CASCADE
+      );
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS transcript_segments (
+        video_id VARCHAR(255) NOT NULL,
+        seq INTEGER NOT NULL,
+        start_ms INTEGER NOT NULL,
+        duration_ms INTEGER NOT NULL,
+        text TEXT NOT NULL,
+        PRIMARY KEY (video_id, seq),
+        FOREIGN KEY (video_id) REFERENCES transcripts(video_id) ON DELETE CASCADE
+      );
+      CREATE INDEX IF NOT EXISTS transcript_segments_start_idx ON transcript_segments (video_id, start_ms);
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS analysis (
+        video_id VARCHAR(255) PRIMARY KEY,
+        video_type TEXT,
+        name TEXT,
+        age TEXT,
+        sex TEXT,
+        location TEXT,
+        symptoms JSONB,
+        medical_history_of_patient JSONB,
+        family_medical_history JSONB,
+        challenges_faced_during_diagnosis JSONB,
+        key_opinion TEXT,
+        prompt_version TEXT,
+        llm_model TEXT,
+        evidence JSONB,
+        FOREIGN KEY (video_id) REFERENCES videos(video_id) ON DELETE CASCADE
+      );
+    `);
+
+    // Every extraction is kept; the analysis row holds the current (accepted) one
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS analysis_versions (
+        version_id SERIAL PRIMARY KEY,
+        video_id VARCHAR(255) NOT NULL,
+        llm_model TEXT,
+        prompt_name TEXT,
+        prompt_version TEXT,
+        raw_response TEXT,
+        result JSONB NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        FOREIGN KEY (video_id) REFERENCES videos(video_id) ON DELETE CASCADE
+      );
+      CREATE INDEX IF NOT EXISTS analysis_versions_video_idx ON analysis_versions (video_id, created_at);
+    `);
+
+    // Columns added after the first release; existing deployments need them explicitly
+    await client.query(`
+      ALTER TABLE analysis ADD COLUMN IF NOT EXISTS prompt_version TEXT;
+      ALTER TABLE analysis ADD COLUMN IF NOT EXISTS llm_model TEXT;
+      ALTER TABLE analysis ADD COLUMN IF NOT EXISTS evidence JSONB;
+      ALTER TABLE analysis ADD COLUMN IF NOT EXISTS review_status TEXT NOT NULL DEFAULT 'unreviewed';
+      ALTER TABLE analysis ADD COLUMN IF NOT EXISTS reviewed_by TEXT;
+      ALTER TABLE analysis ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP;
+      ALTER TABLE analysis ADD COLUMN IF NOT EXISTS review_note TEXT;
+      ALTER TABLE analysis ADD COLUMN IF NOT EXISTS current_version_id INTEGER
+        REFERENCES analysis_versions(version_id) ON DELETE SET NULL;
+      ALTER TABLE analysis ADD COLUMN IF NOT EXISTS prompt_name TEXT;
+      ALTER TABLE analysis ADD COLUMN IF NOT EXISTS custom_fields JSONB;
+      ALTER TABLE analysis ADD COLUMN IF NOT EXISTS video_labels JSONB;
+      ALTER TABLE analysis ADD COLUMN IF NOT EXISTS video_type_confidence REAL;
+      ALTER TABLE analysis ADD COLUMN IF NOT EXISTS video_type_rationale TEXT;
+      CREATE INDEX IF NOT EXISTS analysis_video_labels_idx ON analysis USING GIN (video_labels);
+      ALTER TABLE analysis_versions ADD COLUMN IF NOT EXISTS prompt_name TEXT;
+    `);
+
+    // Analyses stored before versioning become the first version of their video
+    await client.query(`
+      WITH backfilled AS (
+        INSERT INTO analysis_versions (video_id, llm_model, prompt_version, result)
+        SELECT video_id, llm_model, prompt_version, jsonb_build_object(
+          'video_type', video_type,
+          'name', name,
+          'age', age,
+          'sex', sex,
+          'location', location,
+          'symptoms', symptoms,
+          'medical_history_of_patient', medical_history_of_patient,
+          'family_medical_history', family_medical_history,
+          'challenges_faced_during_diagnosis', challenges_faced_during_diagnosis,
+          'key_opinion', key_opinion,
+          'evidence', evidence
+        )
+        FROM analysis
+        WHERE current_version_id IS NULL
+        RETURNING version_id, video_id
+      )
+      UPDATE analysis a SET current_version_id = b.version_id
+      FROM backfilled b
+      WHERE a.video_id = b.video_id;
+    `);
+
+    // Full-text search over whole transcripts and over individual caption segments
+    await client.query(`
+      ALTER TABLE transcripts ADD COLUMN IF NOT EXISTS search_vector tsvector
+        GENERATED ALWAYS AS (to_tsvector('english', full_transcript)) STORED;
+      ALTER TABLE transcript_segments ADD COLUMN IF NOT EXISTS search_vector tsvector
+        GENERATED ALWAYS AS (to_tsvector('english', text)) STORED;
+      CREATE INDEX IF NOT EXISTS transcripts_search_idx ON transcripts USING GIN (search_vector);
+      CREATE INDEX IF NOT EXISTS transcript_segments_search_idx ON transcript_segments USING GIN (search_vector);
+    `);
+
+    // Semantic search needs the pgvector extension; without it the rest of the schema still works.
+    // The vector column has no fixed dimension because each embedding model produces its own size.
+    // A failed statement aborts the whole migration's transaction unless it is rolled back on its own.
+    await client.query("SAVEPOINT pgvector");
+    try {
+      await client.query(`
+        CREATE EXTENSION IF NOT EXISTS vector;
+        CREATE TABLE IF NOT EXISTS transcript_embeddings (
+          video_id VARCHAR(255) NOT NULL,
+          model TEXT NOT NULL,
+          chunk_index INTEGER NOT NULL,
+          start_ms INTEGER,
+          content TEXT NOT NULL,
+          embedding vector NOT NULL,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          PRIMARY KEY (video_id, model, chunk_index),
+          FOREIGN KEY (video_id) REFERENCES transcripts(video_id) ON DELETE CASCADE
+        );
+      `);
+      await client.query("RELEASE SAVEPOINT pgvector");
+    } catch (error: any) {
+      await client.query("ROLLBACK TO SAVEPOINT pgvector");
+      safeLog("warn", `⚠️ pgvector is not available, semantic search is disabled: ${error.message}`);
+    }
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS analysis_symptoms (
+        video_id VARCHAR(255) NOT NULL,
+        seq INTEGER NOT NULL,
+        raw_phrase TEXT NOT NULL,
+        canonical_code TEXT,
+        canonical_term TEXT,
+        match_type TEXT,
+        vocabulary TEXT,
+        PRIMARY KEY (video_id, seq),
+        FOREIGN KEY (video_id) REFERENCES analysis(video_id) ON DELETE CASCADE
+      );
+      CREATE INDEX IF NOT EXISTS analysis_symptoms_code_idx ON analysis_symptoms (canonical_code);
+    `);
+
+    // Reviewer corrections are kept beside the LLM output instead of overwriting it
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS analysis_overrides (
+        video_id VARCHAR(255) NOT NULL,
+        field TEXT NOT NULL,
+        value JSONB,
+        reviewer TEXT NOT NULL,
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (video_id, field),
+        FOREIGN KEY (video_id) REFERENCES analysis(video_id) ON DELETE CASCADE
+      );
+    `);
+
+    // The analysis as reports should see it: overrides applied, rejected records left out
+    await client.query(`
+      CREATE OR REPLACE VIEW analysis_reviewed AS
+      SELECT a.video_id,
+        CASE WHEN o.fields ? 'video_type' THEN o.fields->>'video_type' ELSE a.video_type END AS video_type,
+        CASE WHEN o.fields ? 'name' THEN o.fields->>'name' ELSE a.name END AS name,
+        CASE WHEN o.fields ? 'age' THEN o.fields->>'age' ELSE a.age END AS age,
+        CASE WHEN o.fields ? 'sex' THEN o.fields->>'sex' ELSE a.sex END AS sex,
+        CASE WHEN o.fields ? 'location' THEN o.fields->>'location' ELSE a.location END AS location,
+        CASE WHEN o.fields ? 'symptoms' THEN o.fields->'symptoms' ELSE a.symptoms END AS symptoms,
+        CASE WHEN o.fields ? 'medical_history_of_patient'
+          THEN o.fields->'medical_history_of_patient' ELSE a.medical_history_of_patient END AS medical_history_of_patient,
+        CASE WHEN o.fields ? 'family_medical_history'
+          THEN o.fields->'family_medical_history' ELSE a.family_medical_history END AS family_medical_history,
+        CASE WHEN o.fields ? 'challenges_faced_during_diagnosis'
+          THEN o.fields->'challenges_faced_during_diagnosis' ELSE a.challenges_faced_during_diagnosis END AS challenges_faced_during_diagnosis,
+        CASE WHEN o.fields ? 'key_opinion' THEN o.fields->>'key_opinion' ELSE a.key_opinion END AS key_opinion,
+        a.prompt_version,
+        a.llm_model,
+        a.evidence,
+        a.review_status,
+        a.reviewed_by,
+        a.reviewed_at,
+        a.custom_fields,
+        a.video_labels,
+        a.video_type_confidence,
+        a.video_type_rationale
+      FROM analysis a
+      LEFT JOIN LATERAL (
+        SELECT jsonb_object_agg(field, value) AS fields FROM analysis_overrides WHERE video_id = a.video_id
+      ) o ON true
+      WHERE a.review_status <> 'rejected';
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS SearchConfig (
+        param_id SERIAL PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        search_phrase TEXT NOT NULL,
+        search_name TEXT NOT NULL UNIQUE,
+        creation_date TIMESTAMP NOT NULL
+      );
+      ALTER TABLE SearchConfig ADD COLUMN IF NOT EXISTS prompt_template TEXT;
+      ALTER TABLE SearchConfig ADD COLUMN IF NOT EXISTS custom_field_schema JSONB;
+    `);
+
+    // A video can be found by several searches; videos.search_name only records the first one
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS video_searches (
+        video_id VARCHAR(255) NOT NULL,
+        param_id INTEGER NOT NULL,
+        first_seen TIMESTAMP NOT NULL DEFAULT NOW(),
+        last_seen TIMESTAMP NOT NULL DEFAULT NOW(),
+        rank INTEGER,
+        PRIMARY KEY (video_id, param_id),
+        FOREIGN KEY (video_id) REFERENCES videos(video_id) ON DELETE CASCADE,
+        FOREIGN KEY (param_id) REFERENCES SearchConfig(param_id) ON DELETE CASCADE
+      );
+      CREATE INDEX IF NOT EXISTS video_searches_param_idx ON video_searches (param_id);
+    `);
+
+    // Videos stored before the join table are linked to the search recorded on them. Their rank
+    // is unknown, and the search config's date is the best guess at when they were seen.
+    await client.query(`
+      INSERT INTO SearchConfig (user_id, search_phrase, search_name, creation_date)
+      SELECT DISTINCT 'unknown', v.search_name, v.search_name, NOW()
+      FROM videos v
+      WHERE NOT EXISTS (SELECT 1 FROM video_searches vs WHERE vs.video_id = v.video_id)
+      ON CONFLICT (search_name) DO NOTHING;
+
+      INSERT INTO video_searches (video_id, param_id, first_seen, last_seen)
+      SELECT v.video_id, sc.param_id, sc.creation_date, sc.creation_date
+      FROM videos v
+      JOIN SearchConfig sc ON sc.search_name = v.search_name
+      WHERE NOT EXISTS (SELECT 1 FROM video_searches vs WHERE vs.video_id = v.video_id)
+      ON CONFLICT DO NOTHING;
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS pipeline_runs (
+        run_id SERIAL PRIMARY KEY,
+        command TEXT NOT NULL,
+        search_name TEXT,
+        options JSONB,
+        status TEXT NOT NULL DEFAULT 'running',
+        started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        finished_at TIMESTAMP
+      );
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS pipeline_items (
+        run_id INTEGER NOT NULL,
+        video_id VARCHAR(255) NOT NULL,
+        state TEXT NOT NULL DEFAULT 'pending',
+        failed_stage TEXT,
+        error TEXT,
+        data JSONB NOT NULL DEFAULT '{}'::jsonb,
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (run_id, video_id),
+        FOREIGN KEY (run_id) REFERENCES pipeline_runs(run_id) ON DELETE CASCADE
+      );
+    `);
+  },
+  // Drops everything, data included
+  down: `
+    DROP VIEW IF EXISTS analysis_reviewed;
+    DROP TABLE IF EXISTS pipeline_items, pipeline_runs, video_searches, analysis_overrides, analysis_symptoms,
+      transcript_embeddings, analysis, analysis_versions, transcript_segments, transcripts, videos, SearchConfig;
+  `,
+};
@@ -0,0 +1,18 @@
+// lib/migrations/002-search-indexes.ts
+import { Migration } from "./migration";
+
+// Per-search listings filter and sort on these columns
+export const searchIndexes: Migration = {
+  version: 2,
+  name: "search_indexes",
+  up: `
+    CREATE INDEX IF NOT EXISTS videos_search_name_idx ON videos (search_name);
+    CREATE INDEX IF NOT EXISTS videos_published_date_idx ON videos (published_date);
+    CREATE INDEX IF NOT EXISTS analysis_video_type_idx ON analysis (video_type);
+  `,
+  down: `
+    DROP INDEX IF EXISTS videos_search_name_idx;
+    DROP INDEX IF EXISTS videos_published_date_idx;
+    DROP INDEX IF EXISTS analysis_video_type_idx;
+  `,
+};
@@ -0,0 +1,35 @@
+// lib/migrations/003-search-schedules.ts
+import { Migration } from "./migration";
+
+// Recurring refreshes: a cron expression and fetch watermark per search, and one row per scheduled run
+export const searchSchedules: Migration = {
+  version: 3,
+  name: "search_schedules",
+  up: `
+    ALTER TABLE SearchConfig ADD COLUMN IF NOT EXISTS schedule TEXT;
+    ALTER TABLE SearchConfig ADD COLUMN IF NOT EXISTS last_fetched_at TIMESTAMP;
+
+    CREATE TABLE IF NOT EXISTS scheduled_runs (
+      scheduled_run_id SERIAL PRIMARY KEY,
+      param_id INTEGER NOT NULL,
+      run_id INTEGER,
+      status TEXT NOT NULL DEFAULT 'running',
+      window_start TIMESTAMP,
+      window_end TIMESTAMP NOT NULL,
+      videos INTEGER,
+      transcripts INTEGER,
+      analyses INTEGER,
+      error TEXT,
+      started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      finished_at TIMESTAMP,
+      FOREIGN KEY (param_id) REFERENCES SearchConfig(param_id) ON DELETE CASCADE,
+      FOREIGN KEY (run_id) REFERENCES pipeline_runs(run_id) ON DELETE SET NULL
+    );
+    CREATE INDEX IF NOT EXISTS scheduled_runs_param_idx ON scheduled_runs (param_id, started_at);
+  `,
+  down: `
+    DROP TABLE IF EXISTS scheduled_runs;
+    ALTER TABLE SearchConfig DROP COLUMN IF EXISTS last_fetched_at;
+    ALTER TABLE SearchConfig DROP COLUMN IF EXISTS schedule;
+  `,
+};
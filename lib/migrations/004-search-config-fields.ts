@@ -0,0 +1,35 @@
+// lib/migrations/004-search-config-fields.ts
+import { Migration } from "./migration";
+
+// Search settings edited through /api/search-configs and bin/database-manager.ts. search_phrase
+// stays as the first of search_phrases for the code and views that read a single phrase.
+export const searchConfigFields: Migration = {
+  version: 4,
+  name: "search_config_fields",
+  up: `
+    ALTER TABLE SearchConfig ADD COLUMN IF NOT EXISTS search_phrases JSONB;
+    UPDATE SearchConfig SET search_phrases = jsonb_build_array(search_phrase) WHERE search_phrases IS NULL;
+    ALTER TABLE SearchConfig ALTER COLUMN search_phrases SET NOT NULL;
+
+    ALTER TABLE SearchConfig ADD COLUMN IF NOT EXISTS language TEXT;
+    ALTER TABLE SearchConfig ADD COLUMN IF NOT EXISTS region TEXT;
+    ALTER TABLE SearchConfig ADD COLUMN IF NOT EXISTS start_date DATE;
+    ALTER TABLE SearchConfig ADD COLUMN IF NOT EXISTS end_date DATE;
+    ALTER TABLE SearchConfig ADD COLUMN IF NOT EXISTS max_results INTEGER;
+    ALTER TABLE SearchConfig ADD COLUMN IF NOT EXISTS exclude_keywords JSONB NOT NULL DEFAULT '[]'::jsonb;
+    ALTER TABLE SearchConfig ADD COLUMN IF NOT EXISTS paused BOOLEAN NOT NULL DEFAULT false;
+    ALTER TABLE SearchConfig ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP;
+  `,
+  down: `
+    ALTER TABLE SearchConfig
+      DROP COLUMN IF EXISTS search_phrases,
+      DROP COLUMN IF EXISTS language,
+      DROP COLUMN IF EXISTS region,
+      DROP COLUMN IF EXISTS start_date,
+      DROP COLUMN IF EXISTS end_date,
+      DROP COLUMN IF EXISTS max_results,
+      DROP COLUMN IF EXISTS exclude_keywords,
+      DROP COLUMN IF EXISTS paused,
+      DROP COLUMN IF EXISTS updated_at;
+  `,
+};
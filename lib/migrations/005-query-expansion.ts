@@ -0,0 +1,23 @@
+// lib/migrations/005-query-expansion.ts
+import { Migration } from "./migration";
+
+// A search can be expanded from a disease name, its synonyms and keywords into several YouTube
+// queries; each video link records which of them found the video.
+export const queryExpansion: Migration = {
+  version: 5,
+  name: "query_expansion",
+  up: `
+    ALTER TABLE SearchConfig ADD COLUMN IF NOT EXISTS disease_name TEXT;
+    ALTER TABLE SearchConfig ADD COLUMN IF NOT EXISTS synonyms JSONB NOT NULL DEFAULT '[]'::jsonb;
+    ALTER TABLE SearchConfig ADD COLUMN IF NOT EXISTS keywords JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+    ALTER TABLE video_searches ADD COLUMN IF NOT EXISTS matched_queries JSONB NOT NULL DEFAULT '[]'::jsonb;
+  `,
+  down: `
+    ALTER TABLE video_searches DROP COLUMN IF EXISTS matched_queries;
+    ALTER TABLE SearchConfig
+      DROP COLUMN IF EXISTS disease_name,
+      DROP COLUMN IF EXISTS synonyms,
+      DROP COLUMN IF EXISTS keywords;
+  `,
+};
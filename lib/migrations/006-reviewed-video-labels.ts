@@ -0,0 +1,88 @@
+// lib/migrations/006-reviewed-video-labels.ts
+import { Migration } from "./migration";
+
+// video_labels can be corrected in review; without a correction of its own, a corrected video_type
+// is swapped in for the original primary type, so reports never count a label the reviewer overruled.
+export const reviewedVideoLabels: Migration = {
+  version: 6,
+  name: "reviewed_video_labels",
+  up: `
+    CREATE OR REPLACE VIEW analysis_reviewed AS
+    SELECT a.video_id,
+      CASE WHEN o.fields ? 'video_type' THEN o.fields->>'video_type' ELSE a.video_type END AS video_type,
+      CASE WHEN o.fields ? 'name' THEN o.fields->>'name' ELSE a.name END AS name,
+      CASE WHEN o.fields ? 'age' THEN o.fields->>'age' ELSE a.age END AS age,
+      CASE WHEN o.fields ? 'sex' THEN o.fields->>'sex' ELSE a.sex END AS sex,
+      CASE WHEN o.fields ? 'location' THEN o.fields->>'location' ELSE a.location END AS location,
+      CASE WHEN o.fields ? 'symptoms' THEN o.fields->'symptoms' ELSE a.symptoms END AS symptoms,
+      CASE WHEN o.fields ? 'medical_history_of_patient'
+        THEN o.fields->'medical_history_of_patient' ELSE a.medical_history_of_patient END AS medical_history_of_patient,
+      CASE WHEN o.fields ? 'family_medical_history'
+        THEN o.fields->'family_medical_history' ELSE a.family_medical_history END AS family_medical_history,
+      CASE WHEN o.fields ? 'challenges_faced_during_diagnosis'
+        THEN o.fields->'challenges_faced_during_diagnosis' ELSE a.challenges_faced_during_diagnosis END AS challenges_faced_during_diagnosis,
+      CASE WHEN o.fields ? 'key_opinion' THEN o.fields->>'key_opinion' ELSE a.key_opinion END AS key_opinion,
+      a.prompt_version,
+      a.llm_model,
+      a.evidence,
+      a.review_status,
+      a.reviewed_by,
+      a.reviewed_at,
+      a.custom_fields,
+      CASE
+        WHEN o.fields ? 'video_labels' THEN o.fields->'video_labels'
+        -- A corrected type replaces the LLM's primary type among its labels
+        WHEN o.fields ? 'video_type' THEN (
+          SELECT jsonb_agg(label ORDER BY position)
+          FROM (
+            SELECT o.fields->>'video_type' AS label, 0::bigint AS position
+            WHERE COALESCE(o.fields->>'video_type', 'unknown') <> 'unknown'
+            UNION ALL
+            SELECT l.label, l.position
+            FROM jsonb_array_elements_text(COALESCE(a.video_labels, '[]'::jsonb)) WITH ORDINALITY AS l(label, position)
+            WHERE l.label IS DISTINCT FROM a.video_type AND l.label IS DISTINCT FROM o.fields->>'video_type'
+          ) labels
+        )
+        ELSE a.video_labels
+      END AS video_labels,
+      a.video_type_confidence,
+      a.video_type_rationale
+    FROM analysis a
+    LEFT JOIN LATERAL (
+      SELECT jsonb_object_agg(field, value) AS fields FROM analysis_overrides WHERE video_id = a.video_id
+    ) o ON true
+    WHERE a.review_status <> 'rejected';
+  `,
+  down: `
+    CREATE OR REPLACE VIEW analysis_reviewed AS
+    SELECT a.video_id,
+      CASE WHEN o.fields ? 'video_type' THEN o.fields->>'video_type' ELSE a.video_type END AS video_type,
+      CASE WHEN o.fields ? 'name' THEN o.fields->>'name' ELSE a.name END AS name,
+      CASE WHEN o.fields ? 'age' THEN o.fields->>'age' ELSE a.age END AS age,
+      CASE WHEN o.fields ? 'sex' THEN o.fields->>'sex' ELSE a.sex END AS sex,
+      CASE WHEN o.fields ? 'location' THEN o.fields->>'location' ELSE a.location END AS location,
+      CASE WHEN o.fields ? 'symptoms' THEN o.fields->'symptoms' ELSE a.symptoms END AS symptoms,
+      CASE WHEN o.fields ? 'medical_history_of_patient'
+        THEN o.fields->'medical_history_of_patient' ELSE a.medical_history_of_patient END AS medical_history_of_patient,
+      CASE WHEN o.fields ? 'family_medical_history'
+        THEN o.fields->'family_medical_history' ELSE a.family_medical_history END AS family_medical_history,
+      CASE WHEN o.fields ? 'challenges_faced_during_diagnosis'
+        THEN o.fields->'challenges_faced_during_diagnosis' ELSE a.challenges_faced_during_diagnosis END AS challenges_faced_during_diagnosis,
+      CASE WHEN o.fields ? 'key_opinion' THEN o.fields->>'key_opinion' ELSE a.key_opinion END AS key_opinion,
+      a.prompt_version,
+      a.llm_model,
+      a.evidence,
+      a.review_status,
+      a.reviewed_by,
+      a.reviewed_at,
+      a.custom_fields,
+      a.video_labels,
+      a.video_type_confidence,
+      a.video_type_rationale
+    FROM analysis a
+    LEFT JOIN LATERAL (
+      SELECT jsonb_object_agg(field, value) AS fields FROM analysis_overrides WHERE video_id = a.video_id
+    ) o ON true
+    WHERE a.review_status <> 'rejected';
+  `,
+};
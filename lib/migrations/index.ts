@@ -0,0 +1,11 @@
+// lib/migrations/index.ts
+import { Migration } from "./migration";
+import { baseline } from "./001-baseline";
+import { searchIndexes } from "./002-search-indexes";
+import { searchSchedules } from "./003-search-schedules";
+import { searchConfigFields } from "./004-search-config-fields";
+import { queryExpansion } from "./005-query-expansion";
+import { reviewedVideoLabels } from "./006-reviewed-video-labels";
+
+// Every migration, in the order they are applied. Add new ones at the end with the next version.
+export const MIGRATIONS: Migration[] = [baseline, searchIndexes, searchSchedules, searchConfigFields, queryExpansion, reviewedVideoLabels];
@@ -0,0 +1,13 @@
+// lib/migrations/migration.ts
+import pg from "pg";
+
+// SQL text, or a function for steps that need more than one statement's worth of logic
+export type MigrationStep = string | ((client: pg.PoolClient) => Promise<void>);
+
+// One numbered schema change. Each step runs in its own transaction.
+export interface Migration {
+  version: number;
+  name: string;
+  up: MigrationStep;
+  down: MigrationStep;
+}
@@ -1,27 +1,22 @@
 // lib/ollama.ts
-import myLama from "./MyLama";
+import myLama, { MyLama } from "./MyLama";
 import { safeLog } from "./logger";
-import * as yaml from "js-yaml";
-import * as fs from "fs";
-import path from "path";
-
-let DISEASE_SPACE_PROMPT: string;
-
-try {
-  const promptLibraryPath = path.join(process.cwd(), "prompt_library.yaml");
-  safeLog("error", `[DEBUG] Loading prompt from: ${promptLibraryPath}`);
-  const promptLibrary = yaml.load(fs.readFileSync(promptLibraryPath, "utf8")) as any;
-  DISEASE_SPACE_PROMPT = promptLibrary.disease_space.prompt;
-  if (!DISEASE_SPACE_PROMPT) {
-    throw new Error("disease_space.prompt not found in prompt_library.yaml");
-  }
-} catch (error) {
-  safeLog("error", "❌ Error loading prompt template:", error);
-  process.exit(1);
+import { parseAnalysisResponse, buildRepairPrompt, mergeAnalysisResults, ParsedAnalysis, EvidenceItem } from "./analysis-schema";
+import { getAnalysisPromptTemplate, renderPrompt, hashPrompt, PromptTemplate } from "./prompt-library";
+import { CustomFieldDefinition, CustomFieldValues, buildCustomFieldInstructions } from "./custom-fields";
+import { locateEvidence } from "./evidence";
+import { TimedSegment } from "./types";
+import { countTokens, chunkByTokens } from "./transcript-chunker";
+
+export function getLlmModel(): string {
+  return process.env.LLM_MODEL || "ollama";
 }
 
 export interface AnalysisResult {
   video_type: string;
+  video_labels: string[] | null;           // Every type that applies, the primary one included
+  video_type_confidence: number | null;    // 0-1, as judged by the model
+  video_type_rationale: string | null;
   name: string | null;
   age: string | null;
   sex: string | null;
@@ -31,57 +26,165 @@ export interface AnalysisResult {
   familyMedicalHistory: Record<string, any> | null;
   challengesFacedDuringDiagnosis: string[] | null;
   key_opinion: string | null;
+  evidence: EvidenceItem[] | null;  // Supporting quote and start time for each listed item
+  custom_fields?: CustomFieldValues | null;  // Values for the search config's custom field schema
+}
+
+export interface AnalysisOutcome {
+  result: AnalysisResult | null;
+  error: string | null;     // Final failure reason when result is null
+  attempts: number;         // LLM calls made, including repair attempts
+  chunks: number;           // Transcript pieces analyzed separately and merged
+  rawResponse: string | null;  // Model answer(s) the result was parsed from, one per chunk
+}
+
+// How many times a response that fails validation is sent back to the model for correction
+const DEFAULT_REPAIR_ATTEMPTS = parseInt(process.env.ANALYSIS_REPAIR_ATTEMPTS || "2", 10);
+// Tokens shared between consecutive chunks of a transcript that is too long for one prompt
+const CHUNK_OVERLAP_TOKENS = parseInt(process.env.TRANSCRIPT_CHUNK_OVERLAP_TOKENS || "200", 10);
+// Room left for the model's answer when the provider sets no max tokens
+const DEFAULT_RESPONSE_TOKENS = 1024;
+
+function buildAnalysisPrompt(
+  template: PromptTemplate,
+  title: string,
+  transcript: string,
+  customFields: CustomFieldDefinition[]
+): string {
+  return renderPrompt(template, { title, transcript }) + buildCustomFieldInstructions(customFields);
+}
+
+/**
+ * The prompt_version stored with an analysis: the template's hash, or with custom fields a hash of
+ * the template plus their instructions, so changing a search's custom fields makes its stored
+ * analyses out of date.
+ */
+export function getPromptVersion(template: PromptTemplate, customFields: CustomFieldDefinition[] = []): string {
+  if (customFields.length === 0) return template.hash;
+  return hashPrompt(template.prompt + buildCustomFieldInstructions(customFields));
 }
 
 export async function analyzeTranscript(videoId: string, transcript: string, title: string): Promise<AnalysisResult | null> {
+  const outcome = await analyzeTranscriptWithDetails(videoId, transcript, title);
+  return outcome.result;
+}
+
+export async function analyzeTranscriptWithDetails(
+  videoId: string,
+  transcript: string,
+  title: string,
+  options: {
+    repairAttempts?: number;
+    segments?: TimedSegment[];
+    model?: string;   // Model spec overriding LLM_MODEL, e.g. for comparing models in one process
+    promptTemplate?: string;  // Name of a prompt library template; PROMPT_TEMPLATE or disease_space by default
+    customFields?: CustomFieldDefinition[];  // Extra values to extract, from the search config
+  } = {}
+): Promise<AnalysisOutcome> {
   safeLog("error", `[DEBUG] Starting analysis for video ${videoId}...`);
+  const repairAttempts = options.repairAttempts ?? DEFAULT_REPAIR_ATTEMPTS;
+  const llm = options.model ? new MyLama(options.model) : myLama;
+  const template = getAnalysisPromptTemplate(options.promptTemplate);
+  const customFields = options.customFields || [];
+  const outcome: AnalysisOutcome = { result: null, error: null, attempts: 0, chunks: 0, rawResponse: null };
 
   try {
     if (!transcript || transcript.trim().length === 0) {
       safeLog("error", `❌ No valid transcript provided for video ${videoId}`);
-      return null;
+      outcome.error = "No valid transcript provided";
+      return outcome;
     }
     safeLog("error", `[DEBUG] Using provided transcript of length: ${transcript.length}`);
     safeLog("error", `[DEBUG] Transcript preview: ${transcript.slice(0, 100)}...`);
 
-    const structuredPrompt = DISEASE_SPACE_PROMPT
-      .replace("{title}", title)
-      .replace("{transcript}", transcript);
-    safeLog("error", `[DEBUG] Structured prompt: ${structuredPrompt.slice(0, 200)}...`);
+    const transcriptBudget = llm.contextTokens
+      - countTokens(buildAnalysisPrompt(template, title, "", customFields))
+      - (llm.maxOutputTokens || DEFAULT_RESPONSE_TOKENS);
+    if (transcriptBudget <= 0) {
+      outcome.error = `Context window of ${llm.contextTokens} tokens is too small for the prompt template`;
+      safeLog("error", `❌ ${outcome.error}`);
+      return outcome;
+    }
+
+    const chunks = chunkByTokens(transcript, transcriptBudget, CHUNK_OVERLAP_TOKENS);
+    outcome.chunks = chunks.length;
+    if (chunks.length > 1) {
+      safeLog("error", `[DEBUG] Transcript exceeds ${transcriptBudget} tokens; analyzing it in ${chunks.length} overlapping chunks`);
+    }
+
+    const results: ParsedAnalysis[] = [];
+    const rawResponses: string[] = [];
+    for (let i = 0; i < chunks.length; i++) {
+      const chunkTitle = chunks.length > 1 ? `${title} (part ${i + 1} of ${chunks.length})` : title;
+      const structuredPrompt = buildAnalysisPrompt(template, chunkTitle, chunks[i], customFields);
+      safeLog("error", `[DEBUG] Structured prompt: ${structuredPrompt.slice(0, 200)}...`);
+
+      const result = await runAnalysisPrompt(llm, template, customFields, videoId, structuredPrompt, repairAttempts, outcome);
+      if (result) {
+        results.push(result);
+        rawResponses.push(outcome.rawResponse as string);
+      } else if (chunks.length > 1) {
+        safeLog("error", `[ERROR] Chunk ${i + 1} of ${chunks.length} failed for video ${videoId}: ${outcome.error}`);
+      }
+    }
+
+    if (results.length === 0) {
+      safeLog("error", `❌ Giving up on video ${videoId} after ${outcome.attempts} attempts: ${outcome.error}`);
+      return outcome;
+    }
+
+    outcome.result = mergeAnalysisResults(results);
+    // Keep the answer behind every merged chunk, not only the last one
+    outcome.rawResponse = rawResponses.join("\n\n");
+    outcome.error = null;
+    if (outcome.result.evidence && options.segments) {
+      outcome.result.evidence = locateEvidence(outcome.result.evidence, options.segments, videoId);
+    }
+    if (chunks.length > 1) {
+      safeLog("error", "[DEBUG] Merged analysis:", JSON.stringify(outcome.result, null, 2));
+    }
+    return outcome;
+  } catch (error: any) {
+    safeLog("error", `❌ Error analyzing video ${videoId}:`, error);
+    outcome.error = error.message || String(error);
+    return outcome;
+  }
+}
+
+// Sends one prompt, re-prompting with the validation errors until the answer parses or attempts run out
+async function runAnalysisPrompt(
+  llm: MyLama,
+  template: PromptTemplate,
+  customFields: CustomFieldDefinition[],
+  videoId: string,
+  structuredPrompt: string,
+  repairAttempts: number,
+  outcome: AnalysisOutcome
+): Promise<ParsedAnalysis | null> {
+  let prompt = structuredPrompt;
+  for (let attempt = 0; attempt <= repairAttempts; attempt++) {
+    safeLog("error", `[DEBUG] Sending to LLM (attempt ${attempt + 1} of ${repairAttempts + 1})...`);
+    const content = await llm.generate(prompt);
+    outcome.attempts++;
+    outcome.rawResponse = content;
 
-    safeLog("error", "[DEBUG] Sending to LLM...");
-    const content = await myLama.generate(structuredPrompt);
     if (!content) {
+      outcome.error = "LLM returned an empty response";
       safeLog("error", `[ERROR] LLM returned empty response for video ${videoId}`);
-      return null;
+      prompt = structuredPrompt;
+      continue;
     }
     safeLog("error", "[DEBUG] Raw LLM response:", content);
 
-    const jsonMatch = content.match(/{[\s\S]*}/);
-    if (!jsonMatch) {
-      safeLog("error", `[ERROR] No JSON found in LLM response for video ${videoId}: ${content}`);
-      return null;
+    const parsed = parseAnalysisResponse(content, template.output.keys, customFields);
+    if (parsed.success) {
+      safeLog("error", "[DEBUG] Parsed JSON:", JSON.stringify(parsed.data, null, 2));
+      return parsed.data;
     }
 
-    const parsedData = JSON.parse(jsonMatch[0]);
-    safeLog("error", "[DEBUG] Parsed JSON:", JSON.stringify(parsedData, null, 2));
-
-    const analysisResult: AnalysisResult = {
-      video_type: parsedData.video_type || "Informational",
-      name: parsedData.name || null,
-      age: parsedData.age || null,
-      sex: parsedData.sex || null,
-      location: parsedData.location || null,
-      symptoms: Array.isArray(parsedData.symptoms) ? parsedData.symptoms : null,
-      medicalHistoryOfPatient: typeof parsedData.medicalHistoryOfPatient === "object" ? parsedData.medicalHistoryOfPatient : null,
-      familyMedicalHistory: typeof parsedData.familyMedicalHistory === "object" ? parsedData.familyMedicalHistory : null,
-      challengesFacedDuringDiagnosis: Array.isArray(parsedData.challengesFacedDuringDiagnosis) ? parsedData.challengesFacedDuringDiagnosis : null,
-      key_opinion: parsedData.key_opinion || null
-    };
-
-    return analysisResult;
-  } catch (error) {
-    safeLog("error", `❌ Error analyzing video ${videoId}:`, error);
-    return null;
+    outcome.error = parsed.error;
+    safeLog("error", `[ERROR] Invalid analysis for video ${videoId}: ${parsed.error}`);
+    prompt = buildRepairPrompt(content, parsed.error, template.output, customFields);
   }
-}
\ No newline at end of file
+  return null;
+}
@@ -0,0 +1,171 @@
+// lib/pipeline-runs.ts
+import {
+  initializeDatabase,
+  createPipelineRun,
+  getPipelineRun,
+  updatePipelineRunStatus,
+  addPipelineItems,
+  getPipelineItems,
+  updatePipelineItem,
+  PipelineItem,
+  PipelineItemState,
+} from "./database";
+import { VideoMetadata } from "./types";
+import { safeLog } from "./logger";
+
+export type CompletedItemState = "fetched" | "transcribed" | "analyzed";
+export type ItemStage = "fetch" | "transcripts" | "analyze";
+
+// Order in which a video moves through the pipeline; "failed" sits outside it
+const STATE_ORDER: PipelineItemState[] = ["pending", "fetched", "transcribed", "analyzed"];
+
+const STAGE_STATES: Record<ItemStage, CompletedItemState> = {
+  fetch: "fetched",
+  transcripts: "transcribed",
+  analyze: "analyzed",
+};
+
+export class PipelineRunTracker {
+  private items: Map<string, PipelineItem>;
+
+  private constructor(
+    readonly runId: number | null,
+    items: PipelineItem[] = [],
+    readonly runOptions: Record<string, any> = {}
+  ) {
+    this.items = new Map(items.map(item => [item.video_id, item]));
+  }
+
+  static async start(
+    command: string,
+    searchName: string | null,
+    options: Record<string, any>,
+    resumeRunId?: number
+  ): Promise<PipelineRunTracker> {
+    if (resumeRunId === undefined && !process.env.DATABASE_URL) {
+      safeLog("warn", "DATABASE_URL is not set; run tracking is disabled and this run cannot be resumed");
+      return new PipelineRunTracker(null);
+    }
+
+    await initializeDatabase();
+
+    if (resumeRunId !== undefined) {
+      const run = await getPipelineRun(resumeRunId);
+      if (!run) {
+        throw new Error(`Pipeline run ${resumeRunId} not found`);
+      }
+      // Another command's items carry different data (or none) for the stages this one reuses
+      if (run.command !== command || run.search_name !== searchName) {
+        throw new Error(
+          `Pipeline run ${resumeRunId} was started by ${run.command} for ${run.search_name === null ? "no search" : `"${run.search_name}"`}; ` +
+          `it cannot be resumed by ${command} for ${searchName === null ? "no search" : `"${searchName}"`}`
+        );
+      }
+      const items = await getPipelineItems(resumeRunId);
+      await updatePipelineRunStatus(resumeRunId, "running");
+      safeLog("info", `🔁 Resuming pipeline run ${resumeRunId} (${run.command}) with ${items.length} tracked videos`);
+      return new PipelineRunTracker(resumeRunId, items, run.options || {});
+    }
+
+    const runId = await createPipelineRun(command, searchName, options);
+    safeLog("info", `📝 Started pipeline run ${runId}; restart with --resume ${runId} to skip completed videos`);
+    return new PipelineRunTracker(runId, [], options);
+  }
+
+  get trackedVideoIds(): string[] {
+    return Array.from(this.items.keys());
+  }
+
+  isComplete(videoId: string, state: CompletedItemState): boolean {
+    const item = this.items.get(videoId);
+    if (!item) return false;
+    // A video that failed at a stage still keeps everything before that stage
+    const reached = item.state === "failed"
+      ? STATE_ORDER.indexOf(STAGE_STATES[item.failed_stage as ItemStage] || "fetched") - 1
+      : STATE_ORDER.indexOf(item.state);
+    return reached >= STATE_ORDER.indexOf(state);
+  }
+
+  getData(videoId: string): Record<string, any> {
+    return this.items.get(videoId)?.data || {};
+  }
+
+  /**
+   * Metadata of the videos this run has already fetched, or null when there are none or some were
+   * recorded without it (items a transcripts- or analyze-only run registered), so the caller fetches again.
+   */
+  fetchedMetadata(): VideoMetadata[] | null {
+    const fetchedIds = this.trackedVideoIds.filter(id => this.isComplete(id, "fetched"));
+    const videos = fetchedIds.map(id => this.getData(id).metadata as VideoMetadata | undefined);
+    if (videos.length === 0 || videos.some(video => !video || !video.id)) {
+      return null;
+    }
+    return videos as VideoMetadata[];
+  }
+
+  async register(videoIds: string[]) {
+    const newIds = videoIds.filter(videoId => !this.items.has(videoId));
+    const now = new Date();
+    for (const videoId of newIds) {
+      this.items.set(videoId, {
+        run_id: this.runId || 0,
+        video_id: videoId,
+        state: "pending",
+        failed_stage: null,
+        error: null,
+        data: {},
+        updated_at: now,
+      });
+    }
+    if (this.runId !== null && newIds.length > 0) {
+      await addPipelineItems(this.runId, newIds);
+    }
+  }
+
+  async complete(videoId: string, state: CompletedItemState, data: Record<string, any> = {}) {
+    const item = this.items.get(videoId);
+    this.items.set(videoId, {
+      run_id: this.runId || 0,
+      video_id: videoId,
+      state,
+      failed_stage: null,
+      error: null,
+      data: { ...(item?.data || {}), ...data },
+      updated_at: new Date(),
+    });
+    if (this.runId !== null) {
+      await updatePipelineItem(this.runId, videoId, state, { data });
+    }
+  }
+
+  async fail(videoId: string, stage: ItemStage, reason: string) {
+    const item = this.items.get(videoId);
+    this.items.set(videoId, {
+      run_id: this.runId || 0,
+      video_id: videoId,
+      state: "failed",
+      failed_stage: stage,
+      error: reason,
+      data: item?.data || {},
+      updated_at: new Date(),
+    });
+    if (this.runId !== null) {
+      await updatePipelineItem(this.runId, videoId, "failed", { failedStage: stage, error: reason });
+    }
+  }
+
+  async finish(status: "completed" | "failed") {
+    if (this.runId === null) return;
+    await updatePipelineRunStatus(this.runId, status);
+    const failed = Array.from(this.items.values()).filter(item => item.state === "failed").length;
+    safeLog("info", `📝 Pipeline run ${this.runId} ${status} (${this.items.size} videos, ${failed} failed)`);
+  }
+}
+
+export function parseRunId(value: string): number {
+  const runId = parseInt(value, 10);
+  if (isNaN(runId) || runId <= 0) {
+    throw new Error(`Invalid run id: ${value}`);
+  }
+  return runId;
+}
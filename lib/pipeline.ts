@@ -0,0 +1,284 @@
+// lib/pipeline.ts
+import { searchDiseaseVideos, getTranscript } from "./youtube";
+import { analyzeTranscriptWithDetails, AnalysisResult, getLlmModel, getPromptVersion } from "./ollama";
+import { getAnalysisPromptTemplate } from "./prompt-library";
+import {
+  initializeDatabase,
+  storeVideo,
+  storeTranscript,
+  storeAnalysis,
+  storeSearchConfig,
+  getVideosBySearchName,
+  getTranscriptsBySearchName,
+  getVideosWithCurrentAnalysis,
+  getSearchConfig,
+} from "./database";
+import { VideoMetadata, TimedSegment } from "./types";
+import { PipelineRunTracker } from "./pipeline-runs";
+import { normalizeSymptoms, NormalizedSymptom } from "./symptom-vocabulary";
+import { filterExcludedVideos } from "./search-configs";
+import { expandSearchQueries } from "./query-expansion";
+import { safeLog } from "./logger";
+
+export type PipelineStage = "fetch" | "transcripts" | "analyze" | "store";
+
+export const PIPELINE_STAGES: PipelineStage[] = ["fetch", "transcripts", "analyze", "store"];
+
+export interface PipelineOptions {
+  searchName: string;
+  searchPhrase?: string;  // Query sent to YouTube, defaults to the search config's expanded queries, then searchName
+  userId?: string;
+  stages?: PipelineStage[];
+  maxResults?: number;
+  startDate?: string;
+  endDate?: string;
+  resumeRunId?: number;  // Skip videos this run already took through a stage
+  force?: boolean;       // Re-analyze videos whose stored analysis used the same prompt and model
+  promptTemplate?: string;  // Prompt library template; defaults to the one stored with the search config
+}
+
+export interface PipelineTranscript {
+  videoId: string;
+  transcript: string;
+  language: string;
+  title: string;
+  segments?: TimedSegment[];
+}
+
+export interface PipelineAnalysis extends AnalysisResult {
+  videoId: string;
+  prompt_name: string;
+  prompt_version: string;
+  llm_model: string;
+  normalized_symptoms: NormalizedSymptom[];
+  raw_response: string | null;
+}
+
+export interface PipelineResult {
+  runId: number | null;
+  videos: VideoMetadata[];
+  transcripts: PipelineTranscript[];
+  analyses: PipelineAnalysis[];
+}
+
+export function parseStages(value: string): PipelineStage[] {
+  const requested = value.split(",").map(stage => stage.trim().toLowerCase()).filter(Boolean);
+  const invalid = requested.filter(stage => !PIPELINE_STAGES.includes(stage as PipelineStage));
+  if (invalid.length > 0) {
+    throw new Error(`Invalid stage(s): ${invalid.join(", ")}. Use ${PIPELINE_STAGES.join(", ")}.`);
+  }
+  // Always run stages in pipeline order, whatever order they were given in
+  return PIPELINE_STAGES.filter(stage => requested.includes(stage));
+}
+
+export function parseMaxResults(value: string): number {
+  const maxResults = Number(value);
+  if (!Number.isInteger(maxResults) || maxResults <= 0) {
+    throw new Error(`Invalid max results: ${value}. Use a positive whole number.`);
+  }
+  return maxResults;
+}
+
+export async function runPipeline(options: PipelineOptions): Promise<PipelineResult> {
+  const stages = options.stages || PIPELINE_STAGES;
+  const searchName = options.searchName;
+  const result: PipelineResult = { runId: null, videos: [], transcripts: [], analyses: [] };
+  // A --prompt that cannot analyze videos fails here rather than after the fetch has spent quota
+  if (stages.includes("analyze") && options.promptTemplate) {
+    getAnalysisPromptTemplate(options.promptTemplate);
+  }
+
+  // Stages that read earlier results from the database need the schema in place
+  const usesDatabase = stages.includes("store") ||
+    (stages.includes("transcripts") && !stages.includes("fetch")) ||
+    (stages.includes("analyze") && !stages.includes("transcripts"));
+  if (usesDatabase) {
+    await initializeDatabase();
+  }
+
+  const tracker = await PipelineRunTracker.start("pipeline", searchName, { ...options, stages }, options.resumeRunId);
+  result.runId = tracker.runId;
+
+  safeLog("info", `🚀 Running pipeline for "${searchName}" (stages: ${stages.join(", ")})`);
+
+  try {
+    await runStages(stages, options, tracker, result);
+  } catch (error) {
+    await tracker.finish("failed");
+    throw error;
+  }
+  await tracker.finish("completed");
+
+  safeLog(
+    "info",
+    `✅ Pipeline completed for "${searchName}": ${result.videos.length} videos, ${result.transcripts.length} transcripts, ${result.analyses.length} analyses`
+  );
+  return result;
+}
+
+async function runStages(
+  stages: PipelineStage[],
+  options: PipelineOptions,
+  tracker: PipelineRunTracker,
+  result: PipelineResult
+) {
+  const searchName = options.searchName;
+  // Loaded before anything is stored, so it is null only for a search the pipeline has never seen
+  const storedConfig = process.env.DATABASE_URL ? await getSearchConfig(searchName) : null;
+  const queries = options.searchPhrase
+    ? [options.searchPhrase]
+    : storedConfig
+      ? expandSearchQueries({
+          searchPhrases: storedConfig.search_phrases,
+          diseaseName: storedConfig.disease_name,
+          synonyms: storedConfig.synonyms,
+          keywords: storedConfig.keywords,
+        })
+      : [searchName];
+
+  // Existing configs are edited with bin/database-manager.ts or /api/search-configs, not overwritten here;
+  // a new one is stored first because storeVideo links each video to it
+  if (stages.includes("store") && (!storedConfig || storedConfig.user_id === "unknown")) {
+    await storeSearchConfig({
+      user_id: options.userId || "default_user",
+      search_phrase: queries[0],
+      search_name: searchName,
+      prompt_template: options.promptTemplate,
+    });
+    safeLog("info", `✅ Stored SearchConfig for search_name ${searchName}`);
+  }
+
+  if (stages.includes("fetch")) {
+    const fetched = tracker.fetchedMetadata();
+    if (fetched) {
+      // The search already completed in the resumed run; reuse its results instead of spending quota again
+      result.videos = fetched;
+      safeLog("info", `✅ Reusing ${result.videos.length} videos fetched by run ${tracker.runId}`);
+    } else {
+      // Results come back merged in query order, each video listing the queries that found it
+      const found = await searchDiseaseVideos(queries, {
+        maxResults: options.maxResults ?? storedConfig?.max_results ?? undefined,
+        startDate: options.startDate || storedConfig?.start_date || undefined,
+        endDate: options.endDate || storedConfig?.end_date || undefined,
+        language: storedConfig?.language || undefined,
+        region: storedConfig?.region || undefined,
+      });
+      const kept = filterExcludedVideos(found, storedConfig?.exclude_keywords);
+      if (kept.length < found.length) {
+        safeLog("info", `Dropped ${found.length - kept.length} videos mentioning an excluded keyword`);
+      }
+      result.videos = kept.map(video => ({ ...video, search_name: searchName }));
+      await tracker.register(result.videos.map(video => video.id));
+      for (const video of result.videos) {
+        await tracker.complete(video.id, "fetched", { metadata: video });
+      }
+      safeLog("info", `✅ Found ${result.videos.length} videos for ${queries.map(query => `"${query}"`).join(", ")}`);
+    }
+
+    if (stages.includes("store")) {
+      // result.videos keeps YouTube's result order, which is recorded as each video's rank
+      for (let i = 0; i < result.videos.length; i++) {
+        await storeVideo({ ...result.videos[i], search_name: searchName }, i + 1);
+      }
+      safeLog("info", `✅ Stored metadata for ${result.videos.length} videos`);
+    }
+  }
+
+  if (stages.includes("transcripts")) {
+    const videos = stages.includes("fetch") ? result.videos : await getVideosBySearchName(searchName);
+    await tracker.register(videos.map(video => video.id));
+    let completed = 0;
+
+    for (const video of videos) {
+      const tracked = tracker.getData(video.id).transcript;
+      const reused = tracker.isComplete(video.id, "transcribed") && Boolean(tracked);
+      const transcriptData: { transcript: string; language: string; segments?: TimedSegment[] } | null = reused
+        ? tracked
+        : await getTranscript(video.id);
+      completed++;
+      if (!transcriptData) {
+        safeLog("warn", `No transcript available for video ${video.id} (${completed}/${videos.length})`);
+        await tracker.fail(video.id, "transcripts", "No transcript available");
+        continue;
+      }
+      if (!reused) {
+        await tracker.complete(video.id, "transcribed", { transcript: transcriptData });
+      }
+
+      const transcript: PipelineTranscript = {
+        videoId: video.id,
+        transcript: transcriptData.transcript,
+        language: transcriptData.language,
+        title: video.title,
+        segments: transcriptData.segments,
+      };
+      result.transcripts.push(transcript);
+
+      if (stages.includes("store")) {
+        await storeTranscript(transcript.videoId, transcript.transcript, transcript.language, transcript.segments);
+      }
+      safeLog("info", `${completed}/${videos.length} fetched`);
+    }
+    safeLog("info", `✅ Fetched ${result.transcripts.length} transcripts`);
+  }
+
+  if (stages.includes("analyze")) {
+    let transcripts: PipelineTranscript[] = stages.includes("transcripts")
+      ? result.transcripts
+      : (await getTranscriptsBySearchName(searchName)).filter(item => item.transcript !== "NOT AVAILABLE");
+    const llmModel = getLlmModel();
+    const template = getAnalysisPromptTemplate(options.promptTemplate || storedConfig?.prompt_template);
+    const customFields = storedConfig?.custom_field_schema || [];
+    const promptVersion = getPromptVersion(template, customFields);
+    safeLog("info", `Analyzing with prompt template "${template.name}" (${promptVersion})`);
+    if (customFields.length > 0) {
+      safeLog("info", `Extracting custom fields: ${customFields.map(field => field.name).join(", ")}`);
+    }
+
+    if (!options.force && process.env.DATABASE_URL) {
+      const upToDate = await getVideosWithCurrentAnalysis(transcripts.map(item => item.videoId), promptVersion, llmModel);
+      transcripts = transcripts.filter(item => !upToDate.has(item.videoId));
+      safeLog("info", `Skipping ${upToDate.size} videos already analyzed with prompt ${promptVersion} and model ${llmModel}`);
+    }
+    await tracker.register(transcripts.map(item => item.videoId));
+
+    for (const { videoId, transcript, title, segments } of transcripts) {
+      const tracked = tracker.getData(videoId).analysis;
+      const reused = tracker.isComplete(videoId, "analyzed") && Boolean(tracked);
+      if (reused) {
+        safeLog("info", `⏭️ Skipping ${videoId}; already analyzed in run ${tracker.runId}`);
+      }
+
+      const outcome = reused
+        ? { result: tracked as AnalysisResult, error: null, rawResponse: (tracked as PipelineAnalysis).raw_response ?? null }
+        : await analyzeTranscriptWithDetails(videoId, transcript, title || `Video ${videoId}`, {
+            segments,
+            promptTemplate: template.name,
+            customFields,
+          });
+      const analysisResult = outcome.result;
+      if (!analysisResult) {
+        safeLog("warn", `⚠️ No analysis result for ${videoId}: ${outcome.error}`);
+        await tracker.fail(videoId, "analyze", outcome.error || "No analysis result");
+        continue;
+      }
+      const analysis = {
+        prompt_name: template.name,
+        prompt_version: promptVersion,
+        llm_model: llmModel,
+        ...analysisResult,
+        normalized_symptoms: normalizeSymptoms(analysisResult.symptoms),
+        raw_response: outcome.rawResponse,
+      };
+      if (!reused) {
+        await tracker.complete(videoId, "analyzed", { analysis });
+      }
+
+      result.analyses.push({ videoId, ...analysis });
+      if (stages.includes("store")) {
+        await storeAnalysis(videoId, analysis);
+      }
+      safeLog("info", `✅ Analysis completed for ${videoId}`);
+    }
+  }
+}
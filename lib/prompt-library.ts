@@ -0,0 +1,205 @@
+// lib/prompt-library.ts
+import * as yaml from "js-yaml";
+import * as fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+
+export const DEFAULT_PROMPT_TEMPLATE = "disease_space";
+
+// The only values an analysis fills in; templates that need others (e.g. search_terms) are not analysis prompts
+export const ANALYSIS_INPUT_VARIABLES = ["title", "transcript"];
+
+export interface PromptInputVariable {
+  name: string;
+  type: string;
+  description: string | null;
+  required: boolean;
+}
+
+export interface PromptOutputSpec {
+  type: string;
+  description: string | null;
+  keys: string[] | null;     // Keys every response must contain; null leaves it to the analysis schema
+  constraints: string[];     // Repeated to the model when a response has to be repaired
+}
+
+export interface PromptTemplate {
+  name: string;
+  version: string | null;    // Declared in the library, for people; edits are tracked by hash
+  hash: string;              // Stored as prompt_version with every analysis that has no custom fields
+  description: string | null;
+  prompt: string;
+  inputVariables: PromptInputVariable[];
+  output: PromptOutputSpec;
+}
+
+// Thrown for a library file that cannot be used or a template that cannot be rendered
+export class PromptLibraryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PromptLibraryError";
+  }
+}
+
+const PLACEHOLDER_PATTERN = /\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+const libraries = new Map<string, Map<string, PromptTemplate>>();
+
+// Short hash identifying a prompt text
+export function hashPrompt(prompt: string): string {
+  return createHash("sha256").update(prompt).digest("hex").slice(0, 12);
+}
+
+export function getPromptLibraryPath(): string {
+  return path.resolve(process.cwd(), process.env.PROMPT_LIBRARY_FILE || "prompt_library.yaml");
+}
+
+function stringList(value: any, where: string): string[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some(item => typeof item !== "string")) {
+    throw new PromptLibraryError(`${where} must be a list of strings`);
+  }
+  return value;
+}
+
+function parseTemplate(name: string, entry: any): PromptTemplate {
+  if (!entry || typeof entry !== "object" || typeof entry.prompt !== "string" || !entry.prompt.trim()) {
+    throw new PromptLibraryError(`Template "${name}" has no prompt`);
+  }
+
+  const declared = entry.input_variables || [];
+  if (!Array.isArray(declared)) {
+    throw new PromptLibraryError(`input_variables of template "${name}" must be a list`);
+  }
+  const inputVariables: PromptInputVariable[] = declared.map((variable: any) => {
+    const variableName = typeof variable === "string" ? variable : variable?.name;
+    if (typeof variableName !== "string" || !variableName) {
+      throw new PromptLibraryError(`Every input variable of template "${name}" needs a name`);
+    }
+    return {
+      name: variableName,
+      type: typeof variable === "object" && variable.type ? String(variable.type) : "string",
+      description: typeof variable === "object" && variable.description ? String(variable.description) : null,
+      required: typeof variable === "object" && variable.required === false ? false : true,
+    };
+  });
+
+  const declaredNames = new Set(inputVariables.map(variable => variable.name));
+  if (declaredNames.size < inputVariables.length) {
+    const duplicates = inputVariables.filter((variable, index) => inputVariables.findIndex(other => other.name === variable.name) !== index);
+    throw new PromptLibraryError(`Template "${name}" declares input variable(s) more than once: ${duplicates.map(variable => variable.name).join(", ")}`);
+  }
+
+  // Placeholders and declarations have to agree, or a value would silently never reach the prompt
+  const used = new Set<string>();
+  let match: RegExpExecArray | null;
+  PLACEHOLDER_PATTERN.lastIndex = 0;
+  while ((match = PLACEHOLDER_PATTERN.exec(entry.prompt)) !== null) {
+    used.add(match[1]);
+  }
+  const undeclared = Array.from(used).filter(variable => !declaredNames.has(variable));
+  if (undeclared.length > 0) {
+    throw new PromptLibraryError(`Template "${name}" uses undeclared input variable(s): ${undeclared.join(", ")}`);
+  }
+  const unused = inputVariables.filter(variable => !used.has(variable.name)).map(variable => variable.name);
+  if (unused.length > 0) {
+    throw new PromptLibraryError(`Template "${name}" declares input variable(s) it never uses: ${unused.join(", ")}`);
+  }
+
+  const output = entry.output || {};
+  return {
+    name,
+    version: entry.version !== undefined && entry.version !== null ? String(entry.version) : null,
+    hash: hashPrompt(entry.prompt),
+    description: typeof entry.description === "string" ? entry.description.trim() : null,
+    prompt: entry.prompt,
+    inputVariables,
+    output: {
+      type: typeof output.type === "string" ? output.type : "json",
+      description: typeof output.description === "string" ? output.description.trim() : null,
+      keys: output.keys === undefined ? null : stringList(output.keys, `output.keys of template "${name}"`),
+      constraints: stringList(output.constraints, `output.constraints of template "${name}"`),
+    },
+  };
+}
+
+/**
+ * Reads every named template from the prompt library (PROMPT_LIBRARY_FILE, default
+ * prompt_library.yaml). The file is parsed and validated once per process.
+ */
+export function loadPromptLibrary(file = getPromptLibraryPath()): Map<string, PromptTemplate> {
+  const cached = libraries.get(file);
+  if (cached) return cached;
+
+  let document: any;
+  try {
+    document = yaml.load(fs.readFileSync(file, "utf8"));
+  } catch (error: any) {
+    throw new PromptLibraryError(`Cannot read prompt library ${file}: ${error.message}`);
+  }
+  if (!document || typeof document !== "object" || Array.isArray(document)) {
+    throw new PromptLibraryError(`Prompt library ${file} must map template names to templates`);
+  }
+
+  const templates = new Map<string, PromptTemplate>();
+  for (const [name, entry] of Object.entries(document)) {
+    templates.set(name, parseTemplate(name, entry));
+  }
+  libraries.set(file, templates);
+  return templates;
+}
+
+export function listPromptTemplates(): PromptTemplate[] {
+  return Array.from(loadPromptLibrary().values());
+}
+
+// The named template, or PROMPT_TEMPLATE / disease_space when no name is given
+export function getPromptTemplate(name?: string | null): PromptTemplate {
+  const templateName = name || process.env.PROMPT_TEMPLATE || DEFAULT_PROMPT_TEMPLATE;
+  const template = loadPromptLibrary().get(templateName);
+  if (!template) {
+    const known = Array.from(loadPromptLibrary().keys()).join(", ");
+    throw new PromptLibraryError(`Unknown prompt template "${templateName}". Available templates: ${known}`);
+  }
+  return template;
+}
+
+// Whether a template can analyze a video: it reads the transcript and needs nothing but the title besides
+export function isAnalysisTemplate(template: PromptTemplate): boolean {
+  return template.inputVariables.some(variable => variable.name === "transcript") &&
+    template.inputVariables.every(variable => !variable.required || ANALYSIS_INPUT_VARIABLES.indexOf(variable.name) !== -1);
+}
+
+// Like getPromptTemplate, but rejects templates that are not analysis prompts before any video is analyzed
+export function getAnalysisPromptTemplate(name?: string | null): PromptTemplate {
+  const template = getPromptTemplate(name);
+  if (!isAnalysisTemplate(template)) {
+    const analysisTemplates = Array.from(loadPromptLibrary().values()).filter(isAnalysisTemplate).map(other => other.name);
+    throw new PromptLibraryError(
+      `Template "${template.name}" is not an analysis prompt: it must take ${ANALYSIS_INPUT_VARIABLES.join(" and ")} ` +
+      `and require no other inputs. Analysis templates: ${analysisTemplates.join(", ")}`
+    );
+  }
+  return template;
+}
+
+// Fills in the template's placeholders in one pass, so values containing "{...}" are left alone
+export function renderPrompt(template: PromptTemplate, values: Record<string, string | null | undefined>): string {
+  const missing = template.inputVariables
+    .filter(variable => variable.required && (values[variable.name] === undefined || values[variable.name] === null))
+    .map(variable => variable.name);
+  if (missing.length > 0) {
+    throw new PromptLibraryError(`Template "${template.name}" needs input variable(s): ${missing.join(", ")}`);
+  }
+  const mistyped = template.inputVariables
+    .filter(variable => variable.type === "string" && values[variable.name] != null && typeof values[variable.name] !== "string")
+    .map(variable => variable.name);
+  if (mistyped.length > 0) {
+    throw new PromptLibraryError(`Template "${template.name}" expects string value(s) for: ${mistyped.join(", ")}`);
+  }
+
+  return template.prompt.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    const value = values[name];
+    return value === undefined || value === null ? "" : value;
+  });
+}
@@ -0,0 +1,78 @@
+// lib/query-expansion.ts
+import myLama, { MyLama } from "./MyLama";
+import { getPromptTemplate, renderPrompt } from "./prompt-library";
+import { extractJsonObject } from "./analysis-schema";
+import { safeLog } from "./logger";
+
+// Each query costs YouTube quota for every date chunk it covers, so expansion stops here
+export const MAX_QUERY_VARIANTS = parseInt(process.env.MAX_QUERY_VARIANTS || "12", 10);
+
+export const SEARCH_TERMS_TEMPLATE = "search_terms";
+
+export interface QueryExpansionInput {
+  searchPhrases?: string[];
+  diseaseName?: string | null;
+  synonyms?: string[];
+  keywords?: string[];
+}
+
+export interface SearchTermSuggestions {
+  synonyms: string[];
+  keywords: string[];
+}
+
+function uniqueTerms(terms: string[]): string[] {
+  const seen = new Set<string>();
+  const unique: string[] = [];
+  for (const term of terms) {
+    const text = term.trim().replace(/\s+/g, " ");
+    if (text && !seen.has(text.toLowerCase())) {
+      seen.add(text.toLowerCase());
+      unique.push(text);
+    }
+  }
+  return unique;
+}
+
+/**
+ * The queries a search sends to YouTube: its own phrases first, then the disease name and each
+ * synonym on their own, then each of those followed by every keyword ("FRDA patient story").
+ * Repeats are dropped ignoring case, and the list is cut at `limit`.
+ */
+export function expandSearchQueries(input: QueryExpansionInput, limit: number = MAX_QUERY_VARIANTS): string[] {
+  const names = uniqueTerms([input.diseaseName || "", ...(input.synonyms || [])]);
+  const keywords = uniqueTerms(input.keywords || []);
+  const combined: string[] = [];
+  for (const name of names) {
+    for (const keyword of keywords) {
+      combined.push(`${name} ${keyword}`);
+    }
+  }
+
+  const queries = uniqueTerms([...(input.searchPhrases || []), ...names, ...combined]);
+  if (queries.length > limit) {
+    safeLog("warn", `⚠️ Search expands into ${queries.length} queries; only the first ${limit} are run (MAX_QUERY_VARIANTS)`);
+    return queries.slice(0, limit);
+  }
+  return queries;
+}
+
+function termList(value: unknown, key: string): string[] {
+  if (!Array.isArray(value) || value.some(item => typeof item !== "string")) {
+    throw new Error(`"${key}" in the search term suggestions must be a list of strings`);
+  }
+  return uniqueTerms(value as string[]);
+}
+
+// Asks the model for synonyms and keywords to add to a search; nothing is stored here
+export async function suggestSearchTerms(diseaseName: string, model?: string): Promise<SearchTermSuggestions> {
+  const llm = model ? new MyLama(model) : myLama;
+  const template = getPromptTemplate(SEARCH_TERMS_TEMPLATE);
+  const response = await llm.generate(renderPrompt(template, { disease_name: diseaseName }));
+  const parsed = extractJsonObject(response) as Record<string, unknown>;
+  const known = diseaseName.trim().toLowerCase();
+  return {
+    synonyms: termList(parsed.synonyms, "synonyms").filter(term => term.toLowerCase() !== known),
+    keywords: termList(parsed.keywords, "keywords"),
+  };
+}
@@ -0,0 +1,290 @@
+// lib/review.ts
+import { getPool, storeAnalysisSymptoms, searchVideoIds } from "./database";
+import { VIDEO_TYPES, UNKNOWN_VIDEO_TYPE } from "./analysis-schema";
+import { normalizeSymptoms } from "./symptom-vocabulary";
+
+export const REVIEW_STATUSES = ["unreviewed", "approved", "corrected", "rejected"] as const;
+
+export type ReviewStatus = typeof REVIEW_STATUSES[number];
+
+// Analysis columns a reviewer may correct, with the shape each value must have
+export const REVIEWABLE_FIELDS = {
+  video_type: "videoType",
+  video_labels: "videoLabels",
+  name: "text",
+  age: "text",
+  sex: "text",
+  location: "text",
+  symptoms: "list",
+  medical_history_of_patient: "history",
+  family_medical_history: "history",
+  challenges_faced_during_diagnosis: "list",
+  key_opinion: "text",
+} as const;
+
+export type ReviewableField = keyof typeof REVIEWABLE_FIELDS;
+
+export interface AnalysisOverride {
+  field: ReviewableField;
+  value: any;
+  reviewer: string;
+  updatedAt: string;
+}
+
+export interface AnalysisReview {
+  videoId: string;
+  title: string;
+  url: string;
+  searchName: string;
+  status: ReviewStatus;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  note: string | null;
+  original: Record<ReviewableField, any>;   // The LLM output as stored
+  overrides: AnalysisOverride[];
+  effective: Record<ReviewableField, any>;  // original with the overrides applied
+}
+
+export interface ReviewQueueItem {
+  videoId: string;
+  title: string;
+  searchName: string;
+  videoType: string | null;
+  status: ReviewStatus;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  overrideCount: number;
+}
+
+export interface ReviewSubmission {
+  reviewer: string;
+  status?: ReviewStatus;                           // Defaults to "corrected" when corrections are given
+  corrections?: Partial<Record<ReviewableField, any>>;
+  revert?: ReviewableField[];                      // Drop earlier overrides, falling back to the LLM value
+  note?: string;
+}
+
+// Thrown for submissions that can never succeed; API routes answer these with 400
+export class ReviewValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReviewValidationError";
+  }
+}
+
+function isReviewableField(field: string): field is ReviewableField {
+  return Object.prototype.hasOwnProperty.call(REVIEWABLE_FIELDS, field);
+}
+
+function validateCorrection(field: string, value: any): any {
+  if (!isReviewableField(field)) {
+    throw new ReviewValidationError(`"${field}" cannot be corrected. Use one of: ${Object.keys(REVIEWABLE_FIELDS).join(", ")}`);
+  }
+  if (value === null) return null;
+
+  switch (REVIEWABLE_FIELDS[field]) {
+    case "videoType": {
+      const match = VIDEO_TYPES.find(type => typeof value === "string" && type.toLowerCase() === value.trim().toLowerCase());
+      if (!match) {
+        throw new ReviewValidationError(`video_type must be one of: ${VIDEO_TYPES.join(", ")}`);
+      }
+      return match;
+    }
+    case "videoLabels": {
+      const labels = Array.isArray(value)
+        ? value.map(label => VIDEO_TYPES.find(type => typeof label === "string" && type.toLowerCase() === label.trim().toLowerCase()))
+        : [undefined];
+      if (labels.some(label => !label || label === UNKNOWN_VIDEO_TYPE)) {
+        throw new ReviewValidationError(`video_labels must be a list of: ${VIDEO_TYPES.filter(type => type !== UNKNOWN_VIDEO_TYPE).join(", ")}`);
+      }
+      const unique = labels.filter((label, index) => labels.indexOf(label) === index);
+      return unique.length > 0 ? unique : null;
+    }
+    case "text":
+      if (typeof value !== "string" && typeof value !== "number") {
+        throw new ReviewValidationError(`${field} must be a string or null`);
+      }
+      return String(value).trim() || null;
+    case "list":
+      if (!Array.isArray(value) || value.some(item => typeof item !== "string")) {
+        throw new ReviewValidationError(`${field} must be a list of strings or null`);
+      }
+      return value.map(item => item.trim()).filter(Boolean);
+    case "history":
+      if (typeof value !== "object") {
+        throw new ReviewValidationError(`${field} must be a list, an object or null`);
+      }
+      return value;
+  }
+}
+
+/**
+ * The labels of an analysis whose video_type was corrected but whose labels were not: the corrected
+ * type takes the place of the original one. The analysis_reviewed view derives them the same way.
+ */
+export function relabelForVideoType(
+  originalType: string | null,
+  originalLabels: string[] | null,
+  videoType: string | null
+): string[] | null {
+  const rest = (originalLabels || []).filter(label => label !== originalType && label !== videoType);
+  const labels = videoType && videoType !== UNKNOWN_VIDEO_TYPE ? [videoType].concat(rest) : rest;
+  return labels.length > 0 ? labels : null;
+}
+
+function toIso(value: any): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+export async function getReviewQueue(
+  options: { status?: ReviewStatus; searchName?: string; page?: number; pageSize?: number } = {}
+): Promise<{ total: number; items: ReviewQueueItem[] }> {
+  const page = Math.max(1, Math.floor(options.page || 1));
+  const pageSize = Math.min(200, Math.max(1, Math.floor(options.pageSize || 50)));
+  const pool = await getPool();
+  const result = await pool.query(
+    `SELECT a.video_id, v.title, COALESCE($2::text, v.search_name) AS search_name, a.video_type, a.review_status, a.reviewed_by, a.reviewed_at,
+       (SELECT COUNT(*) FROM analysis_overrides o WHERE o.video_id = a.video_id) AS override_count,
+       COUNT(*) OVER () AS total
+     FROM analysis a
+     JOIN videos v ON v.video_id = a.video_id
+     WHERE ($1::text IS NULL OR a.review_status = $1)
+       AND ($2::text IS NULL OR v.video_id IN (${searchVideoIds("$2")}))
+     ORDER BY a.reviewed_at DESC NULLS FIRST, v.published_date DESC NULLS LAST, a.video_id
+     LIMIT $3 OFFSET $4`,
+    [options.status || null, options.searchName || null, pageSize, (page - 1) * pageSize]
+  );
+  return {
+    total: result.rows.length > 0 ? parseInt(result.rows[0].total, 10) : 0,
+    items: result.rows.map((row: any) => ({
+      videoId: row.video_id,
+      title: row.title,
+      searchName: row.search_name,
+      videoType: row.video_type,
+      status: row.review_status,
+      reviewedBy: row.reviewed_by,
+      reviewedAt: toIso(row.reviewed_at),
+      overrideCount: parseInt(row.override_count, 10),
+    })),
+  };
+}
+
+export async function getAnalysisReview(videoId: string): Promise<AnalysisReview | null> {
+  const pool = await getPool();
+  const analysisResult = await pool.query(
+    `SELECT a.*, v.title, v.url, v.search_name
+     FROM analysis a
+     JOIN videos v ON v.video_id = a.video_id
+     WHERE a.video_id = $1`,
+    [videoId]
+  );
+  const row = analysisResult.rows[0];
+  if (!row) return null;
+
+  const overrideResult = await pool.query(
+    "SELECT field, value, reviewer, updated_at FROM analysis_overrides WHERE video_id = $1 ORDER BY field",
+    [videoId]
+  );
+  const overrides: AnalysisOverride[] = overrideResult.rows.map((override: any) => ({
+    field: override.field,
+    value: override.value,
+    reviewer: override.reviewer,
+    updatedAt: toIso(override.updated_at) as string,
+  }));
+
+  const original = {} as Record<ReviewableField, any>;
+  for (const field of Object.keys(REVIEWABLE_FIELDS) as ReviewableField[]) {
+    original[field] = row[field];
+  }
+  const effective = { ...original };
+  for (const override of overrides) {
+    effective[override.field] = override.value;
+  }
+  const corrected = new Set(overrides.map(override => override.field));
+  if (corrected.has("video_type") && !corrected.has("video_labels")) {
+    effective.video_labels = relabelForVideoType(original.video_type, original.video_labels, effective.video_type);
+  }
+
+  return {
+    videoId,
+    title: row.title,
+    url: row.url,
+    searchName: row.search_name,
+    status: row.review_status,
+    reviewedBy: row.reviewed_by,
+    reviewedAt: toIso(row.reviewed_at),
+    note: row.review_note,
+    original,
+    overrides,
+    effective,
+  };
+}
+
+/**
+ * Records a reviewer's decision on one analysis. Corrections are stored as field-level overrides
+ * (the LLM output is never modified), and a corrected symptom list is re-normalized so analytics
+ * pick it up.
+ */
+export async function submitReview(videoId: string, submission: ReviewSubmission): Promise<AnalysisReview> {
+  const reviewer = typeof submission.reviewer === "string" ? submission.reviewer.trim() : "";
+  if (!reviewer) {
+    throw new ReviewValidationError("reviewer is required");
+  }
+  if (submission.status && !REVIEW_STATUSES.includes(submission.status)) {
+    throw new ReviewValidationError(`status must be one of: ${REVIEW_STATUSES.join(", ")}`);
+  }
+  const corrections = Object.entries(submission.corrections || {}).map(
+    ([field, value]) => [field, validateCorrection(field, value)] as [ReviewableField, any]
+  );
+  const revert = submission.revert || [];
+  for (const field of revert) {
+    if (!isReviewableField(field)) {
+      throw new ReviewValidationError(`"${field}" is not a reviewable field`);
+    }
+  }
+  const status: ReviewStatus | undefined = submission.status || (corrections.length > 0 ? "corrected" : undefined);
+  if (!status) {
+    throw new ReviewValidationError("Provide a status or at least one correction");
+  }
+
+  const pool = await getPool();
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const updated = await client.query(
+      `UPDATE analysis SET review_status = $2, reviewed_by = $3, reviewed_at = NOW(), review_note = $4
+       WHERE video_id = $1`,
+      [videoId, status, reviewer, submission.note ?? null]
+    );
+    if (updated.rowCount === 0) {
+      throw new ReviewValidationError(`No analysis stored for video ${videoId}`);
+    }
+    for (const [field, value] of corrections) {
+      await client.query(
+        `INSERT INTO analysis_overrides (video_id, field, value, reviewer, updated_at)
+         VALUES ($1, $2, $3, $4, NOW())
+         ON CONFLICT (video_id, field) DO UPDATE SET
+           value = EXCLUDED.value,
+           reviewer = EXCLUDED.reviewer,
+           updated_at = EXCLUDED.updated_at`,
+        [videoId, field, JSON.stringify(value), reviewer]
+      );
+    }
+    if (revert.length > 0) {
+      await client.query("DELETE FROM analysis_overrides WHERE video_id = $1 AND field = ANY($2)", [videoId, revert]);
+    }
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  const review = (await getAnalysisReview(videoId)) as AnalysisReview;
+  if (corrections.some(([field]) => field === "symptoms") || revert.includes("symptoms")) {
+    const symptoms = review.effective.symptoms;
+    await storeAnalysisSymptoms(videoId, normalizeSymptoms(Array.isArray(symptoms) ? symptoms.map(String) : []));
+  }
+  return review;
+}
@@ -0,0 +1,109 @@
+// lib/scheduler.ts
+import { runPipeline } from "./pipeline";
+import {
+  getScheduledSearchConfigs,
+  createScheduledRun,
+  finishScheduledRun,
+  ScheduledSearchConfig,
+} from "./database";
+import { parseCronExpression, nextCronTime } from "./cron";
+import { safeLog } from "./logger";
+
+export interface ScheduledRunOutcome {
+  searchName: string;
+  scheduledRunId: number;
+  runId: number | null;
+  status: "completed" | "failed";
+  windowStart: Date | null;
+  windowEnd: Date;
+  videos: number;
+  transcripts: number;
+  analyses: number;
+  error?: string;
+}
+
+/**
+ * When a search should next run: the first tick of its schedule after its last scheduled run, or
+ * right away if it has never run. null for searches without a schedule.
+ */
+export function nextRunTime(config: ScheduledSearchConfig, now: Date = new Date()): Date | null {
+  if (!config.schedule) return null;
+  if (!config.last_run_started_at) return now;
+  return nextCronTime(parseCronExpression(config.schedule), new Date(config.last_run_started_at));
+}
+
+export function isSearchDue(config: ScheduledSearchConfig, now: Date = new Date()): boolean {
+  const next = nextRunTime(config, now);
+  return next !== null && next <= now;
+}
+
+/**
+ * Runs the whole pipeline for the videos published since the search's watermark, within the
+ * config's date window. The first run of a search has no watermark and starts at the config's
+ * start date, or the pipeline's default range when there is none.
+ */
+export async function runScheduledSearch(config: ScheduledSearchConfig, now: Date = new Date()): Promise<ScheduledRunOutcome> {
+  const watermark = config.last_fetched_at ? new Date(config.last_fetched_at) : null;
+  const startDate = config.start_date ? new Date(config.start_date) : null;
+  const endDate = config.end_date ? new Date(config.end_date) : null;
+  const windowStart = watermark && startDate ? (watermark > startDate ? watermark : startDate) : watermark || startDate;
+  const windowEnd = endDate && endDate < now ? endDate : now;
+  const scheduledRunId = await createScheduledRun(config.param_id, windowStart, windowEnd);
+  safeLog(
+    "info",
+    `⏰ Refreshing "${config.search_name}" with videos published ${windowStart ? `since ${windowStart.toISOString()}` : "in the default range"}`
+  );
+
+  const outcome: ScheduledRunOutcome = {
+    searchName: config.search_name,
+    scheduledRunId,
+    runId: null,
+    status: "completed",
+    windowStart,
+    windowEnd,
+    videos: 0,
+    transcripts: 0,
+    analyses: 0,
+  };
+  try {
+    const result = await runPipeline({
+      searchName: config.search_name,
+      userId: config.user_id,
+      startDate: windowStart ? windowStart.toISOString() : undefined,
+      endDate: windowEnd.toISOString(),
+    });
+    outcome.runId = result.runId;
+    outcome.videos = result.videos.length;
+    outcome.transcripts = result.transcripts.length;
+    outcome.analyses = result.analyses.length;
+  } catch (error: any) {
+    // The watermark stays put, so the next run fetches this window again
+    outcome.status = "failed";
+    outcome.error = error.message;
+    safeLog("error", `❌ Scheduled run for "${config.search_name}" failed:`, error.message);
+  }
+
+  await finishScheduledRun(scheduledRunId, outcome);
+  return outcome;
+}
+
+// Runs every scheduled search whose next run time has passed, one after another.
+// The caller initializes the database once beforehand rather than on every check.
+export async function runDueSearches(now: Date = new Date()): Promise<ScheduledRunOutcome[]> {
+  const configs = await getScheduledSearchConfigs();
+  const outcomes: ScheduledRunOutcome[] = [];
+
+  for (const config of configs) {
+    let due: boolean;
+    try {
+      due = isSearchDue(config, now);
+    } catch (error: any) {
+      safeLog("warn", `⚠️ Skipping "${config.search_name}": ${error.message}`);
+      continue;
+    }
+    if (due) {
+      outcomes.push(await runScheduledSearch(config));
+    }
+  }
+  return outcomes;
+}
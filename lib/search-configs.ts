@@ -0,0 +1,395 @@
+// lib/search-configs.ts
+import { getPool, getSearchConfig, SearchConfigRecord } from "./database";
+import { parseCustomFieldSchema, CustomFieldDefinition } from "./custom-fields";
+import { parseCronExpression } from "./cron";
+import { getAnalysisPromptTemplate } from "./prompt-library";
+import { suggestSearchTerms, SearchTermSuggestions } from "./query-expansion";
+import { VideoMetadata } from "./types";
+
+export interface SearchConfigDetail {
+  searchName: string;
+  userId: string;
+  searchPhrases: string[];
+  diseaseName: string | null;
+  synonyms: string[];
+  keywords: string[];
+  language: string | null;
+  region: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  maxResults: number | null;
+  excludeKeywords: string[];
+  promptTemplate: string | null;
+  customFieldSchema: CustomFieldDefinition[];
+  schedule: string | null;
+  paused: boolean;
+  lastFetchedAt: string | null;
+  creationDate: string;
+  updatedAt: string | null;
+}
+
+// Fields a client may set; null clears an optional field. searchName cannot change after creation.
+export interface SearchConfigInput {
+  searchName?: string;
+  userId?: string;
+  searchPhrases?: string[];
+  diseaseName?: string | null;
+  synonyms?: string[];
+  keywords?: string[];
+  language?: string | null;
+  region?: string | null;
+  startDate?: string | null;
+  endDate?: string | null;
+  maxResults?: number | null;
+  excludeKeywords?: string[];
+  promptTemplate?: string | null;
+  customFieldSchema?: CustomFieldDefinition[] | null;
+  schedule?: string | null;
+  paused?: boolean;
+}
+
+// Search config files (bin/database-manager.ts --search-config-file) use the column names instead
+export interface SearchConfigFileEntry {
+  search_name: string;
+  user_id?: string;
+  search_phrase?: string;  // Older files give a single phrase
+  search_phrases?: string[];
+  disease_name?: string | null;
+  synonyms?: string[];
+  keywords?: string[];
+  language?: string | null;
+  region?: string | null;
+  start_date?: string | null;
+  end_date?: string | null;
+  max_results?: number | null;
+  exclude_keywords?: string[];
+  prompt_template?: string | null;
+  custom_field_schema?: CustomFieldDefinition[] | null;
+  schedule?: string | null;
+  paused?: boolean;
+}
+
+// Thrown for input that can never be stored; API routes answer these with 400
+export class SearchConfigValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SearchConfigValidationError";
+  }
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const LANGUAGE_PATTERN = /^[a-z]{2,3}(-[a-z]+)?$/i;
+const REGION_PATTERN = /^[a-z]{2}$/i;
+
+// SearchConfigInput key -> SearchConfig column
+const COLUMNS: Record<Exclude<keyof SearchConfigInput, "searchName">, string> = {
+  userId: "user_id",
+  searchPhrases: "search_phrases",
+  diseaseName: "disease_name",
+  synonyms: "synonyms",
+  keywords: "keywords",
+  language: "language",
+  region: "region",
+  startDate: "start_date",
+  endDate: "end_date",
+  maxResults: "max_results",
+  excludeKeywords: "exclude_keywords",
+  promptTemplate: "prompt_template",
+  customFieldSchema: "custom_field_schema",
+  schedule: "schedule",
+  paused: "paused",
+};
+
+function toIso(value: any): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function toDetail(row: SearchConfigRecord): SearchConfigDetail {
+  return {
+    searchName: row.search_name,
+    userId: row.user_id,
+    searchPhrases: row.search_phrases || [row.search_phrase],
+    diseaseName: row.disease_name || null,
+    synonyms: row.synonyms || [],
+    keywords: row.keywords || [],
+    language: row.language || null,
+    region: row.region || null,
+    startDate: row.start_date || null,
+    endDate: row.end_date || null,
+    maxResults: row.max_results ?? null,
+    excludeKeywords: row.exclude_keywords || [],
+    promptTemplate: row.prompt_template || null,
+    customFieldSchema: row.custom_field_schema || [],
+    schedule: row.schedule || null,
+    paused: Boolean(row.paused),
+    lastFetchedAt: toIso(row.last_fetched_at),
+    creationDate: toIso(row.creation_date) as string,
+    updatedAt: toIso(row.updated_at),
+  };
+}
+
+function requireText(value: any, name: string): string {
+  if (typeof value !== "string" || !value.trim()) {
+    throw new SearchConfigValidationError(`${name} must be a non-empty string`);
+  }
+  return value.trim();
+}
+
+function textList(value: any, name: string): string[] {
+  if (!Array.isArray(value) || value.some(item => typeof item !== "string")) {
+    throw new SearchConfigValidationError(`${name} must be a list of strings`);
+  }
+  const items = value.map((item: string) => item.trim()).filter(Boolean);
+  const lower = items.map(item => item.toLowerCase());
+  return items.filter((item, index) => lower.indexOf(lower[index]) === index);
+}
+
+function optionalDate(value: any, name: string): string | null {
+  if (value === null) return null;
+  if (typeof value !== "string" || !DATE_PATTERN.test(value) || isNaN(Date.parse(value))) {
+    throw new SearchConfigValidationError(`${name} must be a YYYY-MM-DD date or null`);
+  }
+  return value;
+}
+
+// Checks one field and returns the value to store in its column
+function validateField(field: keyof typeof COLUMNS, value: any): any {
+  switch (field) {
+    case "userId":
+      return requireText(value, "userId");
+    case "searchPhrases": {
+      const phrases = textList(value, "searchPhrases");
+      if (phrases.length === 0) {
+        throw new SearchConfigValidationError("searchPhrases needs at least one phrase");
+      }
+      return phrases;
+    }
+    case "diseaseName":
+      return value === null ? null : requireText(value, "diseaseName");
+    case "synonyms":
+    case "keywords":
+      return textList(value, field);
+    case "language":
+      if (value === null) return null;
+      if (typeof value !== "string" || !LANGUAGE_PATTERN.test(value.trim())) {
+        throw new SearchConfigValidationError("language must be a language code such as \"en\", or null");
+      }
+      return value.trim();
+    case "region":
+      if (value === null) return null;
+      if (typeof value !== "string" || !REGION_PATTERN.test(value.trim())) {
+        throw new SearchConfigValidationError("region must be a two-letter country code such as \"US\", or null");
+      }
+      return value.trim().toUpperCase();
+    case "startDate":
+    case "endDate":
+      return optionalDate(value, field);
+    case "maxResults":
+      if (value === null) return null;
+      if (!Number.isInteger(value) || value < 1) {
+        throw new SearchConfigValidationError("maxResults must be a positive integer or null");
+      }
+      return value;
+    case "excludeKeywords":
+      return textList(value, "excludeKeywords");
+    case "promptTemplate":
+      if (value === null) return null;
+      try {
+        return getAnalysisPromptTemplate(requireText(value, "promptTemplate")).name;
+      } catch (error: any) {
+        throw new SearchConfigValidationError(error.message);
+      }
+    case "customFieldSchema":
+      try {
+        return parseCustomFieldSchema(value);
+      } catch (error: any) {
+        throw new SearchConfigValidationError(error.message);
+      }
+    case "schedule":
+      if (value === null) return null;
+      try {
+        return parseCronExpression(requireText(value, "schedule")).expression;
+      } catch (error: any) {
+        throw new SearchConfigValidationError(error.message);
+      }
+    case "paused":
+      if (typeof value !== "boolean") {
+        throw new SearchConfigValidationError("paused must be true or false");
+      }
+      return value;
+  }
+}
+
+// Validated column values for the fields present in the input
+function validateInput(input: SearchConfigInput): Record<string, any> {
+  if (!input || typeof input !== "object") {
+    throw new SearchConfigValidationError("Expected a JSON object");
+  }
+  const values: Record<string, any> = {};
+  // Clients may send keys outside SearchConfigInput; they are rejected below
+  for (const field of Object.keys(input) as (keyof SearchConfigInput)[]) {
+    if (field === "searchName" || input[field] === undefined) continue;
+    if (!Object.prototype.hasOwnProperty.call(COLUMNS, field)) {
+      throw new SearchConfigValidationError(`Unknown field "${field}". Use one of: searchName, ${Object.keys(COLUMNS).join(", ")}`);
+    }
+    values[COLUMNS[field]] = validateField(field, input[field]);
+  }
+  return values;
+}
+
+/**
+ * Turns a search config file entry into input for createSearchConfig and updateSearchConfig.
+ * Keys that are not columns are rejected, so a misspelled one is not silently ignored.
+ */
+export function searchConfigFromFileEntry(entry: SearchConfigFileEntry): SearchConfigInput {
+  if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+    throw new SearchConfigValidationError("Each search config file entry must be an object");
+  }
+  const known = ["search_name", "search_phrase"].concat(Object.keys(COLUMNS).map(field => COLUMNS[field as keyof typeof COLUMNS]));
+  const unknown = Object.keys(entry).filter(key => known.indexOf(key) === -1);
+  if (unknown.length > 0) {
+    throw new SearchConfigValidationError(
+      `Unknown field(s) in search config file entry "${entry.search_name}": ${unknown.join(", ")}. Use one of: ${known.join(", ")}`
+    );
+  }
+  return {
+    searchName: entry.search_name,
+    userId: entry.user_id,
+    searchPhrases: entry.search_phrases || (entry.search_phrase ? [entry.search_phrase] : undefined),
+    diseaseName: entry.disease_name,
+    synonyms: entry.synonyms,
+    keywords: entry.keywords,
+    language: entry.language,
+    region: entry.region,
+    startDate: entry.start_date,
+    endDate: entry.end_date,
+    maxResults: entry.max_results,
+    excludeKeywords: entry.exclude_keywords,
+    promptTemplate: entry.prompt_template,
+    customFieldSchema: entry.custom_field_schema,
+    schedule: entry.schedule,
+    paused: entry.paused,
+  };
+}
+
+function checkDateWindow(startDate: string | null | undefined, endDate: string | null | undefined) {
+  if (startDate && endDate && startDate > endDate) {
+    throw new SearchConfigValidationError("startDate must not be after endDate");
+  }
+}
+
+function columnValue(column: string, value: any): any {
+  return ["search_phrases", "synonyms", "keywords", "exclude_keywords", "custom_field_schema"].includes(column)
+    ? JSON.stringify(value)
+    : value;
+}
+
+export async function getSearchConfigDetail(searchName: string): Promise<SearchConfigDetail | null> {
+  const config = await getSearchConfig(searchName);
+  return config ? toDetail(config) : null;
+}
+
+/**
+ * Creates a search config. searchPhrases defaults to the disease name or else the search name,
+ * and userId to "default_user". A placeholder config left behind by an import (user "unknown") is taken over,
+ * keeping its creation date.
+ */
+export async function createSearchConfig(input: SearchConfigInput): Promise<SearchConfigDetail> {
+  const searchName = requireText(input?.searchName, "searchName");
+  const values = validateInput(input);
+  values.user_id = values.user_id || "default_user";
+  values.search_phrases = values.search_phrases || [values.disease_name || searchName];
+  checkDateWindow(values.start_date, values.end_date);
+
+  const existing = await getSearchConfig(searchName);
+  if (existing && existing.user_id !== "unknown") {
+    throw new SearchConfigValidationError(`Search config "${searchName}" already exists`);
+  }
+
+  const columns = Object.keys(values);
+  const pool = await getPool();
+  await pool.query(
+    `INSERT INTO SearchConfig (search_name, search_phrase, creation_date, ${columns.join(", ")})
+     VALUES ($1, $2, NOW(), ${columns.map((_, index) => `$${index + 3}`).join(", ")})
+     ON CONFLICT (search_name) DO UPDATE SET
+       search_phrase = EXCLUDED.search_phrase,
+       updated_at = NOW(),
+       ${columns.map(column => `${column} = EXCLUDED.${column}`).join(",\n       ")}`,
+    [searchName, values.search_phrases[0], ...columns.map(column => columnValue(column, values[column]))]
+  );
+  return (await getSearchConfigDetail(searchName)) as SearchConfigDetail;
+}
+
+// Changes the given fields of a search config; null when there is no config with that name
+export async function updateSearchConfig(searchName: string, input: SearchConfigInput): Promise<SearchConfigDetail | null> {
+  const values = validateInput(input);
+  if (input.searchName !== undefined && input.searchName !== searchName) {
+    throw new SearchConfigValidationError("searchName cannot be changed; create a new search config instead");
+  }
+  const existing = await getSearchConfig(searchName);
+  if (!existing) return null;
+  checkDateWindow(
+    values.start_date !== undefined ? values.start_date : existing.start_date,
+    values.end_date !== undefined ? values.end_date : existing.end_date
+  );
+  const columns = Object.keys(values);
+  if (columns.length === 0) return toDetail(existing);
+  if (values.search_phrases) {
+    values.search_phrase = values.search_phrases[0];
+    columns.push("search_phrase");
+  }
+
+  const pool = await getPool();
+  await pool.query(
+    `UPDATE SearchConfig
+     SET ${columns.map((column, index) => `${column} = $${index + 2}`).join(", ")}, updated_at = NOW()
+     WHERE search_name = $1`,
+    [searchName, ...columns.map(column => columnValue(column, values[column]))]
+  );
+  return getSearchConfigDetail(searchName);
+}
+
+/**
+ * Asks the model for synonyms and keywords for the search's disease (its disease name, or else
+ * the search name). With apply, the new ones are added to the config; null when there is no
+ * config with that name.
+ */
+export async function suggestSearchConfigTerms(
+  searchName: string,
+  options: { apply?: boolean; model?: string } = {}
+): Promise<{ suggestions: SearchTermSuggestions; searchConfig: SearchConfigDetail } | null> {
+  const existing = await getSearchConfigDetail(searchName);
+  if (!existing) return null;
+  const suggestions = await suggestSearchTerms(existing.diseaseName || searchName, options.model);
+  if (!options.apply) {
+    return { suggestions, searchConfig: existing };
+  }
+  const searchConfig = await updateSearchConfig(searchName, {
+    synonyms: existing.synonyms.concat(suggestions.synonyms),
+    keywords: existing.keywords.concat(suggestions.keywords),
+  });
+  return { suggestions, searchConfig: searchConfig as SearchConfigDetail };
+}
+
+/**
+ * Deletes a search config with its video links and scheduled runs. The videos, transcripts and
+ * analyses stay, since other searches may have found them too.
+ */
+export async function deleteSearchConfig(searchName: string): Promise<boolean> {
+  const pool = await getPool();
+  const result = await pool.query("DELETE FROM SearchConfig WHERE search_name = $1", [searchName]);
+  return Boolean(result.rowCount);
+}
+
+// Drops videos whose title or description mentions one of the keywords, ignoring case
+export function filterExcludedVideos<T extends Pick<VideoMetadata, "title" | "description">>(
+  videos: T[],
+  keywords: string[] = []
+): T[] {
+  const excluded = keywords.map(keyword => keyword.toLowerCase()).filter(Boolean);
+  if (excluded.length === 0) return videos;
+  return videos.filter(video => {
+    const text = `${video.title || ""} ${video.description || ""}`.toLowerCase();
+    return !excluded.some(keyword => text.includes(keyword));
+  });
+}
@@ -0,0 +1,230 @@
+// lib/symptom-vocabulary.ts
+import * as fs from "fs";
+import path from "path";
+import { safeLog } from "./logger";
+
+export interface VocabularyTerm {
+  code: string;       // e.g. "HP:0012378"
+  term: string;       // Canonical label, e.g. "Fatigue"
+  synonyms: string[];
+}
+
+export type SymptomMatchType = "exact" | "synonym" | "partial";
+
+export interface NormalizedSymptom {
+  raw: string;
+  code: string | null;  // null when no vocabulary term matched
+  term: string | null;
+  matchType: SymptomMatchType | null;
+  vocabulary: string | null;  // File name of the vocabulary the code comes from
+}
+
+// Intensity and frequency words the model copies from the speaker; they never change which symptom it is
+const FILLER_WORDS = new Set([
+  "a", "an", "the", "my", "of", "and", "to", "in", "with", "from",
+  "always", "constant", "constantly", "frequent", "frequently", "occasional", "occasionally",
+  "sometimes", "often", "severe", "severely", "mild", "mildly", "chronic", "extreme", "extremely",
+  "very", "really", "lot", "lots", "bit", "little", "some", "progressive", "persistent",
+  "feeling", "feel", "feels", "felt", "being", "having", "had", "episodes", "episode",
+]);
+
+function tokenize(text: string, dropFillers: boolean = false): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9']+/g, " ")
+    .split(" ")
+    .filter(token => token && !(dropFillers && FILLER_WORDS.has(token)))
+    // Crude singular form so "headaches" and "headache" compare equal
+    .map(token => (token.length > 3 && token.endsWith("s") && !token.endsWith("ss") ? token.slice(0, -1) : token));
+}
+
+// Splits one CSV line, honouring double-quoted fields with "" escapes
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === "\"" && line[i + 1] === "\"") {
+        field += "\"";
+        i++;
+      } else if (char === "\"") {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === "\"") {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field.trim());
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+interface LabelEntry {
+  term: VocabularyTerm;
+  tokens: string[];
+  isSynonym: boolean;
+}
+
+export class SymptomVocabulary {
+  private readonly byKey = new Map<string, LabelEntry>();
+  private readonly entries: LabelEntry[] = [];
+
+  constructor(readonly name: string, readonly terms: VocabularyTerm[]) {
+    for (const term of terms) {
+      this.addLabel(term, term.term, false);
+      for (const synonym of term.synonyms) {
+        this.addLabel(term, synonym, true);
+      }
+    }
+    // Longest labels first, so "gait ataxia" wins over "ataxia" in partial matches
+    this.entries.sort((a, b) => b.tokens.length - a.tokens.length);
+  }
+
+  private addLabel(term: VocabularyTerm, label: string, isSynonym: boolean) {
+    const tokens = tokenize(label);
+    const key = tokens.join(" ");
+    if (!key || this.byKey.has(key)) return;
+    const entry = { term, tokens, isSynonym };
+    this.byKey.set(key, entry);
+    this.entries.push(entry);
+  }
+
+  /**
+   * CSV with a header row naming a code column (code or id), a label column (term, name or label)
+   * and optionally a synonyms column whose values are separated by "|" or ";".
+   */
+  static fromCsv(text: string, name: string): SymptomVocabulary {
+    const lines = text.split(/\r?\n/).filter(line => line.trim() && !line.trim().startsWith("#"));
+    if (lines.length === 0) {
+      throw new Error(`Vocabulary ${name} is empty`);
+    }
+    const header = parseCsvLine(lines[0]).map(column => column.toLowerCase());
+    const codeColumn = header.findIndex(column => column === "code" || column === "id");
+    const termColumn = header.findIndex(column => column === "term" || column === "name" || column === "label");
+    const synonymColumn = header.findIndex(column => column === "synonyms" || column === "synonym");
+    if (codeColumn === -1 || termColumn === -1) {
+      throw new Error(`Vocabulary ${name} needs "code" and "term" columns (found: ${header.join(", ")})`);
+    }
+
+    const terms: VocabularyTerm[] = [];
+    for (const line of lines.slice(1)) {
+      const fields = parseCsvLine(line);
+      const code = fields[codeColumn];
+      const term = fields[termColumn];
+      if (!code || !term) continue;
+      const synonyms = synonymColumn === -1 || !fields[synonymColumn]
+        ? []
+        : fields[synonymColumn].split(/[|;]/).map(synonym => synonym.trim()).filter(Boolean);
+      terms.push({ code, term, synonyms });
+    }
+    return new SymptomVocabulary(name, terms);
+  }
+
+  // OBO flat files such as hp.obo: every non-obsolete [Term] with its name and synonyms
+  static fromObo(text: string, name: string): SymptomVocabulary {
+    const terms: VocabularyTerm[] = [];
+    for (const stanza of text.split(/^\[/m)) {
+      if (!stanza.startsWith("Term]")) continue;
+      let code = "";
+      let term = "";
+      let obsolete = false;
+      const synonyms: string[] = [];
+      for (const line of stanza.split(/\r?\n/)) {
+        const separator = line.indexOf(":");
+        if (separator === -1) continue;
+        const tag = line.slice(0, separator).trim();
+        const value = line.slice(separator + 1).trim();
+        if (tag === "id") code = value;
+        else if (tag === "name") term = value;
+        else if (tag === "is_obsolete") obsolete = value === "true";
+        else if (tag === "synonym") {
+          const quoted = /^"((?:[^"\\]|\\.)*)"/.exec(value);
+          if (quoted) synonyms.push(quoted[1].replace(/\\"/g, "\""));
+        }
+      }
+      if (code && term && !obsolete) {
+        terms.push({ code, term, synonyms });
+      }
+    }
+    return new SymptomVocabulary(name, terms);
+  }
+
+  static load(filePath: string): SymptomVocabulary {
+    const text = fs.readFileSync(filePath, "utf8");
+    const name = path.basename(filePath);
+    return filePath.toLowerCase().endsWith(".obo")
+      ? SymptomVocabulary.fromObo(text, name)
+      : SymptomVocabulary.fromCsv(text, name);
+  }
+
+  /**
+   * Maps a free-text symptom to a vocabulary term: first the whole phrase against labels and
+   * synonyms, then the phrase without filler words ("always exhausted" -> "exhausted"), and finally
+   * the longest label whose words all occur in the phrase ("severe pain in my legs" -> "pain").
+   */
+  normalize(phrase: string): NormalizedSymptom {
+    const raw = phrase.trim();
+    const unmatched: NormalizedSymptom = { raw, code: null, term: null, matchType: null, vocabulary: null };
+    const tokens = tokenize(raw);
+    if (tokens.length === 0) return unmatched;
+
+    const exact = this.byKey.get(tokens.join(" ")) || this.byKey.get(tokenize(raw, true).join(" "));
+    if (exact) {
+      return { raw, code: exact.term.code, term: exact.term.term, matchType: exact.isSynonym ? "synonym" : "exact", vocabulary: this.name };
+    }
+
+    const present = new Set(tokens);
+    const partial = this.entries.find(entry => entry.tokens.every(token => present.has(token)));
+    if (partial) {
+      return { raw, code: partial.term.code, term: partial.term.term, matchType: "partial", vocabulary: this.name };
+    }
+    return unmatched;
+  }
+}
+
+// Thrown when the vocabulary file cannot be loaded, so symptoms are never stored unmapped by accident
+export class SymptomVocabularyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SymptomVocabularyError";
+  }
+}
+
+let cached: { filePath: string; vocabulary: SymptomVocabulary } | null = null;
+
+/**
+ * SYMPTOM_VOCABULARY_FILE, falling back to the bundled vocabularies/symptoms.csv. Both resolve
+ * against the working directory, so scripts run from elsewhere must set the variable.
+ */
+export function getSymptomVocabulary(): SymptomVocabulary {
+  const filePath = path.resolve(process.cwd(), process.env.SYMPTOM_VOCABULARY_FILE || "vocabularies/symptoms.csv");
+  if (cached && cached.filePath === filePath) {
+    return cached.vocabulary;
+  }
+  let vocabulary: SymptomVocabulary;
+  try {
+    vocabulary = SymptomVocabulary.load(filePath);
+  } catch (error: any) {
+    throw new SymptomVocabularyError(
+      `Symptom vocabulary ${filePath} could not be loaded (${error.message}); ` +
+      "run from the repository root or set SYMPTOM_VOCABULARY_FILE"
+    );
+  }
+  safeLog("info", `Loaded ${vocabulary.terms.length} symptom terms from ${filePath}`);
+  cached = { filePath, vocabulary };
+  return vocabulary;
+}
+
+export function normalizeSymptoms(symptoms: string[] | null | undefined): NormalizedSymptom[] {
+  if (!symptoms || symptoms.length === 0) return [];
+  const vocabulary = getSymptomVocabulary();
+  return symptoms.map(symptom => vocabulary.normalize(symptom));
+}
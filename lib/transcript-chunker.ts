@@ -0,0 +1,54 @@
+// lib/transcript-chunker.ts
+import { get_encoding, Tiktoken } from "tiktoken";
+
+let encoder: Tiktoken | null = null;
+
+// cl100k_base is OpenAI's tokenizer; for Ollama and Gemini models it is a close enough estimate
+function getEncoder(): Tiktoken {
+  if (!encoder) {
+    encoder = get_encoding("cl100k_base");
+  }
+  return encoder;
+}
+
+export function countTokens(text: string): number {
+  return getEncoder().encode(text).length;
+}
+
+// A token whose first byte is a UTF-8 continuation byte (10xxxxxx) carries the rest of a character
+// begun by the token before it, so no chunk may start or end between the two
+function startsCharacter(enc: Tiktoken, token: number): boolean {
+  return (enc.decode_single_token_bytes(token)[0] & 0xc0) !== 0x80;
+}
+
+/**
+ * Splits text into pieces of at most maxTokens tokens, each starting overlapTokens before the
+ * previous one ended so a sentence cut at a boundary is still seen whole by one of the chunks.
+ * Boundaries are moved off characters split across tokens (accented letters, CJK, emoji), which
+ * would otherwise decode as U+FFFD at the chunk edges.
+ */
+export function chunkByTokens(text: string, maxTokens: number, overlapTokens: number = 0): string[] {
+  if (maxTokens <= 0) {
+    throw new Error(`maxTokens must be positive (got ${maxTokens})`);
+  }
+  const enc = getEncoder();
+  const tokens = enc.encode(text);
+  if (tokens.length <= maxTokens) {
+    return [text];
+  }
+
+  const decoder = new TextDecoder();
+  const overlap = Math.min(overlapTokens, Math.floor(maxTokens / 2));
+  const chunks: string[] = [];
+  let start = 0;
+  for (;;) {
+    let end = Math.min(start + maxTokens, tokens.length);
+    while (end < tokens.length && end > start + 1 && !startsCharacter(enc, tokens[end])) end--;
+    chunks.push(decoder.decode(enc.decode(tokens.slice(start, end))));
+    if (end >= tokens.length) break;
+
+    start = Math.max(start + 1, end - overlap);
+    while (start < end && !startsCharacter(enc, tokens[start])) start++;
+  }
+  return chunks;
+}
@@ -0,0 +1,138 @@
+// lib/transcript-search.ts
+import { getPool, searchVideoIds } from "./database";
+import { youtubeTimestampUrl } from "./evidence";
+
+export interface TranscriptSearchFilters {
+  searchName?: string;
+  videoType?: string;
+  channel?: string;     // Case-insensitive substring of the channel name
+  startDate?: string;   // e.g., "2024-01-01"
+  endDate?: string;
+}
+
+export interface TranscriptSearchOptions extends TranscriptSearchFilters {
+  query: string;        // websearch syntax: "quoted phrases", OR, -excluded
+  page?: number;        // 1-based
+  pageSize?: number;
+  segmentsPerVideo?: number;
+}
+
+export interface SegmentMatch {
+  seq: number;
+  startMs: number;
+  durationMs: number;
+  snippet: string;
+  url: string;
+}
+
+export interface TranscriptSearchHit {
+  videoId: string;
+  title: string;
+  channelName: string;
+  publishedDate: string | null;
+  url: string;
+  searchName: string;
+  videoType: string | null;
+  rank: number;
+  snippet: string;      // Matching passages of the full transcript with <mark> around the hits
+  segments: SegmentMatch[];
+}
+
+export interface TranscriptSearchResult {
+  query: string;
+  page: number;
+  pageSize: number;
+  total: number;
+  results: TranscriptSearchHit[];
+}
+
+export const MAX_PAGE_SIZE = 100;
+
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxFragments=3, MinWords=8, MaxWords=30, FragmentDelimiter=" ... "';
+
+export async function searchTranscripts(options: TranscriptSearchOptions): Promise<TranscriptSearchResult> {
+  const page = Math.max(1, Math.floor(options.page || 1));
+  const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(options.pageSize || 20)));
+  const segmentsPerVideo = Math.max(0, Math.floor(options.segmentsPerVideo ?? 5));
+  const pool = await getPool();
+
+  const result = await pool.query(
+    `SELECT v.video_id, v.title, v.channel_name, v.published_date, v.url,
+       COALESCE($2::text, v.search_name) AS search_name, a.video_type,
+       ts_rank(t.search_vector, q.query) AS rank,
+       ts_headline('english', t.full_transcript, q.query, $9) AS snippet,
+       COUNT(*) OVER () AS total
+     FROM transcripts t
+     JOIN videos v ON v.video_id = t.video_id
+     LEFT JOIN analysis_reviewed a ON a.video_id = t.video_id
+     CROSS JOIN (SELECT websearch_to_tsquery('english', $1) AS query) q
+     WHERE t.search_vector @@ q.query
+       AND ($2::text IS NULL OR v.video_id IN (${searchVideoIds("$2")}))
+       AND ($3::text IS NULL OR LOWER(a.video_type) = LOWER($3))
+       AND ($4::text IS NULL OR v.channel_name ILIKE '%' || $4 || '%')
+       AND ($5::date IS NULL OR v.published_date >= $5)
+       AND ($6::date IS NULL OR v.published_date < $6::date + 1)
+     ORDER BY rank DESC, v.video_id
+     LIMIT $7 OFFSET $8`,
+    [
+      options.query,
+      options.searchName || null,
+      options.videoType || null,
+      options.channel || null,
+      options.startDate || null,
+      options.endDate || null,
+      pageSize,
+      (page - 1) * pageSize,
+      HEADLINE_OPTIONS,
+    ]
+  );
+
+  const hits: TranscriptSearchHit[] = result.rows.map((row: any) => ({
+    videoId: row.video_id,
+    title: row.title,
+    channelName: row.channel_name,
+    publishedDate: row.published_date ? new Date(row.published_date).toISOString() : null,
+    url: row.url,
+    searchName: row.search_name,
+    videoType: row.video_type,
+    rank: Number(row.rank),
+    snippet: row.snippet,
+    segments: [],
+  }));
+
+  if (hits.length > 0 && segmentsPerVideo > 0) {
+    // The best-matching caption lines of each video on this page, so results can link to the moment
+    const segmentResult = await pool.query(
+      `SELECT video_id, seq, start_ms, duration_ms, snippet
+       FROM (
+         SELECT s.video_id, s.seq, s.start_ms, s.duration_ms,
+           ts_headline('english', s.text, q.query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS snippet,
+           ROW_NUMBER() OVER (PARTITION BY s.video_id ORDER BY ts_rank(s.search_vector, q.query) DESC, s.seq) AS match_rank
+         FROM transcript_segments s
+         CROSS JOIN (SELECT websearch_to_tsquery('english', $1) AS query) q
+         WHERE s.video_id = ANY($2) AND s.search_vector @@ q.query
+       ) ranked
+       WHERE match_rank <= $3
+       ORDER BY video_id, start_ms`,
+      [options.query, hits.map(hit => hit.videoId), segmentsPerVideo]
+    );
+    const byVideo = new Map(hits.map(hit => [hit.videoId, hit] as [string, TranscriptSearchHit]));
+    for (const row of segmentResult.rows) {
+      byVideo.get(row.video_id)?.segments.push({
+        seq: row.seq,
+        startMs: row.start_ms,
+        durationMs: row.duration_ms,
+        snippet: row.snippet,
+        url: youtubeTimestampUrl(row.video_id, row.start_ms / 1000),
+      });
+    }
+  }
+
+  return {
+    query: options.query,
+    page,
+    pageSize,
+    total: result.rows.length > 0 ? parseInt(result.rows[0].total, 10) : 0,
+    results: hits,
+  };
+}
@@ -6,6 +6,7 @@ export interface SearchOptions {
   endDate?: string;    // e.g., "2025-03-24"
   order?: string;      // e.g., "relevance", "date"
   language?: string;   // e.g., "en"
+  region?: string;     // e.g., "US"
 }
 
 export interface VideoMetadata {
@@ -19,6 +20,14 @@ export interface VideoMetadata {
   thumbnail?: string;
   channel_name: string;
   search_name?: string;  // Optional, added by youtube-fetcher.ts
+  matched_queries?: string[];  // Query variants that found the video
+}
+
+// One caption line as returned by youtube-transcript
+export interface TimedSegment {
+  text: string;
+  offset: number;    // Start time in seconds
+  duration: number;  // Length in seconds
 }
 
 export interface TranscriptSegment {
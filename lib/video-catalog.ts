@@ -0,0 +1,210 @@
+// lib/video-catalog.ts
+import { getPool, searchVideoIds } from "./database";
+import { TimedSegment } from "./types";
+
+export interface SearchConfigSummary {
+  searchName: string;
+  searchPhrase: string;
+  searchPhrases: string[];
+  userId: string;
+  creationDate: string;
+  schedule: string | null;
+  paused: boolean;
+  lastFetchedAt: string | null;
+  videoCount: number;
+  transcriptCount: number;
+  analysisCount: number;
+}
+
+export const VIDEO_SORT_COLUMNS = {
+  title: "v.title",
+  published_date: "v.published_date",
+  channel_name: "v.channel_name",
+  duration_seconds: "v.duration_seconds",
+  video_type: "a.video_type",
+  video_type_confidence: "a.video_type_confidence",
+} as const;
+
+export type VideoSortColumn = keyof typeof VIDEO_SORT_COLUMNS;
+
+export interface VideoListOptions {
+  searchName?: string;
+  videoType?: string;
+  videoLabel?: string;     // Any of the video's labels, not only its primary type; exact VIDEO_TYPES spelling
+  minConfidence?: number;  // 0-1; unclassified videos are left out when set
+  channel?: string;
+  title?: string;        // Case-insensitive substring of the title
+  sort?: VideoSortColumn;
+  order?: "asc" | "desc";
+  page?: number;         // 1-based
+  pageSize?: number;
+}
+
+export interface VideoListItem {
+  videoId: string;
+  title: string;
+  channelName: string;
+  publishedDate: string | null;
+  durationSeconds: number | null;
+  url: string;
+  searchName: string;
+  videoType: string | null;
+  videoLabels: string[] | null;
+  videoTypeConfidence: number | null;
+  hasTranscript: boolean;
+}
+
+export interface VideoDetail {
+  video: VideoListItem & { description: string | null };
+  transcript: { text: string; language: string; segments: TimedSegment[] } | null;
+  analysis: Record<string, any> | null;  // With reviewer corrections applied; null when missing or rejected
+  symptoms: { raw: string; code: string | null; term: string | null }[];
+  // Every search that found the video, with the query variants that matched it
+  searches: { searchName: string; rank: number | null; matchedQueries: string[]; firstSeen: string; lastSeen: string }[];
+}
+
+export const MAX_VIDEO_PAGE_SIZE = 200;
+
+function toVideoListItem(row: any): VideoListItem {
+  return {
+    videoId: row.video_id,
+    title: row.title,
+    channelName: row.channel_name,
+    publishedDate: row.published_date ? new Date(row.published_date).toISOString() : null,
+    durationSeconds: row.duration_seconds,
+    url: row.url,
+    searchName: row.search_name,
+    videoType: row.video_type,
+    videoLabels: row.video_labels || null,
+    videoTypeConfidence: row.video_type_confidence ?? null,
+    hasTranscript: Boolean(row.has_transcript),
+  };
+}
+
+export async function listSearchConfigs(): Promise<SearchConfigSummary[]> {
+  const pool = await getPool();
+  const result = await pool.query(
+    `SELECT sc.search_name, sc.search_phrase, sc.search_phrases, sc.user_id, sc.creation_date,
+       sc.schedule, sc.paused, sc.last_fetched_at,
+       (SELECT COUNT(*) FROM video_searches vs WHERE vs.param_id = sc.param_id) AS video_count,
+       (SELECT COUNT(*) FROM transcripts t JOIN video_searches vs ON vs.video_id = t.video_id
+        WHERE vs.param_id = sc.param_id) AS transcript_count,
+       (SELECT COUNT(*) FROM analysis_reviewed a JOIN video_searches vs ON vs.video_id = a.video_id
+        WHERE vs.param_id = sc.param_id) AS analysis_count
+     FROM SearchConfig sc
+     ORDER BY sc.creation_date DESC`
+  );
+  return result.rows.map((row: any) => ({
+    searchName: row.search_name,
+    searchPhrase: row.search_phrase,
+    searchPhrases: row.search_phrases,
+    userId: row.user_id,
+    creationDate: new Date(row.creation_date).toISOString(),
+    schedule: row.schedule,
+    paused: row.paused,
+    lastFetchedAt: row.last_fetched_at ? new Date(row.last_fetched_at).toISOString() : null,
+    videoCount: parseInt(row.video_count, 10),
+    transcriptCount: parseInt(row.transcript_count, 10),
+    analysisCount: parseInt(row.analysis_count, 10),
+  }));
+}
+
+export async function listVideos(options: VideoListOptions = {}): Promise<{ total: number; videos: VideoListItem[] }> {
+  const page = Math.max(1, Math.floor(options.page || 1));
+  const pageSize = Math.min(MAX_VIDEO_PAGE_SIZE, Math.max(1, Math.floor(options.pageSize || 25)));
+  // Only whitelisted column names reach the SQL text
+  const sortColumn = VIDEO_SORT_COLUMNS[options.sort || "published_date"] || VIDEO_SORT_COLUMNS.published_date;
+  const order = options.order === "asc" ? "ASC" : "DESC";
+
+  const pool = await getPool();
+  const result = await pool.query(
+    `SELECT v.video_id, v.title, v.channel_name, v.published_date, v.duration_seconds, v.url,
+       COALESCE($1::text, v.search_name) AS search_name, a.video_type, a.video_labels, a.video_type_confidence,
+       t.video_id IS NOT NULL AS has_transcript,
+       COUNT(*) OVER () AS total
+     FROM videos v
+     LEFT JOIN analysis_reviewed a ON a.video_id = v.video_id
+     LEFT JOIN transcripts t ON t.video_id = v.video_id
+     WHERE ($1::text IS NULL OR v.video_id IN (${searchVideoIds("$1")}))
+       AND ($2::text IS NULL OR LOWER(a.video_type) = LOWER($2))
+       AND ($3::text IS NULL OR v.channel_name ILIKE '%' || $3 || '%')
+       AND ($4::text IS NULL OR v.title ILIKE '%' || $4 || '%')
+       AND ($7::text IS NULL OR a.video_labels ? $7)
+       AND ($8::real IS NULL OR a.video_type_confidence >= $8)
+     ORDER BY ${sortColumn} ${order} NULLS LAST, v.video_id
+     LIMIT $5 OFFSET $6`,
+    [
+      options.searchName || null,
+      options.videoType || null,
+      options.channel || null,
+      options.title || null,
+      pageSize,
+      (page - 1) * pageSize,
+      options.videoLabel || null,
+      options.minConfidence ?? null,
+    ]
+  );
+  return {
+    total: result.rows.length > 0 ? parseInt(result.rows[0].total, 10) : 0,
+    videos: result.rows.map(toVideoListItem),
+  };
+}
+
+export async function getVideoDetail(videoId: string): Promise<VideoDetail | null> {
+  const pool = await getPool();
+  const videoResult = await pool.query(
+    `SELECT v.*, a.video_type, a.video_labels, a.video_type_confidence, t.video_id IS NOT NULL AS has_transcript
+     FROM videos v
+     LEFT JOIN analysis_reviewed a ON a.video_id = v.video_id
+     LEFT JOIN transcripts t ON t.video_id = v.video_id
+     WHERE v.video_id = $1`,
+    [videoId]
+  );
+  const videoRow = videoResult.rows[0];
+  if (!videoRow) return null;
+
+  const [transcriptResult, segmentResult, analysisResult, symptomResult, searchResult] = await Promise.all([
+    pool.query("SELECT full_transcript, language FROM transcripts WHERE video_id = $1", [videoId]),
+    pool.query("SELECT start_ms, duration_ms, text FROM transcript_segments WHERE video_id = $1 ORDER BY seq", [videoId]),
+    pool.query("SELECT * FROM analysis_reviewed WHERE video_id = $1", [videoId]),
+    pool.query(
+      "SELECT raw_phrase, canonical_code, canonical_term FROM analysis_symptoms WHERE video_id = $1 ORDER BY seq",
+      [videoId]
+    ),
+    pool.query(
+      `SELECT sc.search_name, vs.rank, vs.matched_queries, vs.first_seen, vs.last_seen
+       FROM video_searches vs JOIN SearchConfig sc ON sc.param_id = vs.param_id
+       WHERE vs.video_id = $1 ORDER BY vs.first_seen`,
+      [videoId]
+    ),
+  ]);
+
+  const transcriptRow = transcriptResult.rows[0];
+  return {
+    video: { ...toVideoListItem(videoRow), description: videoRow.description },
+    transcript: transcriptRow
+      ? {
+          text: transcriptRow.full_transcript,
+          language: transcriptRow.language,
+          segments: segmentResult.rows.map((row: any) => ({
+            text: row.text,
+            offset: row.start_ms / 1000,
+            duration: row.duration_ms / 1000,
+          })),
+        }
+      : null,
+    analysis: analysisResult.rows[0] || null,
+    symptoms: symptomResult.rows.map((row: any) => ({
+      raw: row.raw_phrase,
+      code: row.canonical_code,
+      term: row.canonical_term,
+    })),
+    searches: searchResult.rows.map((row: any) => ({
+      searchName: row.search_name,
+      rank: row.rank,
+      matchedQueries: row.matched_queries || [],
+      firstSeen: new Date(row.first_seen).toISOString(),
+      lastSeen: new Date(row.last_seen).toISOString(),
+    })),
+  };
+}
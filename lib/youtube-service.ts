@@ -1,6 +1,6 @@
 // lib/youtube-service.ts
 import { google } from "googleapis";
-import { VideoMetadata, SearchOptions } from "./types";
+import { VideoMetadata, SearchOptions, TimedSegment } from "./types";
 import { DateTime } from "luxon";
 import { TranscriptService } from "./transcript-service";
 import { safeLog } from "./logger";
@@ -33,7 +33,33 @@ export class YouTubeService {
     }
   }
 
+  /**
+   * Runs every query over the date range and merges the results in query order. Each video
+   * records in matched_queries which of the queries found it.
+   */
   async searchVideos(
+    query: string | string[],
+    options: SearchOptions & { yearsBack?: number } = {}
+  ): Promise<VideoMetadata[]> {
+    const queries = Array.isArray(query) ? query : [query];
+    let allVideos: VideoMetadata[] = [];
+    for (const variant of queries) {
+      const videos = await this.searchSingleQuery(variant, options);
+      allVideos = allVideos.concat(videos.map(video => ({ ...video, matched_queries: [variant] })));
+    }
+    if (queries.length === 1) {
+      return allVideos;
+    }
+
+    const uniqueVideos = this.removeDuplicateVideos(allVideos);
+    safeLog("error", `✅ ${queries.length} queries found ${allVideos.length} videos, ${uniqueVideos.length} of them distinct`);
+    if (options.maxResults !== undefined && uniqueVideos.length > options.maxResults) {
+      return uniqueVideos.slice(0, options.maxResults);
+    }
+    return uniqueVideos;
+  }
+
+  private async searchSingleQuery(
     query: string,
     options: SearchOptions & { yearsBack?: number } = {}
   ): Promise<VideoMetadata[]> {
@@ -151,7 +177,7 @@ export class YouTubeService {
         type: ["video"],
         maxResults: maxResultsPerRequest,
         order: options.order || "relevance",
-        regionCode: "US",
+        regionCode: options.region || "US",
         relevanceLanguage: options.language || "en",
         publishedAfter: startDate,
         publishedBefore: endDate,
@@ -245,13 +271,17 @@ export class YouTubeService {
     return allVideos;
   }
 
+  // Keeps the first copy of each video, with the matched_queries of every copy
   private removeDuplicateVideos(videos: VideoMetadata[]): VideoMetadata[] {
-    const uniqueIds = new Set<string>();
+    const unique = new Map<string, VideoMetadata>();
     return videos.filter(video => {
-      if (uniqueIds.has(video.id)) {
+      const kept = unique.get(video.id);
+      if (kept) {
+        const queries = (kept.matched_queries || []).concat(video.matched_queries || []);
+        kept.matched_queries = queries.filter((item, index) => queries.indexOf(item) === index);
         return false;
       }
-      uniqueIds.add(video.id);
+      unique.set(video.id, video);
       return true;
     });
   }
@@ -287,7 +317,7 @@ export class YouTubeService {
     }
   }
 
-  async fetchTranscript(videoId: string): Promise<{ fullText: string; language: string } | null> {
+  async fetchTranscript(videoId: string): Promise<{ fullText: string; language: string; segments: TimedSegment[] } | null> {
     try {
       safeLog("error", "[DEBUG] Fetching transcript for video:", videoId);
       const { segments, language } = await this.transcriptService.getTranscriptWithTimestamps(videoId);
@@ -299,7 +329,11 @@ export class YouTubeService {
 
       const fullText = segments.map(segment => segment.text).join(" ");
       safeLog("error", `[DEBUG] Fetched complete transcript for video ${videoId} in language ${language}`);
-      return { fullText, language };
+      return {
+        fullText,
+        language,
+        segments: segments.map(segment => ({ text: segment.text, offset: segment.offset, duration: segment.duration })),
+      };
     } catch (error) {
       safeLog("error", `Error fetching transcript for video ${videoId}:`, error);
       return null;
@@ -1,24 +1,27 @@
 // lib/youtube.ts
 import { YouTubeService } from "./youtube-service";
 import { TranscriptService } from "./transcript-service";
-import { VideoMetadata, SearchOptions } from "./types";
+import { VideoMetadata, SearchOptions, TimedSegment } from "./types";
 import { safeLog } from "./logger";
 
 const youtubeService = new YouTubeService(process.env.YOUTUBE_API_KEY || "");
 const transcriptService = new TranscriptService();
 
-export async function searchDiseaseVideos(query: string, options: SearchOptions = {}): Promise<VideoMetadata[]> {
+export async function searchDiseaseVideos(query: string | string[], options: SearchOptions = {}): Promise<VideoMetadata[]> {
   const searchOptions: SearchOptions = {
     ...options,
     yearsBack: options.yearsBack || 5,  // Only default yearsBack
     startDate: options.startDate,
     endDate: options.endDate,
   };
-  safeLog("error", `🔍 Fetching all available videos for "${query}" with options: ${JSON.stringify(searchOptions)}`);
+  const queries = Array.isArray(query) ? query : [query];
+  safeLog("error", `🔍 Fetching all available videos for "${queries.join('", "')}" with options: ${JSON.stringify(searchOptions)}`);
   return youtubeService.searchVideos(query, searchOptions);
 }
 
-export async function getTranscript(videoId: string): Promise<{ transcript: string; language: string } | null> {
+export async function getTranscript(
+  videoId: string
+): Promise<{ transcript: string; language: string; segments: TimedSegment[] } | null> {
   try {
     safeLog("error", `[DEBUG] Attempting to fetch transcript for ${videoId}`);
     const { segments, language } = await transcriptService.getTranscriptWithTimestamps(videoId);
@@ -26,7 +29,11 @@ export async function getTranscript(videoId: string): Promise<{ transcript: stri
     if (segments.length > 0) {
       const transcriptText = segments.map(item => item.text).join(" ");
       safeLog("error", `[DEBUG] Fetched transcript for ${videoId} in language ${language}`);
-      return { transcript: transcriptText, language };
+      return {
+        transcript: transcriptText,
+        language,
+        segments: segments.map(item => ({ text: item.text, offset: item.offset, duration: item.duration })),
+      };
     }
     safeLog("error", `[DEBUG] No segments found for ${videoId} after all attempts`);
     return null;
@@ -0,0 +1,33 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { listAnalysisVersions, diffAnalysisVersions } from "@/lib/analysis-versions";
+import { queryParam, positiveIntParam } from "@/lib/api-params";
+import { safeLog } from "@/lib/logger";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const videoId = queryParam(req, "videoId") as string;
+  const from = positiveIntParam(req, "from");
+  const to = positiveIntParam(req, "to");
+  if (from === null || to === null) {
+    return res.status(400).json({ error: "from and to must be version ids" });
+  }
+
+  try {
+    const versions = await listAnalysisVersions(videoId);
+    if (versions.length === 0) {
+      return res.status(404).json({ error: `No analysis versions stored for video ${videoId}` });
+    }
+    // Diffs the current version against the previous one unless from/to pick others
+    const diff = await diffAnalysisVersions(videoId, { fromVersionId: from, toVersionId: to });
+    if (!diff && (from || to)) {
+      return res.status(404).json({ error: `Version not found for video ${videoId}` });
+    }
+    return res.status(200).json({ versions, diff });
+  } catch (error: any) {
+    safeLog("error", `API error in /api/analysis-versions/${videoId}:`, error.message);
+    return res.status(500).json({ error: "Failed to process request", details: error.message });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { getCohortAnalytics } from "@/lib/analytics";
+import { queryParam, DATE_PATTERN } from "@/lib/api-params";
+import { safeLog } from "@/lib/logger";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const searchName = queryParam(req, "search_name");
+    if (!searchName) {
+      return res.status(400).json({ error: "search_name is required" });
+    }
+
+    const startDate = queryParam(req, "start_date");
+    const endDate = queryParam(req, "end_date");
+    for (const date of [startDate, endDate]) {
+      if (date && !DATE_PATTERN.test(date)) {
+        return res.status(400).json({ error: `Invalid date "${date}"; use YYYY-MM-DD` });
+      }
+    }
+
+    const limitParam = queryParam(req, "limit");
+    const limit = limitParam === undefined ? undefined : Number(limitParam);
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      return res.status(400).json({ error: "limit must be a positive integer" });
+    }
+
+    const analytics = await getCohortAnalytics(searchName, { startDate, endDate, limit });
+    if (analytics.totals.videos === 0) {
+      return res.status(404).json({ error: `No videos found for search term "${searchName}"` });
+    }
+    return res.status(200).json(analytics);
+  } catch (error: any) {
+    safeLog("error", "API error in /api/analytics:", error.message);
+    return res.status(500).json({ error: "Failed to process request", details: error.message });
+  }
+}
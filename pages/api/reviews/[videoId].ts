@@ -0,0 +1,35 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { getAnalysisReview, submitReview, ReviewValidationError } from "@/lib/review";
+import { queryParam } from "@/lib/api-params";
+import { safeLog } from "@/lib/logger";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const videoId = queryParam(req, "videoId") as string;
+
+  try {
+    if (req.method === "GET") {
+      const review = await getAnalysisReview(videoId);
+      if (!review) {
+        return res.status(404).json({ error: `No analysis stored for video ${videoId}` });
+      }
+      return res.status(200).json(review);
+    }
+
+    if (req.method === "POST") {
+      if (!(await getAnalysisReview(videoId))) {
+        return res.status(404).json({ error: `No analysis stored for video ${videoId}` });
+      }
+      const { reviewer, status, corrections, revert, note } = req.body || {};
+      const review = await submitReview(videoId, { reviewer, status, corrections, revert, note });
+      return res.status(200).json(review);
+    }
+
+    return res.status(405).json({ error: "Method not allowed" });
+  } catch (error: any) {
+    if (error instanceof ReviewValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    safeLog("error", `API error in /api/reviews/${videoId}:`, error.message);
+    return res.status(500).json({ error: "Failed to process request", details: error.message });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { getReviewQueue, REVIEW_STATUSES, ReviewStatus } from "@/lib/review";
+import { queryParam, positiveIntParam } from "@/lib/api-params";
+import { safeLog } from "@/lib/logger";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const status = queryParam(req, "status");
+    if (status && !REVIEW_STATUSES.includes(status as ReviewStatus)) {
+      return res.status(400).json({ error: `status must be one of: ${REVIEW_STATUSES.join(", ")}` });
+    }
+    const page = positiveIntParam(req, "page");
+    const pageSize = positiveIntParam(req, "page_size");
+    if (page === null || pageSize === null) {
+      return res.status(400).json({ error: "page and page_size must be positive integers" });
+    }
+
+    const queue = await getReviewQueue({
+      status: status as ReviewStatus | undefined,
+      searchName: queryParam(req, "search_name"),
+      page,
+      pageSize,
+    });
+    return res.status(200).json(queue);
+  } catch (error: any) {
+    safeLog("error", "API error in /api/reviews:", error.message);
+    return res.status(500).json({ error: "Failed to process request", details: error.message });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import {
+  getSearchConfigDetail,
+  updateSearchConfig,
+  deleteSearchConfig,
+  SearchConfigValidationError,
+} from "@/lib/search-configs";
+import { queryParam } from "@/lib/api-params";
+import { safeLog } from "@/lib/logger";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const searchName = queryParam(req, "searchName") as string;
+
+  try {
+    if (req.method === "GET") {
+      const searchConfig = await getSearchConfigDetail(searchName);
+      if (!searchConfig) {
+        return res.status(404).json({ error: `Search config "${searchName}" not found` });
+      }
+      return res.status(200).json(searchConfig);
+    }
+
+    if (req.method === "PATCH") {
+      const searchConfig = await updateSearchConfig(searchName, req.body);
+      if (!searchConfig) {
+        return res.status(404).json({ error: `Search config "${searchName}" not found` });
+      }
+      return res.status(200).json(searchConfig);
+    }
+
+    if (req.method === "DELETE") {
+      if (!(await deleteSearchConfig(searchName))) {
+        return res.status(404).json({ error: `Search config "${searchName}" not found` });
+      }
+      return res.status(204).end();
+    }
+
+    return res.status(405).json({ error: "Method not allowed" });
+  } catch (error: any) {
+    if (error instanceof SearchConfigValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    safeLog("error", `API error in /api/search-configs/${searchName}:`, error.message);
+    return res.status(500).json({ error: "Failed to process request", details: error.message });
+  }
+}
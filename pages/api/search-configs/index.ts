@@ -0,0 +1,26 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { listSearchConfigs } from "@/lib/video-catalog";
+import { createSearchConfig, SearchConfigValidationError } from "@/lib/search-configs";
+import { safeLog } from "@/lib/logger";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    if (req.method === "GET") {
+      const searchConfigs = await listSearchConfigs();
+      return res.status(200).json({ searchConfigs });
+    }
+
+    if (req.method === "POST") {
+      const searchConfig = await createSearchConfig(req.body);
+      return res.status(201).json(searchConfig);
+    }
+
+    return res.status(405).json({ error: "Method not allowed" });
+  } catch (error: any) {
+    if (error instanceof SearchConfigValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    safeLog("error", "API error in /api/search-configs:", error.message);
+    return res.status(500).json({ error: "Failed to process request", details: error.message });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextApiRequest, NextApiResponse } from "next";
-import { getPool } from "@/lib/database";
+import { getPool, searchVideoIds } from "@/lib/database";
+import { VIDEO_TYPES, UNKNOWN_VIDEO_TYPE } from "@/lib/analysis-schema";
 import { safeLog } from "@/lib/logger";
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
@@ -8,11 +9,17 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const { disease, keywords } = req.body;
+    const { disease, keywords, minConfidence } = req.body;
 
     if (!disease || typeof disease !== "string") {
       return res.status(400).json({ error: "A valid disease name is required" });
     }
+    // Classification counts can leave out videos the model was unsure about
+    if (minConfidence !== undefined && minConfidence !== null
+      && (typeof minConfidence !== "number" || minConfidence < 0 || minConfidence > 1)) {
+      return res.status(400).json({ error: "minConfidence must be a number from 0 to 1" });
+    }
+    const confidenceFloor = typeof minConfidence === "number" ? minConfidence : null;
 
     const searchName = keywords ? `${disease} ${keywords}`.trim() : disease;
 
@@ -32,46 +39,67 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     // Count videos
     const videoCountResult = await pool.query(
-      `SELECT COUNT(*) FROM videos WHERE search_name = $1`,
+      `SELECT COUNT(*) FROM (${searchVideoIds("$1")}) found`,
       [searchName]
     );
     const videoCount = parseInt(videoCountResult.rows[0].count, 10);
 
     // Count transcripts
     const transcriptCountResult = await pool.query(
-      `SELECT COUNT(*) FROM transcripts WHERE video_id IN (
-        SELECT video_id FROM videos WHERE search_name = $1
-      )`,
+      `SELECT COUNT(*) FROM transcripts WHERE video_id IN (${searchVideoIds("$1")})`,
       [searchName]
     );
     const transcriptCount = parseInt(transcriptCountResult.rows[0].count, 10);
 
-    // Count analyzed videos
+    // Count analyzed videos. Like /api/analytics, the counts read analysis_reviewed, which leaves out
+    // rejected analyses and applies reviewer corrections
     const analysisCountResult = await pool.query(
-      `SELECT COUNT(*) FROM analysis WHERE video_id IN (
-        SELECT video_id FROM videos WHERE search_name = $1
-      )`,
+      `SELECT COUNT(*) FROM analysis_reviewed WHERE video_id IN (${searchVideoIds("$1")})`,
       [searchName]
     );
     const analysisCount = parseInt(analysisCountResult.rows[0].count, 10);
 
-    // Count patient stories
-    const patientStoriesCountResult = await pool.query(
-      `SELECT COUNT(*) FROM analysis WHERE video_type = 'patient story' AND video_id IN (
-        SELECT video_id FROM videos WHERE search_name = $1
-      )`,
-      [searchName]
+    // Count analyses by primary type and by every label they carry
+    const videoTypeCountsResult = await pool.query(
+      `SELECT 'type' AS kind, COALESCE(video_type, 'unknown') AS label, COUNT(*) AS count
+       FROM analysis_reviewed
+       WHERE video_id IN (${searchVideoIds("$1")})
+         AND ($2::real IS NULL OR video_type_confidence >= $2)
+       GROUP BY 2
+       UNION ALL
+       SELECT 'label', label, COUNT(*)
+       FROM analysis_reviewed
+       CROSS JOIN LATERAL jsonb_array_elements_text(COALESCE(video_labels, '[]'::jsonb)) AS label
+       WHERE video_id IN (${searchVideoIds("$1")})
+         AND ($2::real IS NULL OR video_type_confidence >= $2)
+       GROUP BY 2`,
+      [searchName, confidenceFloor]
     );
-    const patientStoriesCount = parseInt(patientStoriesCountResult.rows[0].count, 10);
+    const videoTypeCounts: Record<string, number> = {};
+    const videoLabelCounts: Record<string, number> = {};
+    for (const type of VIDEO_TYPES) {
+      videoTypeCounts[type] = 0;
+      if (type !== UNKNOWN_VIDEO_TYPE) videoLabelCounts[type] = 0;
+    }
+    for (const row of videoTypeCountsResult.rows) {
+      (row.kind === "type" ? videoTypeCounts : videoLabelCounts)[row.label] = parseInt(row.count, 10);
+    }
+    const patientStoriesCount = videoTypeCounts["patient story"];
+    const kolInterviewsCount = videoTypeCounts["KOL interview"];
 
-    // Count KOL interviews
-    const kolInterviewsCountResult = await pool.query(
-      `SELECT COUNT(*) FROM analysis WHERE video_type = 'KOL interview' AND video_id IN (
-        SELECT video_id FROM videos WHERE search_name = $1
-      )`,
+    // Count analyses answering each custom field
+    const customFieldCountsResult = await pool.query(
+      `SELECT field.key AS name, COUNT(*) AS count
+       FROM analysis_reviewed a
+       CROSS JOIN LATERAL jsonb_each(a.custom_fields) AS field
+       WHERE field.value <> 'null'::jsonb AND a.video_id IN (${searchVideoIds("$1")})
+       GROUP BY field.key`,
       [searchName]
     );
-    const kolInterviewsCount = parseInt(kolInterviewsCountResult.rows[0].count, 10);
+    const customFieldCounts: Record<string, number> = {};
+    for (const row of customFieldCountsResult.rows) {
+      customFieldCounts[row.name] = parseInt(row.count, 10);
+    }
 
     // Get the LLM model from environment variable
     const llmModel = process.env.LLM_MODEL || "Unknown";
@@ -82,6 +110,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       analysisCount,
       patientStoriesCount,
       kolInterviewsCount,
+      videoTypeCounts,
+      videoLabelCounts,
+      customFieldCounts,
       llmModel,
       lastUpdated: lastUpdated.toISOString(),
     });
@@ -0,0 +1,47 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { searchTranscripts, MAX_PAGE_SIZE } from "@/lib/transcript-search";
+import { queryParam, positiveIntParam, DATE_PATTERN } from "@/lib/api-params";
+import { safeLog } from "@/lib/logger";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const query = queryParam(req, "q");
+    if (!query) {
+      return res.status(400).json({ error: "A search query (q) is required" });
+    }
+
+    const startDate = queryParam(req, "start_date");
+    const endDate = queryParam(req, "end_date");
+    for (const date of [startDate, endDate]) {
+      if (date && !DATE_PATTERN.test(date)) {
+        return res.status(400).json({ error: `Invalid date "${date}"; use YYYY-MM-DD` });
+      }
+    }
+
+    const page = positiveIntParam(req, "page");
+    const pageSize = positiveIntParam(req, "page_size");
+    if (page === null || pageSize === null || (pageSize && pageSize > MAX_PAGE_SIZE)) {
+      return res.status(400).json({ error: `page and page_size must be positive integers (page_size at most ${MAX_PAGE_SIZE})` });
+    }
+
+    const result = await searchTranscripts({
+      query,
+      searchName: queryParam(req, "search_name"),
+      videoType: queryParam(req, "video_type"),
+      channel: queryParam(req, "channel"),
+      startDate,
+      endDate,
+      page,
+      pageSize,
+    });
+
+    return res.status(200).json(result);
+  } catch (error: any) {
+    safeLog("error", "API error in /api/transcripts/search:", error.message);
+    return res.status(500).json({ error: "Failed to process request", details: error.message });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { semanticSearch, MAX_SEMANTIC_RESULTS } from "@/lib/embeddings";
+import { queryParam } from "@/lib/api-params";
+import { safeLog } from "@/lib/logger";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const query = queryParam(req, "q");
+    if (!query) {
+      return res.status(400).json({ error: "A search query (q) is required" });
+    }
+
+    const limitParam = queryParam(req, "limit");
+    const limit = limitParam === undefined ? undefined : Number(limitParam);
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEMANTIC_RESULTS)) {
+      return res.status(400).json({ error: `limit must be an integer between 1 and ${MAX_SEMANTIC_RESULTS}` });
+    }
+
+    const results = await semanticSearch(query, {
+      limit,
+      searchName: queryParam(req, "search_name"),
+      videoType: queryParam(req, "video_type"),
+    });
+
+    return res.status(200).json({ query, results });
+  } catch (error: any) {
+    safeLog("error", "API error in /api/transcripts/semantic-search:", error.message);
+    return res.status(500).json({ error: "Failed to process request", details: error.message });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { getVideoDetail } from "@/lib/video-catalog";
+import { queryParam } from "@/lib/api-params";
+import { safeLog } from "@/lib/logger";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const videoId = queryParam(req, "videoId");
+  try {
+    const detail = videoId ? await getVideoDetail(videoId) : null;
+    if (!detail) {
+      return res.status(404).json({ error: `Video "${videoId}" not found` });
+    }
+    return res.status(200).json(detail);
+  } catch (error: any) {
+    safeLog("error", `API error in /api/videos/${videoId}:`, error.message);
+    return res.status(500).json({ error: "Failed to process request", details: error.message });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { listVideos, VIDEO_SORT_COLUMNS, VideoSortColumn, MAX_VIDEO_PAGE_SIZE } from "@/lib/video-catalog";
+import { VIDEO_TYPES } from "@/lib/analysis-schema";
+import { queryParam, positiveIntParam, fractionParam } from "@/lib/api-params";
+import { safeLog } from "@/lib/logger";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const sort = queryParam(req, "sort");
+    if (sort && !(sort in VIDEO_SORT_COLUMNS)) {
+      return res.status(400).json({ error: `sort must be one of: ${Object.keys(VIDEO_SORT_COLUMNS).join(", ")}` });
+    }
+    const order = queryParam(req, "order");
+    if (order && order !== "asc" && order !== "desc") {
+      return res.status(400).json({ error: "order must be asc or desc" });
+    }
+    const page = positiveIntParam(req, "page");
+    const pageSize = positiveIntParam(req, "page_size");
+    if (page === null || pageSize === null || (pageSize && pageSize > MAX_VIDEO_PAGE_SIZE)) {
+      return res.status(400).json({ error: `page and page_size must be positive integers (page_size at most ${MAX_VIDEO_PAGE_SIZE})` });
+    }
+
+    const label = queryParam(req, "video_label");
+    const videoLabel = label && VIDEO_TYPES.find(type => type.toLowerCase() === label.toLowerCase());
+    if (label && !videoLabel) {
+      return res.status(400).json({ error: `video_label must be one of: ${VIDEO_TYPES.join(", ")}` });
+    }
+    const minConfidence = fractionParam(req, "min_confidence");
+    if (minConfidence === null) {
+      return res.status(400).json({ error: "min_confidence must be a number from 0 to 1" });
+    }
+
+    const result = await listVideos({
+      searchName: queryParam(req, "search_name"),
+      videoType: queryParam(req, "video_type"),
+      videoLabel,
+      minConfidence,
+      channel: queryParam(req, "channel"),
+      title: queryParam(req, "title"),
+      sort: sort as VideoSortColumn | undefined,
+      order: order as "asc" | "desc" | undefined,
+      page,
+      pageSize,
+    });
+    return res.status(200).json(result);
+  } catch (error: any) {
+    safeLog("error", "API error in /api/videos:", error.message);
+    return res.status(500).json({ error: "Failed to process request", details: error.message });
+  }
+}
@@ -0,0 +1,299 @@
+import { useEffect, useState } from "react";
+import { useRouter } from "next/router";
+import Link from "next/link";
+import axios from "axios";
+import { FaSpinner, FaCheck, FaTimes, FaSave, FaUndo } from "react-icons/fa";
+import Layout from "@/components/Layout";
+
+type FieldKind = "videoType" | "text" | "list" | "history";
+
+const FIELDS: { key: string; label: string; kind: FieldKind }[] = [
+  { key: "video_type", label: "Video Type", kind: "videoType" },
+  { key: "video_labels", label: "Video Labels", kind: "list" },
+  { key: "name", label: "Name", kind: "text" },
+  { key: "age", label: "Age", kind: "text" },
+  { key: "sex", label: "Sex", kind: "text" },
+  { key: "location", label: "Location", kind: "text" },
+  { key: "symptoms", label: "Symptoms", kind: "list" },
+  { key: "medical_history_of_patient", label: "Medical History", kind: "history" },
+  { key: "family_medical_history", label: "Family Medical History", kind: "history" },
+  { key: "challenges_faced_during_diagnosis", label: "Challenges During Diagnosis", kind: "list" },
+  { key: "key_opinion", label: "Key Opinion", kind: "text" },
+];
+
+const VIDEO_TYPES = [
+  "patient story",
+  "caregiver story",
+  "KOL interview",
+  "conference talk",
+  "clinical trial promo",
+  "fundraising",
+  "advertisement",
+  "Informational",
+  "unrelated",
+  "unknown",
+];
+
+interface AnalysisReview {
+  videoId: string;
+  title: string;
+  url: string;
+  searchName: string;
+  status: string;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  note: string | null;
+  original: Record<string, any>;
+  overrides: { field: string; value: any; reviewer: string; updatedAt: string }[];
+  effective: Record<string, any>;
+}
+
+// Lists are edited one item per line and histories as JSON
+function toDraft(kind: FieldKind, value: any): string {
+  if (value === null || value === undefined) return "";
+  if (kind === "list") return Array.isArray(value) ? value.join("\n") : String(value);
+  if (kind === "history") return JSON.stringify(value, null, 2);
+  return String(value);
+}
+
+function fromDraft(kind: FieldKind, draft: string): any {
+  const text = draft.trim();
+  if (!text) return null;
+  if (kind === "list") return text.split("\n").map((line) => line.trim()).filter(Boolean);
+  if (kind === "history") return JSON.parse(text);
+  return text;
+}
+
+function display(value: any): string {
+  if (value === null || value === undefined) return "—";
+  if (Array.isArray(value)) return value.map((item) => (typeof item === "string" ? item : JSON.stringify(item))).join("\n");
+  if (typeof value === "object") return JSON.stringify(value, null, 2);
+  return String(value);
+}
+
+export default function ReviewPage() {
+  const router = useRouter();
+  const videoId = typeof router.query.videoId === "string" ? router.query.videoId : null;
+  const [review, setReview] = useState<AnalysisReview | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [edited, setEdited] = useState<Set<string>>(new Set());
+  const [reviewer, setReviewer] = useState("");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const load = (data: AnalysisReview) => {
+    setReview(data);
+    setDrafts(Object.fromEntries(FIELDS.map(({ key, kind }) => [key, toDraft(kind, data.effective[key])])));
+    setEdited(new Set());
+    setNote(data.note || "");
+  };
+
+  useEffect(() => {
+    setReviewer(window.localStorage.getItem("reviewer") || "");
+  }, []);
+
+  useEffect(() => {
+    if (!videoId) return;
+    axios
+      .get(`/api/reviews/${encodeURIComponent(videoId)}`)
+      .then((response) => load(response.data))
+      .catch((err) => setError(err.response?.data?.error || "An error occurred while fetching the analysis"));
+  }, [videoId]);
+
+  const submit = async (body: { status?: string; corrections?: Record<string, any>; revert?: string[] }) => {
+    if (!videoId) return;
+    if (!reviewer.trim()) {
+      setError("Enter your reviewer id first");
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      window.localStorage.setItem("reviewer", reviewer.trim());
+      const response = await axios.post(`/api/reviews/${encodeURIComponent(videoId)}`, {
+        reviewer: reviewer.trim(),
+        note: note.trim() || undefined,
+        ...body,
+      });
+      load(response.data);
+      setMessage(`Saved as ${response.data.status}`);
+    } catch (err: any) {
+      setError(err.response?.data?.error || "An error occurred while saving the review");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveCorrections = () => {
+    const corrections: Record<string, any> = {};
+    try {
+      FIELDS.filter(({ key }) => edited.has(key)).forEach(({ key, kind }) => {
+        corrections[key] = fromDraft(kind, drafts[key]);
+      });
+    } catch {
+      setError("Histories must be valid JSON");
+      return;
+    }
+    submit({ corrections });
+  };
+
+  if (!review) {
+    return (
+      <Layout title="Review">
+        {error ? (
+          <div className="p-4 bg-error text-white rounded-lg">{error}</div>
+        ) : (
+          <p className="flex items-center gap-2">
+            <FaSpinner className="animate-spin" /> Loading...
+          </p>
+        )}
+      </Layout>
+    );
+  }
+
+  const overridden = new Map(review.overrides.map((override) => [override.field, override]));
+
+  return (
+    <Layout title={review.title} subtitle={`Review · ${review.searchName}`}>
+      <div className="bg-card p-6 rounded-lg shadow-md mb-6 flex flex-col md:flex-row md:items-end gap-4">
+        <div className="flex-1 text-sm">
+          <p>
+            Status: <span className="font-semibold">{review.status}</span>
+            {review.reviewedAt && (
+              <> by {review.reviewedBy} on {new Date(review.reviewedAt).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" })}</>
+            )}
+          </p>
+          <p className="mt-1">
+            <Link href={`/videos/${encodeURIComponent(review.videoId)}`} className="text-primary hover:text-secondary font-medium">
+              Transcript and evidence
+            </Link>
+          </p>
+        </div>
+        <div>
+          <label htmlFor="reviewer" className="block text-sm font-medium text-text mb-1">Reviewer</label>
+          <input
+            id="reviewer"
+            type="text"
+            value={reviewer}
+            onChange={(e) => setReviewer(e.target.value)}
+            placeholder="Your reviewer id"
+            className="px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-secondary"
+          />
+        </div>
+      </div>
+
+      {error && <div className="mb-6 p-4 bg-error text-white rounded-lg">{error}</div>}
+      {message && <div className="mb-6 p-4 bg-success text-white rounded-lg">{message}</div>}
+
+      <div className="bg-card p-6 rounded-lg shadow-md overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="border-b">
+              <th className="py-2 pr-4 font-semibold w-48">Field</th>
+              <th className="py-2 pr-4 font-semibold">LLM output</th>
+              <th className="py-2 font-semibold">Reviewed value</th>
+            </tr>
+          </thead>
+          <tbody>
+            {FIELDS.map(({ key, label, kind }) => {
+              const override = overridden.get(key);
+              const onChange = (value: string) => {
+                setDrafts({ ...drafts, [key]: value });
+                setEdited(new Set(edited).add(key));
+              };
+              return (
+                <tr key={key} className="border-b align-top">
+                  <td className="py-2 pr-4 font-medium">
+                    {label}
+                    {override && (
+                      <p className="text-xs font-normal mt-1">
+                        Corrected by {override.reviewer}
+                        <button
+                          type="button"
+                          onClick={() => submit({ status: review.status, revert: [key] })}
+                          className="ml-2 text-primary hover:text-secondary inline-flex items-center gap-1"
+                        >
+                          <FaUndo /> Revert
+                        </button>
+                      </p>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4 whitespace-pre-wrap">{display(review.original[key])}</td>
+                  <td className="py-2">
+                    {kind === "videoType" ? (
+                      <select
+                        value={drafts[key]}
+                        onChange={(e) => onChange(e.target.value)}
+                        className="px-2 py-1 border rounded-lg"
+                      >
+                        <option value="">—</option>
+                        {VIDEO_TYPES.map((type) => (
+                          <option key={type} value={type}>{type}</option>
+                        ))}
+                      </select>
+                    ) : kind === "text" ? (
+                      <input
+                        type="text"
+                        value={drafts[key]}
+                        onChange={(e) => onChange(e.target.value)}
+                        className="w-full px-2 py-1 border rounded-lg"
+                      />
+                    ) : (
+                      <textarea
+                        value={drafts[key]}
+                        onChange={(e) => onChange(e.target.value)}
+                        rows={Math.max(3, (drafts[key] || "").split("\n").length)}
+                        className={`w-full px-2 py-1 border rounded-lg ${kind === "history" ? "font-mono text-xs" : ""}`}
+                      />
+                    )}
+                    {edited.has(key) && <span className="text-xs text-warning">Edited</span>}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        <label htmlFor="note" className="block text-sm font-medium text-text mt-6 mb-1">Note</label>
+        <textarea
+          id="note"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          rows={2}
+          className="w-full px-2 py-1 border rounded-lg"
+        />
+
+        <div className="flex flex-wrap gap-4 mt-6">
+          <button
+            type="button"
+            disabled={saving || edited.size === 0}
+            onClick={saveCorrections}
+            className="bg-primary text-white px-6 py-2 rounded-lg flex items-center gap-2 hover:bg-secondary transition-colors disabled:opacity-50"
+          >
+            <FaSave /> Save corrections
+          </button>
+          <button
+            type="button"
+            disabled={saving || edited.size > 0}
+            onClick={() => submit({ status: "approved" })}
+            className="bg-success text-white px-6 py-2 rounded-lg flex items-center gap-2 disabled:opacity-50"
+          >
+            <FaCheck /> Approve
+          </button>
+          <button
+            type="button"
+            disabled={saving}
+            onClick={() => submit({ status: "rejected" })}
+            className="bg-error text-white px-6 py-2 rounded-lg flex items-center gap-2 disabled:opacity-50"
+          >
+            <FaTimes /> Reject
+          </button>
+          {saving && <FaSpinner className="animate-spin self-center" />}
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import axios from "axios";
+import { FaSpinner } from "react-icons/fa";
+import Layout from "@/components/Layout";
+
+interface ReviewQueueItem {
+  videoId: string;
+  title: string;
+  searchName: string;
+  videoType: string | null;
+  status: string;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  overrideCount: number;
+}
+
+const STATUSES = ["unreviewed", "approved", "corrected", "rejected"];
+const PAGE_SIZE = 50;
+
+export default function ReviewQueue() {
+  const [status, setStatus] = useState("unreviewed");
+  const [searchName, setSearchName] = useState("");
+  const [page, setPage] = useState(1);
+  const [items, setItems] = useState<ReviewQueueItem[] | null>(null);
+  const [total, setTotal] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      setError(null);
+      axios
+        .get("/api/reviews", {
+          params: { status: status || undefined, search_name: searchName || undefined, page, page_size: PAGE_SIZE },
+        })
+        .then((response) => {
+          if (cancelled) return;
+          setItems(response.data.items);
+          setTotal(response.data.total);
+        })
+        .catch((err) => {
+          if (!cancelled) setError(err.response?.data?.error || "An error occurred while fetching the review queue");
+        });
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [status, searchName, page]);
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <Layout title="Review Queue" subtitle="Check and correct what the LLM extracted">
+      <div className="flex flex-col md:flex-row gap-4 mb-6">
+        <select
+          value={status}
+          onChange={(e) => { setStatus(e.target.value); setPage(1); }}
+          className="px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-secondary"
+        >
+          <option value="">All statuses</option>
+          {STATUSES.map((value) => (
+            <option key={value} value={value}>{value}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={searchName}
+          onChange={(e) => { setSearchName(e.target.value); setPage(1); }}
+          placeholder="Search name, e.g. Friedreich's ataxia"
+          className="flex-1 px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-secondary"
+        />
+      </div>
+
+      {error && <div className="mb-6 p-4 bg-error text-white rounded-lg">{error}</div>}
+
+      {!items && !error && (
+        <p className="flex items-center gap-2">
+          <FaSpinner className="animate-spin" /> Loading...
+        </p>
+      )}
+
+      {items && (
+        <div className="bg-card p-6 rounded-lg shadow-md overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="py-2 pr-4 font-semibold">Video</th>
+                <th className="py-2 pr-4 font-semibold">Search</th>
+                <th className="py-2 pr-4 font-semibold">Type</th>
+                <th className="py-2 pr-4 font-semibold">Status</th>
+                <th className="py-2 pr-4 font-semibold">Corrections</th>
+                <th className="py-2 font-semibold">Reviewed</th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((item) => (
+                <tr key={item.videoId} className="border-b">
+                  <td className="py-2 pr-4">
+                    <Link href={`/reviews/${encodeURIComponent(item.videoId)}`} className="text-primary hover:text-secondary font-medium">
+                      {item.title}
+                    </Link>
+                  </td>
+                  <td className="py-2 pr-4">{item.searchName}</td>
+                  <td className="py-2 pr-4">{item.videoType || "—"}</td>
+                  <td className="py-2 pr-4">{item.status}</td>
+                  <td className="py-2 pr-4">{item.overrideCount}</td>
+                  <td className="py-2">
+                    {item.reviewedAt
+                      ? `${item.reviewedBy} · ${new Date(item.reviewedAt).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" })}`
+                      : "—"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {items.length === 0 && <p className="mt-4 text-sm">Nothing to review.</p>}
+
+          <div className="flex items-center justify-between mt-4 text-sm">
+            <span>{total} analyses</span>
+            <div className="flex items-center gap-2">
+              <button type="button" disabled={page <= 1} onClick={() => setPage(page - 1)} className="px-3 py-1 border rounded-lg disabled:opacity-50">
+                Previous
+              </button>
+              <span>Page {page} of {pageCount}</span>
+              <button type="button" disabled={page >= pageCount} onClick={() => setPage(page + 1)} className="px-3 py-1 border rounded-lg disabled:opacity-50">
+                Next
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </Layout>
+  );
+}
@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import { useRouter } from "next/router";
+import axios from "axios";
+import { FaVideo, FaFileAlt, FaBrain, FaClock, FaUser, FaUserTie, FaSpinner } from "react-icons/fa";
+import Layout from "@/components/Layout";
+import StatCard from "@/components/StatCard";
+import CountBarChart from "@/components/CountBarChart";
+import VideoTable from "@/components/VideoTable";
+
+interface SearchCounts {
+  videoCount: number;
+  transcriptCount: number;
+  analysisCount: number;
+  patientStoriesCount: number;
+  kolInterviewsCount: number;
+  llmModel: string;
+  lastUpdated: string;
+}
+
+interface CountRow {
+  label: string;
+  count: number;
+}
+
+interface CustomFieldSummary {
+  name: string;
+  description: string;
+  answered: number;
+  values: CountRow[];
+  stats: { min: number; max: number; mean: number; median: number } | null;
+}
+
+interface Analytics {
+  videoTypes: CountRow[];
+  topSymptoms: CountRow[];
+  ageDistribution: CountRow[];
+  sexDistribution: CountRow[];
+  challengeThemes: CountRow[];
+  locations: CountRow[];
+  customFields: CustomFieldSummary[];
+}
+
+export default function SearchDashboard() {
+  const router = useRouter();
+  const searchName = typeof router.query.searchName === "string" ? router.query.searchName : null;
+  const [counts, setCounts] = useState<SearchCounts | null>(null);
+  const [analytics, setAnalytics] = useState<Analytics | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!searchName) return;
+    setError(null);
+    axios
+      .post("/api/search", { disease: searchName })
+      .then((response) => setCounts(response.data))
+      .catch((err) => setError(err.response?.data?.error || "An error occurred while fetching data"));
+    axios
+      .get("/api/analytics", { params: { search_name: searchName, limit: 15 } })
+      .then((response) => setAnalytics(response.data))
+      .catch(() => setAnalytics(null));
+  }, [searchName]);
+
+  return (
+    <Layout title={searchName || "Search"} subtitle="Collected videos, analyses and cohort figures">
+      {error && <div className="mb-6 p-4 bg-error text-white rounded-lg">{error}</div>}
+
+      {!counts && !error && (
+        <p className="flex items-center gap-2">
+          <FaSpinner className="animate-spin" /> Loading...
+        </p>
+      )}
+
+      {counts && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
+          <StatCard icon={FaVideo} label="Videos Found" value={counts.videoCount} />
+          <StatCard icon={FaFileAlt} label="Transcripts Available" value={counts.transcriptCount} />
+          <StatCard icon={FaBrain} label="Videos Analyzed by LLM" value={counts.analysisCount}>
+            <p className="text-sm text-text mt-1">
+              Model: <span className="font-medium">{counts.llmModel}</span>
+            </p>
+          </StatCard>
+          <StatCard icon={FaUser} label="Patient Stories" value={counts.patientStoriesCount} />
+          <StatCard icon={FaUserTie} label="KOL Interviews" value={counts.kolInterviewsCount} />
+          <StatCard
+            icon={FaClock}
+            label="Last Updated"
+            value={new Date(counts.lastUpdated).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" })}
+          />
+        </div>
+      )}
+
+      {analytics && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+          <CountBarChart title="Video Types" data={analytics.videoTypes} layout="vertical" />
+          <CountBarChart title="Top Symptoms" data={analytics.topSymptoms} layout="vertical" />
+          <CountBarChart title="Diagnostic Challenges" data={analytics.challengeThemes} layout="vertical" />
+          <CountBarChart title="Age of Patient-Story Subjects" data={analytics.ageDistribution} />
+          <CountBarChart title="Sex of Patient-Story Subjects" data={analytics.sexDistribution} />
+          <CountBarChart title="Locations" data={analytics.locations} layout="vertical" />
+          {analytics.customFields.map((field) =>
+            field.stats ? (
+              <StatCard
+                key={field.name}
+                icon={FaBrain}
+                label={`${field.description} (${field.answered} answered)`}
+                value={`median ${field.stats.median}`}
+              >
+                <p className="text-sm text-text mt-1">
+                  Range {field.stats.min}–{field.stats.max}, mean {field.stats.mean.toFixed(1)}
+                </p>
+              </StatCard>
+            ) : (
+              <CountBarChart
+                key={field.name}
+                title={`${field.description} (${field.answered} answered)`}
+                data={field.values}
+                layout="vertical"
+              />
+            )
+          )}
+        </div>
+      )}
+
+      {searchName && (
+        <>
+          <h2 className="text-2xl font-bold text-text mb-4">Videos</h2>
+          <VideoTable searchName={searchName} />
+        </>
+      )}
+    </Layout>
+  );
+}
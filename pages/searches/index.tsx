@@ -0,0 +1,74 @@
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import axios from "axios";
+import { FaSpinner, FaVideo, FaFileAlt, FaBrain } from "react-icons/fa";
+import Layout from "@/components/Layout";
+
+interface SearchConfigSummary {
+  searchName: string;
+  searchPhrase: string;
+  searchPhrases: string[];
+  userId: string;
+  creationDate: string;
+  schedule: string | null;
+  paused: boolean;
+  videoCount: number;
+  transcriptCount: number;
+  analysisCount: number;
+}
+
+export default function SearchConfigList() {
+  const [searchConfigs, setSearchConfigs] = useState<SearchConfigSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    axios
+      .get("/api/search-configs")
+      .then((response) => setSearchConfigs(response.data.searchConfigs))
+      .catch((err) => setError(err.response?.data?.error || "An error occurred while fetching searches"));
+  }, []);
+
+  return (
+    <Layout title="Searches" subtitle="Every search the pipeline has collected videos for">
+      {error && <div className="mb-6 p-4 bg-error text-white rounded-lg">{error}</div>}
+
+      {!searchConfigs && !error && (
+        <p className="flex items-center gap-2">
+          <FaSpinner className="animate-spin" /> Loading searches...
+        </p>
+      )}
+
+      {searchConfigs && searchConfigs.length === 0 && (
+        <p>No searches yet. Run the pipeline to collect videos for a disease.</p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {searchConfigs?.map((config) => (
+          <Link
+            key={config.searchName}
+            href={`/searches/${encodeURIComponent(config.searchName)}`}
+            className="bg-card p-6 rounded-lg shadow-md hover:shadow-lg transition-shadow block"
+          >
+            <h2 className="text-xl font-semibold text-primary">
+              {config.searchName}
+              {config.paused && <span className="ml-2 text-xs font-medium align-middle">(paused)</span>}
+            </h2>
+            <p className="text-sm mt-1">
+              {config.searchPhrases.length > 1 ? "Queries" : "Query"}:{" "}
+              {config.searchPhrases.map((phrase) => `\u201c${phrase}\u201d`).join(", ")}
+            </p>
+            {config.schedule && <p className="text-sm">Refreshed on &ldquo;{config.schedule}&rdquo;</p>}
+            <p className="text-sm">
+              Created {new Date(config.creationDate).toLocaleDateString("en-US", { dateStyle: "medium" })} by {config.userId}
+            </p>
+            <div className="flex gap-6 mt-4 text-sm font-medium">
+              <span className="flex items-center gap-1"><FaVideo className="text-primary" /> {config.videoCount}</span>
+              <span className="flex items-center gap-1"><FaFileAlt className="text-primary" /> {config.transcriptCount}</span>
+              <span className="flex items-center gap-1"><FaBrain className="text-primary" /> {config.analysisCount}</span>
+            </div>
+          </Link>
+        ))}
+      </div>
+    </Layout>
+  );
+}
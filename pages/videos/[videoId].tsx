@@ -0,0 +1,233 @@
+import { ReactNode, useEffect, useState } from "react";
+import { useRouter } from "next/router";
+import Link from "next/link";
+import axios from "axios";
+import { FaSpinner, FaExternalLinkAlt } from "react-icons/fa";
+import Layout from "@/components/Layout";
+
+interface VideoDetail {
+  video: {
+    videoId: string;
+    title: string;
+    channelName: string;
+    publishedDate: string | null;
+    durationSeconds: number | null;
+    url: string;
+    searchName: string;
+    videoType: string | null;
+    description: string | null;
+  };
+  transcript: { text: string; language: string; segments: { text: string; offset: number; duration: number }[] } | null;
+  analysis: Record<string, any> | null;
+  symptoms: { raw: string; code: string | null; term: string | null }[];
+  searches: { searchName: string; rank: number | null; matchedQueries: string[] }[];
+}
+
+function formatTimestamp(seconds: number): string {
+  const whole = Math.floor(seconds);
+  const hours = Math.floor(whole / 3600);
+  const minutes = Math.floor((whole % 3600) / 60);
+  const rest = String(whole % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${rest}` : `${minutes}:${rest}`;
+}
+
+// Histories come back either as lists or as keyed objects
+function ValueList({ value }: { value: any }) {
+  if (value === null || value === undefined || (Array.isArray(value) && value.length === 0)) {
+    return <p className="text-sm">—</p>;
+  }
+  if (Array.isArray(value)) {
+    return (
+      <ul className="list-disc pl-5 text-sm">
+        {value.map((item, index) => (
+          <li key={index}>{typeof item === "string" ? item : JSON.stringify(item)}</li>
+        ))}
+      </ul>
+    );
+  }
+  if (typeof value === "object") {
+    return (
+      <ul className="list-disc pl-5 text-sm">
+        {Object.entries(value).map(([key, item]) => (
+          <li key={key}>
+            <span className="font-medium">{key}:</span> {typeof item === "string" ? item : JSON.stringify(item)}
+          </li>
+        ))}
+      </ul>
+    );
+  }
+  return <p className="text-sm">{String(value)}</p>;
+}
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="mb-4">
+      <h4 className="text-sm font-semibold text-primary">{label}</h4>
+      {children}
+    </div>
+  );
+}
+
+export default function VideoDetailPage() {
+  const router = useRouter();
+  const videoId = typeof router.query.videoId === "string" ? router.query.videoId : null;
+  const [detail, setDetail] = useState<VideoDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!videoId) return;
+    setError(null);
+    axios
+      .get(`/api/videos/${encodeURIComponent(videoId)}`)
+      .then((response) => setDetail(response.data))
+      .catch((err) => setError(err.response?.data?.error || "An error occurred while fetching the video"));
+  }, [videoId]);
+
+  if (error || !detail) {
+    return (
+      <Layout title="Video">
+        {error ? (
+          <div className="p-4 bg-error text-white rounded-lg">{error}</div>
+        ) : (
+          <p className="flex items-center gap-2">
+            <FaSpinner className="animate-spin" /> Loading...
+          </p>
+        )}
+      </Layout>
+    );
+  }
+
+  const { video, transcript, analysis, symptoms } = detail;
+  return (
+    <Layout title={video.title} subtitle={video.channelName}>
+      {/* Metadata */}
+      <div className="bg-card p-6 rounded-lg shadow-md mb-6">
+        <div className="flex flex-wrap gap-x-8 gap-y-2 text-sm">
+          <span>
+            Search:{" "}
+            <Link href={`/searches/${encodeURIComponent(video.searchName)}`} className="text-primary hover:text-secondary font-medium">
+              {video.searchName}
+            </Link>
+          </span>
+          <span>
+            Published: {video.publishedDate ? new Date(video.publishedDate).toLocaleDateString("en-US", { dateStyle: "medium" }) : "—"}
+          </span>
+          <span>Duration: {video.durationSeconds !== null ? formatTimestamp(video.durationSeconds) : "—"}</span>
+          <span>Type: {video.videoType || "Not analyzed"}</span>
+          <a href={video.url} target="_blank" rel="noreferrer" className="flex items-center gap-1 text-primary hover:text-secondary font-medium">
+            Watch on YouTube <FaExternalLinkAlt />
+          </a>
+        </div>
+        {video.description && <p className="text-sm mt-4 whitespace-pre-line">{video.description}</p>}
+        {detail.searches.some((search) => search.matchedQueries.length > 0) && (
+          <ul className="text-sm mt-4">
+            {detail.searches.map((search) => (
+              <li key={search.searchName}>
+                Found by {search.searchName}
+                {search.rank !== null && ` (rank ${search.rank})`}
+                {search.matchedQueries.length > 0 && ` via ${search.matchedQueries.map((query) => `\u201c${query}\u201d`).join(", ")}`}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Transcript */}
+        <div className="bg-card p-6 rounded-lg shadow-md">
+          <h3 className="text-lg font-semibold text-text mb-4">
+            Transcript {transcript && <span className="text-sm font-normal">({transcript.language})</span>}
+          </h3>
+          <div className="max-h-[70vh] overflow-y-auto text-sm leading-relaxed">
+            {!transcript && <p>No transcript stored for this video.</p>}
+            {transcript && transcript.segments.length === 0 && <p className="whitespace-pre-line">{transcript.text}</p>}
+            {transcript && transcript.segments.map((segment, index) => (
+              <p key={index} className="mb-1">
+                <a
+                  href={`https://www.youtube.com/watch?v=${video.videoId}&t=${Math.floor(segment.offset)}s`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="text-secondary font-mono mr-2"
+                >
+                  {formatTimestamp(segment.offset)}
+                </a>
+                {segment.text}
+              </p>
+            ))}
+          </div>
+        </div>
+
+        {/* Analysis */}
+        <div className="bg-card p-6 rounded-lg shadow-md">
+          <h3 className="text-lg font-semibold text-text mb-4">Analysis</h3>
+          {!analysis ? (
+            <p className="text-sm">This video has not been analyzed yet, or its analysis was rejected in review.</p>
+          ) : (
+            <div className="max-h-[70vh] overflow-y-auto">
+              <Field label="Classification">
+                <p className="text-sm">
+                  {analysis.video_type || "unknown"}
+                  {analysis.video_type_confidence !== null && analysis.video_type_confidence !== undefined && (
+                    <span className="text-secondary"> ({Math.round(analysis.video_type_confidence * 100)}% confident)</span>
+                  )}
+                </p>
+                {Array.isArray(analysis.video_labels) && analysis.video_labels.length > 1 && (
+                  <p className="text-sm">Also: {analysis.video_labels.filter((label: string) => label !== analysis.video_type).join(", ")}</p>
+                )}
+                {analysis.video_type_rationale && <p className="text-sm italic">{analysis.video_type_rationale}</p>}
+              </Field>
+              <div className="grid grid-cols-2 gap-x-4">
+                <Field label="Name"><p className="text-sm">{analysis.name || "—"}</p></Field>
+                <Field label="Age"><p className="text-sm">{analysis.age || "—"}</p></Field>
+                <Field label="Sex"><p className="text-sm">{analysis.sex || "—"}</p></Field>
+                <Field label="Location"><p className="text-sm">{analysis.location || "—"}</p></Field>
+              </div>
+              <Field label="Symptoms">
+                {symptoms.length > 0 ? (
+                  <ul className="list-disc pl-5 text-sm">
+                    {symptoms.map((symptom, index) => (
+                      <li key={index}>
+                        {symptom.raw}
+                        {symptom.term && (
+                          <span className="text-secondary"> → {symptom.term} ({symptom.code})</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <ValueList value={analysis.symptoms} />
+                )}
+              </Field>
+              <Field label="Medical History"><ValueList value={analysis.medical_history_of_patient} /></Field>
+              <Field label="Family Medical History"><ValueList value={analysis.family_medical_history} /></Field>
+              <Field label="Challenges During Diagnosis"><ValueList value={analysis.challenges_faced_during_diagnosis} /></Field>
+              <Field label="Key Opinion"><p className="text-sm">{analysis.key_opinion || "—"}</p></Field>
+              {analysis.custom_fields && (
+                <Field label="Custom Fields"><ValueList value={analysis.custom_fields} /></Field>
+              )}
+              {Array.isArray(analysis.evidence) && analysis.evidence.length > 0 && (
+                <Field label="Evidence">
+                  <ul className="text-sm space-y-2">
+                    {analysis.evidence.map((entry: any, index: number) => (
+                      <li key={index}>
+                        <span className="font-medium">{entry.item}:</span> &ldquo;{entry.quote}&rdquo;
+                        {entry.url && (
+                          <a href={entry.url} target="_blank" rel="noreferrer" className="text-secondary font-mono ml-2">
+                            {formatTimestamp(entry.startSeconds || 0)}
+                          </a>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </Field>
+              )}
+              <p className="text-xs mt-4">
+                Prompt {analysis.prompt_version || "unknown"} · Model {analysis.llm_model || "unknown"}
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+}
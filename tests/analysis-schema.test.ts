@@ -0,0 +1,189 @@
+import { extractJsonObject, parseAnalysisResponse, mergeAnalysisResults, ParsedAnalysis, ANALYSIS_KEYS } from "../lib/analysis-schema";
+
+const ANALYSIS = {
+  video_type: "patient story",
+  video_labels: ["patient story"],
+  video_type_confidence: 0.9,
+  video_type_rationale: "The speaker describes their own diagnosis",
+  name: "Sam",
+  age: "34",
+  sex: "female",
+  location: null,
+  symptoms: ["fatigue"],
+  medicalHistoryOfPatient: null,
+  familyMedicalHistory: null,
+  challengesFacedDuringDiagnosis: null,
+  key_opinion: null,
+  evidence: null,
+};
+
+function parse(value: Record<string, unknown>) {
+  const outcome = parseAnalysisResponse(JSON.stringify(value), ANALYSIS_KEYS);
+  if (!outcome.success) {
+    throw new Error(outcome.error);
+  }
+  return outcome.data;
+}
+
+describe("extractJsonObject", () => {
+  it("drops <think> blocks, including braces inside them", () => {
+    const content = `<think>Maybe {"video_type": "unrelated"}? No.</think>\n{"video_type": "fundraising"}`;
+    expect(extractJsonObject(content)).toEqual({ video_type: "fundraising" });
+  });
+
+  it("drops reasoning whose opening <think> tag was cut off", () => {
+    expect(extractJsonObject(`so the answer is {"a": 0}</think>{"a": 1}`)).toEqual({ a: 1 });
+  });
+
+  it("prefers the contents of a markdown fence", () => {
+    const content = `Example: {"a": 0}\n\`\`\`json\n{"a": 1}\n\`\`\``;
+    expect(extractJsonObject(content)).toEqual({ a: 1 });
+  });
+
+  it("ignores prose before and after the object", () => {
+    const content = `Here is the analysis:\n{"quote": "she said \\"{not a brace}\\"", "n": 2}\nLet me know if you need more.`;
+    expect(extractJsonObject(content)).toEqual({ quote: "she said \"{not a brace}\"", n: 2 });
+  });
+
+  it("skips unparseable spans and arrays", () => {
+    expect(extractJsonObject(`[1, 2] {broken: json} {"ok": true}`)).toEqual({ ok: true });
+  });
+
+  it("throws when there is no object", () => {
+    expect(() => extractJsonObject("I could not analyze this video.")).toThrow("No parseable JSON object found in LLM response");
+  });
+});
+
+describe("parseAnalysisResponse", () => {
+  it("accepts a well-formed analysis", () => {
+    expect(parse(ANALYSIS)).toMatchObject({ video_type: "patient story", age: "34", symptoms: ["fatigue"] });
+  });
+
+  it("coerces wrong-typed fields", () => {
+    const data = parse({
+      ...ANALYSIS,
+      video_type: "Patient Story",
+      video_type_confidence: "85%",
+      age: 34,
+      name: "",
+      symptoms: "fatigue",
+      challengesFacedDuringDiagnosis: [1, " misdiagnosis ", ""],
+      medicalHistoryOfPatient: "asthma",
+      video_labels: ["KOL interview", "not a type"],
+    });
+
+    expect(data.video_type).toBe("patient story");
+    expect(data.video_type_confidence).toBeCloseTo(0.85);
+    expect(data.age).toBe("34");
+    expect(data.name).toBeNull();
+    expect(data.symptoms).toEqual(["fatigue"]);
+    expect(data.challengesFacedDuringDiagnosis).toEqual(["1", "misdiagnosis"]);
+    expect(data.medicalHistoryOfPatient).toEqual(["asthma"]);
+    // Unknown labels are dropped and the primary type is always a label
+    expect(data.video_labels).toEqual(["patient story", "KOL interview"]);
+  });
+
+  it("drops garbled evidence entries", () => {
+    const data = parse({
+      ...ANALYSIS,
+      evidence: [
+        { field: "Symptoms", item: "fatigue", quote: "I am always tired" },
+        { field: "hobbies", item: "chess", quote: "I play chess" },
+        "not an object",
+      ],
+    });
+    expect(data.evidence).toEqual([
+      { field: "symptoms", item: "fatigue", quote: "I am always tired", startSeconds: null, url: null },
+    ]);
+  });
+
+  it("keeps \"unknown\" as the type without adding it as a label", () => {
+    const data = parse({ ...ANALYSIS, video_type: "Unknown", video_labels: ["unknown"], video_type_confidence: null });
+    expect(data.video_type).toBe("unknown");
+    expect(data.video_labels).toBeNull();
+  });
+
+  it("rejects video types outside the taxonomy", () => {
+    const outcome = parseAnalysisResponse(JSON.stringify({ ...ANALYSIS, video_type: "documentary" }), ANALYSIS_KEYS);
+    expect(outcome).toEqual({ success: false, error: expect.stringContaining("video_type: video_type must be one of") });
+  });
+
+  it("rejects confidences outside 0-1", () => {
+    const outcome = parseAnalysisResponse(JSON.stringify({ ...ANALYSIS, video_type_confidence: 250 }), ANALYSIS_KEYS);
+    expect(outcome).toEqual({ success: false, error: expect.stringContaining("video_type_confidence: must be a number between 0 and 1") });
+  });
+
+  it("reports required keys the response left out", () => {
+    const { symptoms, key_opinion, ...partial } = ANALYSIS;
+    const outcome = parseAnalysisResponse(JSON.stringify(partial), ANALYSIS_KEYS);
+    expect(outcome).toEqual({ success: false, error: "response: missing key(s) \"symptoms\", \"key_opinion\"" });
+  });
+
+  it("parses an answer wrapped in reasoning and a fence", () => {
+    const content = `<think>It is a patient story.</think>\n\`\`\`json\n${JSON.stringify(ANALYSIS, null, 2)}\n\`\`\`\nHope this helps!`;
+    const outcome = parseAnalysisResponse(content, ANALYSIS_KEYS);
+    expect(outcome.success).toBe(true);
+  });
+});
+
+describe("mergeAnalysisResults", () => {
+  function chunk(overrides: Partial<ParsedAnalysis>): ParsedAnalysis {
+    return { ...parse(ANALYSIS), symptoms: null, name: null, age: null, sex: null, ...overrides };
+  }
+
+  it("rejects an empty list and returns a single result as is", () => {
+    expect(() => mergeAnalysisResults([])).toThrow("Cannot merge an empty list of analyses");
+    const only = chunk({});
+    expect(mergeAnalysisResults([only])).toBe(only);
+  });
+
+  it("picks the most common specific type over generic ones", () => {
+    const merged = mergeAnalysisResults([
+      chunk({ video_type: "Informational", video_labels: ["Informational"], video_type_confidence: 0.9 }),
+      chunk({ video_type: "Informational", video_labels: ["Informational"], video_type_confidence: 0.9 }),
+      chunk({ video_type: "caregiver story", video_labels: ["caregiver story"], video_type_confidence: 0.6 }),
+      chunk({ video_type: "caregiver story", video_labels: ["caregiver story", "fundraising"], video_type_confidence: 0.8 }),
+    ]);
+    expect(merged.video_type).toBe("caregiver story");
+    expect(merged.video_type_confidence).toBeCloseTo(0.7);
+    expect(merged.video_labels).toEqual(["caregiver story", "fundraising", "Informational"]);
+  });
+
+  it("falls back to a generic type, then to \"unknown\"", () => {
+    const unknown = chunk({ video_type: "unknown", video_labels: null, video_type_confidence: null });
+    expect(mergeAnalysisResults([unknown, chunk({ video_type: "unrelated", video_labels: ["unrelated"] })]).video_type).toBe("unrelated");
+
+    const merged = mergeAnalysisResults([unknown, unknown]);
+    expect(merged.video_type).toBe("unknown");
+    expect(merged.video_labels).toBeNull();
+    expect(merged.video_type_confidence).toBeNull();
+  });
+
+  it("keeps the first value of single-valued fields and deduplicates lists", () => {
+    const merged = mergeAnalysisResults([
+      chunk({ name: null, age: "40", symptoms: ["Fatigue", "tremor."] }),
+      chunk({ name: "Alex", age: "41", symptoms: ["fatigue", "Tremor", "falls"] }),
+    ]);
+    expect(merged.name).toBe("Alex");
+    expect(merged.age).toBe("40");
+    expect(merged.symptoms).toEqual(["Fatigue", "tremor.", "falls"]);
+  });
+
+  it("merges list and keyed medical histories", () => {
+    const merged = mergeAnalysisResults([
+      chunk({ medicalHistoryOfPatient: ["asthma"] as any }),
+      chunk({ medicalHistoryOfPatient: { surgery: "2019 spinal fusion" } }),
+      chunk({ medicalHistoryOfPatient: ["Asthma", "scoliosis"] as any }),
+    ]);
+    expect(merged.medicalHistoryOfPatient).toEqual({ surgery: "2019 spinal fusion", notes: ["asthma", "scoliosis"] });
+  });
+
+  it("drops evidence repeated in the overlap between chunks", () => {
+    const evidence = { field: "symptoms" as const, item: "fatigue", quote: "I am always tired", startSeconds: null, url: null };
+    const merged = mergeAnalysisResults([
+      chunk({ evidence: [evidence] }),
+      chunk({ evidence: [{ ...evidence, quote: "I AM ALWAYS TIRED" }, { ...evidence, item: "falls", quote: "I fell twice" }] }),
+    ]);
+    expect(merged.evidence).toEqual([evidence, { ...evidence, item: "falls", quote: "I fell twice" }]);
+  });
+});
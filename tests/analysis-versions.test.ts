@@ -0,0 +1,68 @@
+import { diffAnalysisResults } from "../lib/analysis-versions";
+
+const BEFORE = {
+  video_type: "patient story",
+  video_labels: ["patient story"],
+  video_type_confidence: 0.8,
+  name: "Sam",
+  age: "34",
+  symptoms: ["Fatigue", "tremor"],
+  medical_history_of_patient: { surgery: "2019" },
+  challenges_faced_during_diagnosis: null,
+  custom_fields: { repeat_length: 800, treatments: ["physio"] },
+};
+
+describe("diffAnalysisResults", () => {
+  it("reports nothing for identical results", () => {
+    expect(diffAnalysisResults(BEFORE, JSON.parse(JSON.stringify(BEFORE)))).toEqual([]);
+  });
+
+  it("treats missing fields as null", () => {
+    expect(diffAnalysisResults({ ...BEFORE, location: null }, BEFORE)).toEqual([]);
+  });
+
+  it("reports changed scalars without added or removed items", () => {
+    expect(diffAnalysisResults(BEFORE, { ...BEFORE, age: "35", video_type_confidence: 0.9, name: null })).toEqual([
+      { field: "video_type_confidence", before: 0.8, after: 0.9 },
+      { field: "name", before: "Sam", after: null },
+      { field: "age", before: "34", after: "35" },
+    ]);
+  });
+
+  it("lists the items added to and removed from string lists, ignoring case", () => {
+    const [change] = diffAnalysisResults(BEFORE, { ...BEFORE, symptoms: ["fatigue ", "falls"] });
+    expect(change).toEqual({
+      field: "symptoms",
+      before: ["Fatigue", "tremor"],
+      after: ["fatigue ", "falls"],
+      added: ["falls"],
+      removed: ["tremor"],
+    });
+  });
+
+  it("diffs a list against null", () => {
+    const [change] = diffAnalysisResults(BEFORE, { ...BEFORE, challenges_faced_during_diagnosis: ["misdiagnosis"] });
+    expect(change).toMatchObject({ field: "challenges_faced_during_diagnosis", added: ["misdiagnosis"], removed: [] });
+
+    const [cleared] = diffAnalysisResults(BEFORE, { ...BEFORE, video_labels: null });
+    expect(cleared).toMatchObject({ field: "video_labels", after: null, added: [], removed: ["patient story"] });
+  });
+
+  it("reports nested objects such as custom_fields as a whole", () => {
+    const after = { ...BEFORE, custom_fields: { repeat_length: 800, treatments: ["physio", "omaveloxolone"] } };
+    expect(diffAnalysisResults(BEFORE, after)).toEqual([
+      { field: "custom_fields", before: BEFORE.custom_fields, after: after.custom_fields },
+    ]);
+  });
+
+  it("compares keyed medical histories by value", () => {
+    expect(diffAnalysisResults(BEFORE, { ...BEFORE, medical_history_of_patient: { surgery: "2019" } })).toEqual([]);
+    expect(diffAnalysisResults(BEFORE, { ...BEFORE, medical_history_of_patient: ["asthma"] })).toEqual([
+      { field: "medical_history_of_patient", before: { surgery: "2019" }, after: ["asthma"] },
+    ]);
+  });
+
+  it("ignores fields outside the versioned ones", () => {
+    expect(diffAnalysisResults(BEFORE, { ...BEFORE, raw_response: "changed" })).toEqual([]);
+  });
+});
@@ -0,0 +1,76 @@
+import { groupChallengeThemes, summarizeCustomFields } from "../lib/analytics";
+import { CustomFieldDefinition } from "../lib/custom-fields";
+
+describe("groupChallengeThemes", () => {
+  it("adds each phrase's count to every theme it mentions and sorts by total", () => {
+    expect(groupChallengeThemes([
+      { label: "Misdiagnosed with MS", count: 4 },
+      { label: "Took years to see a neurologist", count: 3 },
+      { label: "Doctors said it was all in my head", count: 2 },
+      { label: "Insurance would not cover the genetic test", count: 1 },
+      { label: "Moved house twice", count: 5 },
+    ])).toEqual([
+      { label: "Other", count: 5 },
+      { label: "Misdiagnosis", count: 4 },
+      { label: "Delayed diagnosis", count: 3 },
+      { label: "Access to specialists", count: 3 },
+      { label: "Dismissed by clinicians", count: 2 },
+      { label: "Testing", count: 1 },
+      { label: "Cost and insurance", count: 1 },
+    ]);
+  });
+
+  it("returns no themes for no challenges", () => {
+    expect(groupChallengeThemes([])).toEqual([]);
+  });
+});
+
+describe("summarizeCustomFields", () => {
+  const schema: CustomFieldDefinition[] = [
+    { name: "repeat_length", type: "number", description: "GAA repeat length" },
+    { name: "uses_wheelchair", type: "boolean", description: "Uses a wheelchair" },
+    { name: "treatments", type: "list", description: "Treatments mentioned" },
+    { name: "onset", type: "string", description: "Age of onset", values: ["childhood", "adult"] },
+  ];
+
+  it("summarizes every field of the schema, even without answers", () => {
+    expect(summarizeCustomFields(schema, [])).toEqual(schema.map(field => ({
+      name: field.name,
+      type: field.type,
+      description: field.description,
+      answered: 0,
+      values: [],
+      stats: null,
+    })));
+  });
+
+  it("computes stats for numbers and counts the answers of other types", () => {
+    const [repeats, wheelchair, treatments, onset] = summarizeCustomFields(schema, [
+      { repeat_length: 800, uses_wheelchair: true, treatments: ["omaveloxolone", "physio", "physio"], onset: "childhood" },
+      { repeat_length: 200, uses_wheelchair: false, treatments: ["physio"], onset: null },
+      { repeat_length: 500, uses_wheelchair: true, treatments: [" ", "Physio"] },
+      // Values stored before the schema changed keep their old type
+      { repeat_length: "unknown", uses_wheelchair: null, treatments: "speech therapy", onset: "adult" },
+      { repeat_length: 1000 },
+    ]);
+
+    expect(repeats).toMatchObject({ answered: 5, values: [], stats: { min: 200, max: 1000, mean: 625, median: 650 } });
+    expect(wheelchair).toMatchObject({ answered: 3, values: [{ label: "true", count: 2 }, { label: "false", count: 1 }], stats: null });
+    expect(treatments.answered).toBe(4);
+    expect(treatments.values).toEqual([
+      { label: "physio", count: 2 },
+      { label: "omaveloxolone", count: 1 },
+      { label: "Physio", count: 1 },
+      { label: "speech therapy", count: 1 },
+    ]);
+    expect(onset).toMatchObject({ answered: 2, values: [{ label: "adult", count: 1 }, { label: "childhood", count: 1 }] });
+  });
+
+  it("keeps the most common answers up to the limit", () => {
+    const rows = ["a", "b", "b", "c", "c", "c"].map(onset => ({ onset }));
+    expect(summarizeCustomFields([schema[3]], rows, 2)[0].values).toEqual([
+      { label: "c", count: 3 },
+      { label: "b", count: 2 },
+    ]);
+  });
+});
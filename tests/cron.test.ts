@@ -0,0 +1,87 @@
+import { parseCronExpression, nextCronTime } from "../lib/cron";
+
+// Cron runs in local time, so every date here is built in local time too
+function at(year: number, month: number, day: number, hour = 0, minute = 0): Date {
+  return new Date(year, month - 1, day, hour, minute);
+}
+
+function next(expression: string, after: Date): Date {
+  return nextCronTime(parseCronExpression(expression), after);
+}
+
+function values(set: Set<number>): number[] {
+  return Array.from(set).sort((a, b) => a - b);
+}
+
+describe("parseCronExpression", () => {
+  it("expands steps, ranges and lists", () => {
+    const schedule = parseCronExpression("10-40/10 */6 1,15,20-22 5/3 1-5");
+    expect(values(schedule.minutes)).toEqual([10, 20, 30, 40]);
+    expect(values(schedule.hours)).toEqual([0, 6, 12, 18]);
+    expect(values(schedule.daysOfMonth)).toEqual([1, 15, 20, 21, 22]);
+    expect(values(schedule.months)).toEqual([5, 8, 11]);
+    expect(values(schedule.daysOfWeek)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("treats day of week 7 as Sunday", () => {
+    expect(values(parseCronExpression("0 0 * * 7").daysOfWeek)).toEqual([0]);
+    expect(values(parseCronExpression("0 0 * * 5-7").daysOfWeek)).toEqual([0, 5, 6]);
+  });
+
+  it("expands macros", () => {
+    expect(parseCronExpression("@weekly")).toMatchObject({ expression: "@weekly", daysOfWeekRestricted: true });
+    expect(values(parseCronExpression("@Hourly").minutes)).toEqual([0]);
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(() => parseCronExpression("* * *")).toThrow("must have 5 fields");
+    expect(() => parseCronExpression("60 * * * *")).toThrow("Invalid minute \"60\": expected 0-59");
+    expect(() => parseCronExpression("0 0 0 * *")).toThrow("Invalid day of month \"0\"");
+    expect(() => parseCronExpression("0 5-1 * * *")).toThrow("Invalid hour range \"5-1\"");
+    expect(() => parseCronExpression("*/0 * * * *")).toThrow("Invalid step \"0\" in minute");
+    expect(() => parseCronExpression("0 0 * * mon")).toThrow("Invalid day of week \"mon\"");
+  });
+
+  it("rejects expressions that never fire", () => {
+    expect(() => parseCronExpression("0 0 30 2 *")).toThrow("Cron expression \"0 0 30 2 *\" never fires");
+    expect(() => parseCronExpression("0 0 31 4,6,9,11 *")).toThrow("never fires");
+  });
+});
+
+describe("nextCronTime", () => {
+  it("returns the next matching minute strictly after the given time", () => {
+    expect(next("*/15 * * * *", at(2024, 1, 10, 9, 15))).toEqual(at(2024, 1, 10, 9, 30));
+    expect(next("*/15 * * * *", new Date(at(2024, 1, 10, 9, 14).getTime() + 59000))).toEqual(at(2024, 1, 10, 9, 15));
+  });
+
+  it("rolls over to the next hour, day, month and year", () => {
+    expect(next("0 * * * *", at(2024, 1, 31, 23, 30))).toEqual(at(2024, 2, 1, 0, 0));
+    expect(next("30 9 * * *", at(2024, 1, 10, 10, 0))).toEqual(at(2024, 1, 11, 9, 30));
+    expect(next("0 0 1 * *", at(2024, 1, 15))).toEqual(at(2024, 2, 1));
+    expect(next("0 0 1 1 *", at(2024, 3, 5))).toEqual(at(2025, 1, 1));
+  });
+
+  it("only fires on days that exist in the month", () => {
+    expect(next("0 12 31 * *", at(2024, 1, 31, 13, 0))).toEqual(at(2024, 3, 31, 12, 0));
+    expect(next("0 0 29 2 *", at(2024, 3, 1))).toEqual(at(2028, 2, 29));
+  });
+
+  it("matches either day field when both are restricted", () => {
+    // 2024-01-10 is a Wednesday; the 12th is a Friday
+    expect(next("0 0 13 * 5", at(2024, 1, 10))).toEqual(at(2024, 1, 12));
+    expect(next("0 0 13 * 5", at(2024, 1, 12))).toEqual(at(2024, 1, 13));
+    expect(next("0 0 13 * 5", at(2024, 1, 13))).toEqual(at(2024, 1, 19));
+  });
+
+  it("matches both day fields when one of them starts with *", () => {
+    expect(next("0 0 * * 5", at(2024, 1, 10))).toEqual(at(2024, 1, 12));
+    expect(next("0 0 13 * *", at(2024, 1, 10))).toEqual(at(2024, 1, 13));
+    // An odd day that is also a Friday, not the 11th or the 12th
+    expect(next("0 0 */2 * 5", at(2024, 1, 10))).toEqual(at(2024, 1, 19));
+  });
+
+  it("fires on Sundays for day of week 0 and 7", () => {
+    expect(next("0 6 * * 7", at(2024, 1, 10))).toEqual(at(2024, 1, 14, 6, 0));
+    expect(next("0 6 * * 0", at(2024, 1, 10))).toEqual(at(2024, 1, 14, 6, 0));
+  });
+});
@@ -0,0 +1,121 @@
+import {
+  parseCustomFieldSchema,
+  validateCustomFields,
+  mergeCustomFields,
+  buildCustomFieldInstructions,
+  CustomFieldDefinition,
+} from "../lib/custom-fields";
+
+const SCHEMA: CustomFieldDefinition[] = [
+  { name: "gaa_repeat_length", type: "number", description: "GAA repeat length" },
+  { name: "uses_wheelchair", type: "boolean", description: "Uses a wheelchair" },
+  { name: "treatments", type: "list", description: "Treatments mentioned" },
+  { name: "onset", type: "string", description: "Age of onset", values: ["childhood", "adult"] },
+  { name: "country", type: "string", description: "Country of residence" },
+];
+
+describe("parseCustomFieldSchema", () => {
+  it("treats null and undefined as no custom fields", () => {
+    expect(parseCustomFieldSchema(null)).toEqual([]);
+    expect(parseCustomFieldSchema(undefined)).toEqual([]);
+  });
+
+  it("trims names and descriptions and keeps allowed values", () => {
+    expect(parseCustomFieldSchema([
+      { name: " onset ", type: "string", description: " Age of onset ", values: ["childhood", "adult"] },
+      { name: "treatments", type: "list", description: "Treatments mentioned", extra: "ignored" },
+    ])).toEqual([SCHEMA[3], SCHEMA[2]]);
+  });
+
+  it("rejects malformed schemas", () => {
+    expect(() => parseCustomFieldSchema({ name: "x" })).toThrow("Custom field schema must be a list of fields");
+    expect(() => parseCustomFieldSchema(["x"])).toThrow("Custom field 1 must be an object");
+    expect(() => parseCustomFieldSchema([{ name: "Repeat Length", type: "number", description: "d" }]))
+      .toThrow("must be lowercase letters, digits and underscores");
+    expect(() => parseCustomFieldSchema([{ name: "x", type: "date", description: "d" }]))
+      .toThrow("Custom field \"x\" must have a type of string, number, boolean, list");
+    expect(() => parseCustomFieldSchema([{ name: "x", type: "number", description: " " }])).toThrow("Custom field \"x\" needs a description");
+    expect(() => parseCustomFieldSchema([{ name: "x", type: "number", description: "d", values: ["1"] }]))
+      .toThrow("must be a list of strings on a string field");
+  });
+
+  it("rejects names used twice or reserved for the standard analysis", () => {
+    const field = { name: "onset", type: "string", description: "d" };
+    expect(() => parseCustomFieldSchema([field, field])).toThrow("Custom field \"onset\" is defined twice");
+    for (const name of ["symptoms", "age", "custom_fields"]) {
+      expect(() => parseCustomFieldSchema([{ ...field, name }])).toThrow(`Custom field name "${name}" is reserved`);
+    }
+  });
+});
+
+describe("buildCustomFieldInstructions", () => {
+  it("adds nothing without custom fields and describes each field otherwise", () => {
+    expect(buildCustomFieldInstructions([])).toBe("");
+    const instructions = buildCustomFieldInstructions(SCHEMA);
+    expect(instructions).toContain("\"gaa_repeat_length\" (number): GAA repeat length");
+    expect(instructions).toContain("\"onset\" (one of \"childhood\", \"adult\"): Age of onset");
+    expect(instructions).toContain("\"uses_wheelchair\" (true or false)");
+  });
+});
+
+describe("validateCustomFields", () => {
+  it("coerces near-misses to the declared types", () => {
+    expect(validateCustomFields(SCHEMA, {
+      gaa_repeat_length: "about 800 repeats",
+      uses_wheelchair: "Yes",
+      treatments: "physio",
+      onset: "Childhood",
+      country: 44,
+    })).toEqual({
+      values: { gaa_repeat_length: 800, uses_wheelchair: true, treatments: ["physio"], onset: "childhood", country: "44" },
+      errors: [],
+    });
+  });
+
+  it("turns empty answers into null", () => {
+    const { values, errors } = validateCustomFields(SCHEMA, {
+      gaa_repeat_length: null,
+      uses_wheelchair: "",
+      treatments: [" ", ""],
+      onset: undefined,
+      country: null,
+    });
+    expect(errors).toEqual([]);
+    expect(values).toEqual({ gaa_repeat_length: null, uses_wheelchair: null, treatments: null, onset: null, country: null });
+  });
+
+  it("reports values that cannot be coerced and keys that are missing", () => {
+    const { values, errors } = validateCustomFields(SCHEMA, {
+      gaa_repeat_length: "many",
+      uses_wheelchair: "sometimes",
+      treatments: [{ name: "physio" }],
+      onset: "teenage",
+    });
+    expect(errors).toEqual([
+      "custom_fields.gaa_repeat_length must be a number",
+      "custom_fields.uses_wheelchair must be true or false",
+      "custom_fields.treatments must be a list of strings",
+      "custom_fields.onset must be one of: childhood, adult (got \"teenage\")",
+      "custom_fields: missing key \"country\"",
+    ]);
+    expect(values).toEqual({});
+  });
+
+  it("requires an object", () => {
+    expect(validateCustomFields(SCHEMA, ["800"]).errors).toEqual(["custom_fields must be an object"]);
+  });
+});
+
+describe("mergeCustomFields", () => {
+  it("returns null when no chunk answered", () => {
+    expect(mergeCustomFields([null, undefined])).toBeNull();
+  });
+
+  it("keeps the first non-null answer and unites lists", () => {
+    expect(mergeCustomFields([
+      { gaa_repeat_length: null, onset: "childhood", treatments: ["Physio"] },
+      null,
+      { gaa_repeat_length: 800, onset: "adult", treatments: ["physio", "omaveloxolone"], uses_wheelchair: false },
+    ])).toEqual({ gaa_repeat_length: 800, onset: "childhood", treatments: ["Physio", "omaveloxolone"], uses_wheelchair: false });
+  });
+});
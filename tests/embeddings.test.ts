@@ -0,0 +1,137 @@
+import { chunkForEmbedding, semanticSearch } from "../lib/embeddings";
+import { getEmbeddingProvider, embeddingModelKey } from "../lib/embedding-providers";
+import { countTokens } from "../lib/transcript-chunker";
+import * as database from "../lib/database";
+
+jest.mock("../lib/database", () => ({
+  getPool: jest.fn(),
+  searchVideoIds: jest.fn(() => "SELECT video_id FROM video_searches"),
+}));
+
+const db = jest.mocked(database);
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
+
+function segment(text: string, offset: number) {
+  return { text, offset, duration: 2 };
+}
+
+describe("chunkForEmbedding", () => {
+  const segments = [
+    segment("My name is Jo and I have ataxia.", 0),
+    segment("It started with falls at school.", 2.5),
+    segment("Doctors thought it was clumsiness.", 5),
+    segment("Then I was referred to a neurologist.", 7.25),
+  ];
+
+  it("keeps a short transcript in one chunk starting at its first caption", () => {
+    expect(chunkForEmbedding("unused", segments, 1000)).toEqual([
+      { content: segments.map(item => item.text).join(" "), startMs: 0 },
+    ]);
+  });
+
+  it("closes a chunk at the caption that would overflow the budget", () => {
+    const budget = countTokens(segments[0].text) + countTokens(segments[1].text);
+    const chunks = chunkForEmbedding("unused", segments, budget);
+
+    expect(chunks).toEqual([
+      { content: `${segments[0].text} ${segments[1].text}`, startMs: 0 },
+      { content: `${segments[2].text} ${segments[3].text}`, startMs: 5000 },
+    ]);
+  });
+
+  it("gives a caption longer than the budget a chunk of its own", () => {
+    const chunks = chunkForEmbedding("unused", segments, 3);
+    expect(chunks.map(chunk => chunk.startMs)).toEqual([0, 2500, 5000, 7250]);
+  });
+
+  it("cuts plain text by tokens when there are no segments", () => {
+    const text = Array.from({ length: 100 }, (_, i) => `word${i}`).join(" ");
+    const chunks = chunkForEmbedding(text, [], 40);
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(chunk => chunk.startMs === null && countTokens(chunk.content) <= 40)).toBe(true);
+    expect(chunks.map(chunk => chunk.content).join("")).toBe(text);
+  });
+});
+
+describe("HashingEmbeddingProvider", () => {
+  it("is registered as hash with 384 dimensions by default", () => {
+    const provider = getEmbeddingProvider("hash");
+    expect(embeddingModelKey(provider)).toBe("hash:384");
+  });
+
+  it("returns the same unit-length vector for the same text", async () => {
+    const provider = getEmbeddingProvider("hash:64");
+    const [first, second, other] = await provider.embed([
+      "Muscle weakness in both legs",
+      "muscle WEAKNESS, in both legs!",
+      "A fundraising walk for research",
+    ]);
+
+    expect(first).toHaveLength(64);
+    expect(second).toEqual(first);
+    expect(other).not.toEqual(first);
+    expect(cosine(first, first)).toBeCloseTo(1);
+    expect(cosine(other, other)).toBeCloseTo(1);
+  });
+
+  it("returns a zero vector for text without words", async () => {
+    const [vector] = await getEmbeddingProvider("hash:16").embed(["?!"]);
+    expect(vector).toEqual(new Array(16).fill(0));
+  });
+});
+
+describe("semanticSearch with the hashing embedder", () => {
+  const passages = [
+    { video_id: "v1", chunk_index: 0, start_ms: 0, content: "We organised a charity run to raise money for research." },
+    { video_id: "v2", chunk_index: 3, start_ms: 42000, content: "The fatigue and muscle weakness in my legs got worse every winter." },
+    { video_id: "v3", chunk_index: 1, start_ms: 9000, content: "My legs felt weak, but the fatigue was the hardest part." },
+  ];
+
+  // Stands in for pgvector: ranks the stored passages by cosine similarity to the query vector
+  async function fakePool(provider = getEmbeddingProvider("hash:256")) {
+    const vectors = await provider.embed(passages.map(passage => passage.content));
+    const query = jest.fn(async (_sql: string, params: any[]) => {
+      const queryVector: number[] = JSON.parse(params[0]);
+      const rows = passages
+        .map((passage, i) => ({
+          ...passage,
+          title: `Video ${passage.video_id}`,
+          channel_name: "Channel",
+          search_name: "ataxia",
+          video_type: "patient story",
+          similarity: cosine(queryVector, vectors[i]),
+        }))
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, params[4]);
+      return { rows };
+    });
+    db.getPool.mockResolvedValue({ query } as any);
+    return query;
+  }
+
+  it("ranks passages sharing the query's words first", async () => {
+    const provider = getEmbeddingProvider("hash:256");
+    const query = await fakePool(provider);
+
+    const hits = await semanticSearch("muscle weakness and fatigue in the legs", { provider, limit: 2 });
+
+    expect(hits.map(hit => hit.videoId)).toEqual(["v2", "v3"]);
+    expect(hits[0].similarity).toBeGreaterThan(hits[1].similarity);
+    expect(hits[0].url).toBe("https://www.youtube.com/watch?v=v2&t=42s");
+    expect(query.mock.calls[0][1][1]).toBe("hash:256");
+  });
+
+  it("clamps the limit", async () => {
+    const provider = getEmbeddingProvider("hash:256");
+    const query = await fakePool(provider);
+
+    await semanticSearch("fatigue", { provider, limit: 5000 });
+    await semanticSearch("fatigue", { provider, limit: 0 });
+
+    expect(query.mock.calls[0][1][4]).toBe(100);
+    expect(query.mock.calls[1][1][4]).toBe(10);
+  });
+});
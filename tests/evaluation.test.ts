@@ -0,0 +1,115 @@
+import { compareLists, scoreLists, evaluateVideo, summarizeVariant, GoldVideo } from "../lib/evaluation";
+import { AnalysisResult } from "../lib/ollama";
+
+const VARIANT = { label: "mock", model: "mock:", promptTemplate: "disease_space", promptVersion: "abc" };
+
+function result(overrides: Partial<AnalysisResult>): AnalysisResult {
+  return {
+    video_type: "patient story",
+    video_labels: null,
+    video_type_confidence: null,
+    video_type_rationale: null,
+    name: null,
+    age: null,
+    sex: null,
+    location: null,
+    symptoms: null,
+    medicalHistoryOfPatient: null,
+    familyMedicalHistory: null,
+    challengesFacedDuringDiagnosis: null,
+    key_opinion: null,
+    evidence: null,
+    ...overrides,
+  };
+}
+
+describe("compareLists", () => {
+  it("matches items on overlapping words, each gold item at most once", () => {
+    expect(compareLists(["loss of balance", "slurred speech"], ["balance loss", "loss of balance", "hearing loss"])).toEqual({
+      matched: ["balance loss"],
+      missed: ["slurred speech"],
+      extra: ["loss of balance", "hearing loss"],
+    });
+  });
+});
+
+describe("scoreLists", () => {
+  it("computes micro-averaged precision, recall and F1", () => {
+    const score = scoreLists([
+      { matched: ["a", "b"], missed: ["c"], extra: [] },
+      { matched: ["d"], missed: [], extra: ["e", "f"] },
+    ]);
+    expect(score).toMatchObject({ truePositives: 3, falsePositives: 2, falseNegatives: 1 });
+    expect(score.precision).toBeCloseTo(3 / 5);
+    expect(score.recall).toBeCloseTo(3 / 4);
+    expect(score.f1).toBeCloseTo((2 * 0.6 * 0.75) / (0.6 + 0.75));
+  });
+
+  it("counts nothing to find and nothing found as perfect", () => {
+    expect(scoreLists([{ matched: [], missed: [], extra: [] }])).toMatchObject({ precision: 1, recall: 1, f1: 1 });
+  });
+
+  it("gives an F1 of zero when nothing matched", () => {
+    expect(scoreLists([{ matched: [], missed: ["a"], extra: ["b"] }])).toMatchObject({ precision: 0, recall: 0, f1: 0 });
+  });
+
+  it("skips videos whose gold entry left the list out", () => {
+    expect(scoreLists([null, { matched: ["a"], missed: [], extra: [] }])).toMatchObject({ truePositives: 1, precision: 1, recall: 1 });
+  });
+});
+
+describe("evaluateVideo", () => {
+  it("skips fields the gold entry does not define", () => {
+    const gold: GoldVideo = { videoId: "v1", video_type: "Patient Story", symptoms: ["fatigue"] };
+    const evaluation = evaluateVideo(gold, result({ symptoms: ["fatigue", "tremor"], sex: "female", age: "30" }), 10, null);
+
+    expect(evaluation.videoType).toEqual({ expected: "Patient Story", actual: "patient story", correct: true });
+    expect(evaluation.symptoms).toEqual({ matched: ["fatigue"], missed: [], extra: ["tremor"] });
+    expect(evaluation.sex).toBeNull();
+    expect(evaluation.age).toBeNull();
+    expect(evaluation.challenges).toBeNull();
+  });
+
+  it("compares an explicit null in the gold entry", () => {
+    const gold: GoldVideo = { videoId: "v1", sex: null, age: null, challengesFacedDuringDiagnosis: null };
+    const evaluation = evaluateVideo(gold, result({ sex: "F", age: null, challengesFacedDuringDiagnosis: ["misdiagnosis"] }), 10, null);
+
+    expect(evaluation.sex).toEqual({ expected: null, actual: "F", correct: false });
+    expect(evaluation.age).toEqual({ expected: null, actual: null, correct: true });
+    expect(evaluation.challenges).toEqual({ matched: [], missed: [], extra: ["misdiagnosis"] });
+  });
+
+  it("normalizes sex and age before comparing", () => {
+    const gold: GoldVideo = { videoId: "v1", sex: "female", age: "34" };
+    const evaluation = evaluateVideo(gold, result({ sex: "Woman", age: "34 years old" }), 10, null);
+    expect(evaluation.sex?.correct).toBe(true);
+    expect(evaluation.age?.correct).toBe(true);
+  });
+
+  it("scores a failed analysis as an empty extraction", () => {
+    const gold: GoldVideo = { videoId: "v1", video_type: "unknown", symptoms: ["fatigue"] };
+    const evaluation = evaluateVideo(gold, null, 10, "timeout");
+
+    expect(evaluation.error).toBe("timeout");
+    expect(evaluation.videoType?.correct).toBe(false);
+    expect(evaluation.symptoms).toEqual({ matched: [], missed: ["fatigue"], extra: [] });
+  });
+});
+
+describe("summarizeVariant", () => {
+  it("scores each field over the videos that label it", () => {
+    const perVideo = [
+      evaluateVideo({ videoId: "v1", sex: "male", symptoms: ["fatigue"] }, result({ sex: "m", symptoms: ["fatigue"] }), 100, null),
+      evaluateVideo({ videoId: "v2", sex: "female" }, result({ sex: "male", symptoms: ["tremor"] }), 300, null),
+      evaluateVideo({ videoId: "v3", symptoms: ["falls"] }, null, 200, "parse error"),
+    ];
+    const report = summarizeVariant(VARIANT, perVideo);
+
+    expect(report.sex).toEqual({ correct: 1, total: 2, accuracy: 0.5 });
+    expect(report.age).toEqual({ correct: 0, total: 0, accuracy: 0 });
+    expect(report.symptoms).toMatchObject({ truePositives: 1, falsePositives: 0, falseNegatives: 1, precision: 1, recall: 0.5 });
+    expect(report.failures).toBe(1);
+    expect(report.failureRate).toBeCloseTo(1 / 3);
+    expect(report.latencyMs).toEqual({ mean: 200, median: 200, p95: 300 });
+  });
+});
@@ -0,0 +1,57 @@
+import { locateEvidence, youtubeTimestampUrl } from "../lib/evidence";
+import { EvidenceItem } from "../lib/analysis-schema";
+
+const SEGMENTS = [
+  { text: "Hi everyone, welcome back to my channel.", offset: 0.4, duration: 3 },
+  { text: "When I was retired from the army", offset: 3.9, duration: 2.5 },
+  { text: "I started losing my balance", offset: 6.5, duration: 2 },
+  { text: "and my speech got slurred.", offset: 8.75, duration: 2 },
+  { text: "The doctors said it was just stress.", offset: 61.2, duration: 3 },
+];
+
+function evidence(quote: string): EvidenceItem {
+  return { field: "symptoms", item: "item", quote, startSeconds: null, url: null };
+}
+
+function locate(quote: string) {
+  return locateEvidence([evidence(quote)], SEGMENTS, "vid1")[0];
+}
+
+describe("youtubeTimestampUrl", () => {
+  it("links to the whole second", () => {
+    expect(youtubeTimestampUrl("vid1", 61.9)).toBe("https://www.youtube.com/watch?v=vid1&t=61s");
+  });
+});
+
+describe("locateEvidence", () => {
+  it("finds a quote inside one segment", () => {
+    expect(locate("the doctors said it was just stress")).toMatchObject({
+      startSeconds: 61,
+      url: "https://www.youtube.com/watch?v=vid1&t=61s",
+    });
+  });
+
+  it("finds a quote spanning segments at the segment where it starts", () => {
+    expect(locate("losing my balance and my speech got slurred").startSeconds).toBe(6);
+    expect(locate("from the army I started losing").startSeconds).toBe(3);
+  });
+
+  it("ignores case and punctuation differences", () => {
+    expect(locate("...And MY speech -- got slurred!").startSeconds).toBe(8);
+  });
+
+  it("falls back to the opening words of a paraphrased quote", () => {
+    expect(locate("I started losing my balance, then I could not walk at all").startSeconds).toBe(6);
+  });
+
+  it("returns null rather than a wrong time when the quote is not spoken", () => {
+    expect(locate("my hands began to shake")).toMatchObject({ startSeconds: null, url: null });
+    // "tired" appears only inside "retired"
+    expect(locate("tired")).toMatchObject({ startSeconds: null, url: null });
+  });
+
+  it("keeps the evidence unchanged without segments", () => {
+    const items = [evidence("anything")];
+    expect(locateEvidence(items, [], "vid1")).toBe(items);
+  });
+});
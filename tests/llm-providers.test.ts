@@ -0,0 +1,112 @@
+import { parseModelSpec, resolveModelSpec, getLlmProvider, listLlmProviders } from "../lib/llm-providers";
+import { analyzeTranscriptWithDetails } from "../lib/ollama";
+import { MyLama } from "../lib/MyLama";
+
+const TRANSCRIPT = "I was diagnosed with Friedreich's ataxia when I was twelve. My balance got worse every year.";
+
+afterEach(() => {
+  delete process.env.MOCK_LLM_RESPONSE;
+  jest.restoreAllMocks();
+});
+
+describe("parseModelSpec", () => {
+  it("splits provider-prefixed specs at the first colon", () => {
+    expect(parseModelSpec("ollama:qwen2.5:14b")).toEqual({ provider: "ollama", model: "qwen2.5:14b" });
+    expect(parseModelSpec("mock:test")).toEqual({ provider: "mock", model: "test" });
+  });
+
+  it("leaves the model to the provider default when the spec names only a provider", () => {
+    expect(parseModelSpec("mock:")).toEqual({ provider: "mock", model: undefined });
+    expect(parseModelSpec("Gemini")).toEqual({ provider: "gemini" });
+  });
+
+  it("routes bare model names the way LLM_MODEL always has", () => {
+    expect(parseModelSpec("gpt-4o")).toEqual({ provider: "openai", model: "gpt-4o" });
+    expect(parseModelSpec("gemini-1.5-pro")).toEqual({ provider: "gemini", model: "gemini-1.5-pro" });
+    expect(parseModelSpec("deepseek-r1:14b")).toEqual({ provider: "ollama", model: "deepseek-r1:14b" });
+  });
+});
+
+describe("resolveModelSpec", () => {
+  it("falls back to the provider's default model", () => {
+    const { provider, model } = resolveModelSpec("mock:");
+    expect(provider.name).toBe("mock");
+    expect(model).toBe("mock");
+  });
+
+  it("lists every built-in provider", () => {
+    expect(listLlmProviders()).toEqual(expect.arrayContaining(["ollama", "openai", "gemini", "mock"]));
+  });
+});
+
+describe("getLlmProvider", () => {
+  it("applies overrides and ignores undefined ones", () => {
+    const provider = getLlmProvider("mock", { contextTokens: 2048, maxTokens: undefined, temperature: 0 });
+    expect(provider.config.contextTokens).toBe(2048);
+    expect(provider.config.temperature).toBe(0);
+    expect(provider.config.defaultModel).toBe("mock");
+  });
+
+  it("rejects unknown providers", () => {
+    expect(() => getLlmProvider("nope")).toThrow("Unknown LLM provider: nope");
+  });
+});
+
+describe("analyzeTranscriptWithDetails with the mock provider", () => {
+  it("parses the mock analysis in one attempt", async () => {
+    const outcome = await analyzeTranscriptWithDetails("vid1", TRANSCRIPT, "My story", { model: "mock:" });
+
+    expect(outcome.error).toBeNull();
+    expect(outcome.attempts).toBe(1);
+    expect(outcome.chunks).toBe(1);
+    expect(outcome.result?.video_type).toBe("Informational");
+    expect(outcome.result?.key_opinion).toMatch(/^mock-[0-9a-f]{8}$/);
+  });
+
+  it("gives the same answer for the same prompt", async () => {
+    const first = await analyzeTranscriptWithDetails("vid1", TRANSCRIPT, "My story", { model: "mock:" });
+    const second = await analyzeTranscriptWithDetails("vid1", TRANSCRIPT, "My story", { model: "mock:" });
+    expect(second.rawResponse).toBe(first.rawResponse);
+  });
+
+  it("sends repair prompts for an invalid MOCK_LLM_RESPONSE and gives up after the last attempt", async () => {
+    process.env.MOCK_LLM_RESPONSE = JSON.stringify({ video_type: "documentary" });
+    const generate = jest.spyOn(MyLama.prototype, "generate");
+
+    const outcome = await analyzeTranscriptWithDetails("vid1", TRANSCRIPT, "My story", { model: "mock:", repairAttempts: 2 });
+
+    expect(outcome.result).toBeNull();
+    expect(outcome.attempts).toBe(3);
+    expect(outcome.error).toContain("missing key(s)");
+    expect(generate).toHaveBeenCalledTimes(3);
+    expect(generate.mock.calls[1][0]).toContain("Your previous answer could not be used");
+    expect(generate.mock.calls[1][0]).toContain(process.env.MOCK_LLM_RESPONSE);
+  });
+
+  it("accepts the answer to a repair prompt", async () => {
+    process.env.MOCK_LLM_RESPONSE = "Sorry, I cannot answer in JSON.";
+    const generate = jest.spyOn(MyLama.prototype, "generate");
+    // The first answer is MOCK_LLM_RESPONSE; the repair prompt gets the mock's regular analysis
+    generate.mockImplementationOnce(async function (this: MyLama, prompt: string) {
+      const response = await resolveModelSpec(this.model).provider.generate(prompt);
+      delete process.env.MOCK_LLM_RESPONSE;
+      return response;
+    });
+
+    const outcome = await analyzeTranscriptWithDetails("vid1", TRANSCRIPT, "My story", { model: "mock:", repairAttempts: 2 });
+
+    expect(outcome.attempts).toBe(2);
+    expect(outcome.error).toBeNull();
+    expect(outcome.result?.video_type).toBe("Informational");
+    expect(generate.mock.calls[1][0]).toContain("No parseable JSON object found in LLM response");
+  });
+
+  it("rejects an empty transcript without calling the model", async () => {
+    const generate = jest.spyOn(MyLama.prototype, "generate");
+    const outcome = await analyzeTranscriptWithDetails("vid1", "   ", "My story", { model: "mock:" });
+
+    expect(outcome.result).toBeNull();
+    expect(outcome.error).toBe("No valid transcript provided");
+    expect(generate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,50 @@
+import { migrateDown } from "../lib/migrate";
+import { Migration } from "../lib/migrations/migration";
+
+const MIGRATIONS: Migration[] = [
+  { version: 1, name: "baseline", up: "CREATE TABLE t ()", down: "DROP TABLE t" },
+  { version: 2, name: "second", up: "ALTER TABLE t ADD c INT", down: "ALTER TABLE t DROP c" },
+];
+
+// Stands in for Postgres with both migrations applied, recording every statement
+function fakePool() {
+  const statements: string[] = [];
+  const client = {
+    query: jest.fn(async (sql: string) => {
+      statements.push(sql.trim());
+      if (sql.startsWith("SELECT version")) {
+        return { rows: MIGRATIONS.map(migration => ({ version: migration.version, name: migration.name, applied_at: "2024-01-01" })) };
+      }
+      return { rows: [] };
+    }),
+    release: jest.fn(),
+  };
+  return { pool: { connect: jest.fn(async () => client) } as any, statements };
+}
+
+describe("migrateDown", () => {
+  it("reverts the most recent migration", async () => {
+    const { pool, statements } = fakePool();
+    const reverted = await migrateDown(pool, {}, MIGRATIONS);
+
+    expect(reverted.map(migration => migration.version)).toEqual([2]);
+    expect(statements).toContain("ALTER TABLE t DROP c");
+    expect(statements).not.toContain("DROP TABLE t");
+  });
+
+  it("refuses to revert the baseline and reverts nothing else either", async () => {
+    const { pool, statements } = fakePool();
+
+    await expect(migrateDown(pool, { to: 0 }, MIGRATIONS)).rejects.toMatchObject({ name: "MigrationError" });
+    await expect(migrateDown(pool, { steps: 2 }, MIGRATIONS)).rejects.toThrow("--allow-drop-baseline");
+    expect(statements).not.toContain("BEGIN");
+  });
+
+  it("reverts the baseline when explicitly allowed", async () => {
+    const { pool, statements } = fakePool();
+    const reverted = await migrateDown(pool, { to: 0, allowDropBaseline: true }, MIGRATIONS);
+
+    expect(reverted.map(migration => migration.version)).toEqual([2, 1]);
+    expect(statements).toContain("DROP TABLE t");
+  });
+});
@@ -0,0 +1,247 @@
+process.env.LLM_MODEL = "mock:test";
+delete process.env.DATABASE_URL;
+
+import { parseStages, parseMaxResults, runPipeline, PipelineStage } from "../lib/pipeline";
+import { getPromptTemplate } from "../lib/prompt-library";
+import { resolveModelSpec } from "../lib/llm-providers";
+import * as database from "../lib/database";
+import * as youtube from "../lib/youtube";
+import { VideoMetadata } from "../lib/types";
+
+jest.mock("../lib/youtube", () => ({
+  searchDiseaseVideos: jest.fn(),
+  getTranscript: jest.fn(),
+}));
+
+jest.mock("../lib/database", () => ({
+  initializeDatabase: jest.fn(),
+  storeVideo: jest.fn(),
+  storeTranscript: jest.fn(),
+  storeAnalysis: jest.fn(),
+  storeSearchConfig: jest.fn(),
+  getVideosBySearchName: jest.fn(),
+  getTranscriptsBySearchName: jest.fn(),
+  getVideosWithCurrentAnalysis: jest.fn(),
+  getSearchConfig: jest.fn(),
+  createPipelineRun: jest.fn(),
+  getPipelineRun: jest.fn(),
+  updatePipelineRunStatus: jest.fn(),
+  addPipelineItems: jest.fn(),
+  getPipelineItems: jest.fn(),
+  updatePipelineItem: jest.fn(),
+}));
+
+const db = jest.mocked(database);
+const yt = jest.mocked(youtube);
+
+function video(id: string): VideoMetadata {
+  return {
+    id,
+    title: `Video ${id}`,
+    description: "",
+    publishedDate: "2024-01-01T00:00:00Z",
+    durationInSeconds: 60,
+    viewCount: 1,
+    url: `https://www.youtube.com/watch?v=${id}`,
+    channel_name: "Channel",
+  };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  delete process.env.DATABASE_URL;
+  delete process.env.MOCK_LLM_RESPONSE;
+  yt.searchDiseaseVideos.mockResolvedValue([video("a"), video("b")]);
+  yt.getTranscript.mockImplementation(async (videoId: string) => ({
+    transcript: `Transcript of ${videoId}`,
+    language: "en",
+    segments: [],
+  }));
+  db.getSearchConfig.mockResolvedValue(null);
+  db.createPipelineRun.mockResolvedValue(7);
+  db.getVideosWithCurrentAnalysis.mockResolvedValue(new Set());
+});
+
+describe("parseStages", () => {
+  it("returns stages in pipeline order whatever order they were given in", () => {
+    expect(parseStages("store, Analyze,fetch")).toEqual(["fetch", "analyze", "store"]);
+  });
+
+  it("ignores empty entries", () => {
+    expect(parseStages("fetch,,transcripts,")).toEqual(["fetch", "transcripts"]);
+  });
+
+  it("rejects unknown stages", () => {
+    expect(() => parseStages("fetch,download")).toThrow("Invalid stage(s): download");
+  });
+});
+
+describe("parseMaxResults", () => {
+  it("accepts a positive whole number", () => {
+    expect(parseMaxResults("25")).toBe(25);
+  });
+
+  it("rejects zero, negative and non-numeric values", () => {
+    for (const value of ["0", "-5", "abc", "10abc", "2.5", ""]) {
+      expect(() => parseMaxResults(value)).toThrow(`Invalid max results: ${value}`);
+    }
+  });
+});
+
+describe("runPipeline", () => {
+  it("runs only the selected stages", async () => {
+    const result = await runPipeline({ searchName: "ataxia", stages: ["fetch"] });
+
+    expect(yt.searchDiseaseVideos).toHaveBeenCalledWith(["ataxia"], expect.any(Object));
+    expect(result.videos.map(item => item.id)).toEqual(["a", "b"]);
+    expect(yt.getTranscript).not.toHaveBeenCalled();
+    expect(db.storeVideo).not.toHaveBeenCalled();
+    expect(result.runId).toBeNull();
+  });
+
+  it("takes videos through every stage with the mock provider and stores them", async () => {
+    process.env.DATABASE_URL = "postgres://test";
+
+    const result = await runPipeline({ searchName: "ataxia", userId: "tester" });
+
+    expect(result.runId).toBe(7);
+    expect(result.transcripts).toHaveLength(2);
+    expect(result.analyses.map(item => item.videoId)).toEqual(["a", "b"]);
+    expect(result.analyses[0].llm_model).toBe("mock:test");
+    expect(db.storeVideo).toHaveBeenCalledTimes(2);
+    expect(db.storeVideo).toHaveBeenNthCalledWith(2, expect.objectContaining({ id: "b", search_name: "ataxia" }), 2);
+    expect(db.storeAnalysis).toHaveBeenCalledTimes(2);
+    expect(db.storeSearchConfig).toHaveBeenCalledWith(expect.objectContaining({ search_name: "ataxia", user_id: "tester" }));
+    // Videos are linked to the search's config, so it has to exist first
+    expect(db.storeSearchConfig.mock.invocationCallOrder[0]).toBeLessThan(db.storeVideo.mock.invocationCallOrder[0]);
+    expect(db.updatePipelineRunStatus).toHaveBeenLastCalledWith(7, "completed");
+  });
+
+  it("skips videos already analyzed with the current prompt and model", async () => {
+    process.env.DATABASE_URL = "postgres://test";
+    db.getVideosWithCurrentAnalysis.mockResolvedValue(new Set(["a"]));
+
+    const result = await runPipeline({ searchName: "ataxia", stages: ["fetch", "transcripts", "analyze"] });
+
+    expect(result.analyses.map(item => item.videoId)).toEqual(["b"]);
+  });
+
+  it("versions the prompt with the search's custom fields", async () => {
+    process.env.DATABASE_URL = "postgres://test";
+    const customField = { name: "gaa_repeats", type: "number" as const, description: "GAA repeat length" };
+    db.getSearchConfig.mockResolvedValue({
+      param_id: 1,
+      user_id: "tester",
+      search_phrase: "ataxia",
+      search_name: "ataxia",
+      creation_date: new Date(),
+      custom_field_schema: [customField],
+    });
+    const stages: PipelineStage[] = ["fetch", "transcripts", "analyze"];
+    const template = getPromptTemplate();
+    const mockAnalysis = JSON.parse(await resolveModelSpec("mock:").provider.generate(""));
+    process.env.MOCK_LLM_RESPONSE = JSON.stringify({ ...mockAnalysis, custom_fields: { gaa_repeats: 800 } });
+
+    const result = await runPipeline({ searchName: "ataxia", stages });
+    const versionWithField = result.analyses[0].prompt_version;
+    expect(versionWithField).not.toBe(template.hash);
+    expect(db.getVideosWithCurrentAnalysis).toHaveBeenLastCalledWith(["a", "b"], versionWithField, "mock:test");
+
+    db.getSearchConfig.mockResolvedValue({
+      param_id: 1,
+      user_id: "tester",
+      search_phrase: "ataxia",
+      search_name: "ataxia",
+      creation_date: new Date(),
+      custom_field_schema: [{ ...customField, description: "Number of GAA repeats on the shorter allele" }],
+    });
+    const changed = await runPipeline({ searchName: "ataxia", stages });
+    expect(changed.analyses[0].prompt_version).not.toBe(versionWithField);
+    expect(changed.analyses[0].custom_fields).toEqual({ gaa_repeats: 800 });
+  });
+
+  it("re-analyzes current videos when forced", async () => {
+    process.env.DATABASE_URL = "postgres://test";
+    db.getVideosWithCurrentAnalysis.mockResolvedValue(new Set(["a"]));
+
+    const result = await runPipeline({ searchName: "ataxia", stages: ["fetch", "transcripts", "analyze"], force: true });
+
+    expect(db.getVideosWithCurrentAnalysis).not.toHaveBeenCalled();
+    expect(result.analyses.map(item => item.videoId)).toEqual(["a", "b"]);
+  });
+
+  it("reuses the fetch results and transcripts of a resumed run", async () => {
+    process.env.DATABASE_URL = "postgres://test";
+    db.getPipelineRun.mockResolvedValue({
+      run_id: 3,
+      command: "pipeline",
+      search_name: "ataxia",
+      options: {},
+      status: "failed",
+      started_at: new Date(),
+      finished_at: new Date(),
+    });
+    const transcript = { transcript: "Stored transcript of a", language: "en", segments: [] };
+    db.getPipelineItems.mockResolvedValue([
+      { run_id: 3, video_id: "a", state: "transcribed", failed_stage: null, error: null, data: { metadata: video("a"), transcript }, updated_at: new Date() },
+      { run_id: 3, video_id: "b", state: "fetched", failed_stage: null, error: null, data: { metadata: video("b") }, updated_at: new Date() },
+    ]);
+
+    const result = await runPipeline({ searchName: "ataxia", stages: ["fetch", "transcripts", "analyze"], resumeRunId: 3 });
+
+    expect(result.runId).toBe(3);
+    expect(yt.searchDiseaseVideos).not.toHaveBeenCalled();
+    expect(yt.getTranscript).toHaveBeenCalledTimes(1);
+    expect(yt.getTranscript).toHaveBeenCalledWith("b");
+    expect(result.transcripts[0].transcript).toBe("Stored transcript of a");
+    expect(result.analyses).toHaveLength(2);
+    expect(db.createPipelineRun).not.toHaveBeenCalled();
+  });
+
+  it("fetches again when the resumed run recorded videos without metadata", async () => {
+    process.env.DATABASE_URL = "postgres://test";
+    db.getPipelineRun.mockResolvedValue({
+      run_id: 4,
+      command: "pipeline",
+      search_name: "ataxia",
+      options: { stages: ["transcripts"] },
+      status: "failed",
+      started_at: new Date(),
+      finished_at: new Date(),
+    });
+    db.getPipelineItems.mockResolvedValue([
+      { run_id: 4, video_id: "a", state: "transcribed", failed_stage: null, error: null, data: { transcript: { transcript: "x", language: "en" } }, updated_at: new Date() },
+    ]);
+
+    const result = await runPipeline({ searchName: "ataxia", stages: ["fetch"], resumeRunId: 4 });
+
+    expect(yt.searchDiseaseVideos).toHaveBeenCalledTimes(1);
+    expect(result.videos.map(item => item.id)).toEqual(["a", "b"]);
+  });
+
+  it("rejects a prompt template that cannot analyze videos before fetching anything", async () => {
+    await expect(runPipeline({ searchName: "ataxia", promptTemplate: "search_terms" }))
+      .rejects.toThrow("Template \"search_terms\" is not an analysis prompt");
+    expect(db.createPipelineRun).not.toHaveBeenCalled();
+    expect(yt.searchDiseaseVideos).not.toHaveBeenCalled();
+  });
+
+  it("refuses to resume a run started by another command or for another search", async () => {
+    process.env.DATABASE_URL = "postgres://test";
+    db.getPipelineRun.mockResolvedValue({
+      run_id: 5,
+      command: "llm-analyzer",
+      search_name: null,
+      options: {},
+      status: "failed",
+      started_at: new Date(),
+      finished_at: new Date(),
+    });
+    db.getPipelineItems.mockResolvedValue([]);
+
+    await expect(runPipeline({ searchName: "ataxia", resumeRunId: 5 })).rejects.toThrow(
+      "Pipeline run 5 was started by llm-analyzer for no search; it cannot be resumed by pipeline for \"ataxia\""
+    );
+    expect(yt.searchDiseaseVideos).not.toHaveBeenCalled();
+  });
+});
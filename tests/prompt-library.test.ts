@@ -0,0 +1,156 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  loadPromptLibrary,
+  renderPrompt,
+  hashPrompt,
+  getPromptTemplate,
+  getAnalysisPromptTemplate,
+  isAnalysisTemplate,
+} from "../lib/prompt-library";
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), "prompt-library-"));
+let files = 0;
+
+// Each library gets its own file, since loadPromptLibrary caches by path
+function library(yaml: string) {
+  const file = path.join(directory, `library-${files++}.yaml`);
+  fs.writeFileSync(file, yaml);
+  return file;
+}
+
+const VALID = `
+summary:
+  version: 2
+  description: >
+    Summarizes a video.
+  prompt: |
+    Summarize "{title}":
+    {transcript}
+    Notes: {notes}
+  input_variables:
+    - title
+    - name: transcript
+      description: Full transcript.
+    - name: notes
+      required: false
+  output:
+    keys: [summary]
+    constraints:
+      - Keep it short.
+`;
+
+afterAll(() => {
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+describe("loadPromptLibrary", () => {
+  it("reads templates with their inputs, output spec and prompt hash", () => {
+    const template = loadPromptLibrary(library(VALID)).get("summary")!;
+
+    expect(template).toMatchObject({
+      name: "summary",
+      version: "2",
+      description: "Summarizes a video.",
+      output: { type: "json", description: null, keys: ["summary"], constraints: ["Keep it short."] },
+    });
+    expect(template.inputVariables).toEqual([
+      { name: "title", type: "string", description: null, required: true },
+      { name: "transcript", type: "string", description: "Full transcript.", required: true },
+      { name: "notes", type: "string", description: null, required: false },
+    ]);
+    expect(template.hash).toBe(hashPrompt(template.prompt));
+  });
+
+  it("hashes the prompt text only, so the hash changes with the prompt and nothing else", () => {
+    const original = loadPromptLibrary(library(VALID)).get("summary")!;
+    const described = loadPromptLibrary(library(VALID.replace("Summarizes a video.", "Other words.").replace("version: 2", "version: 3"))).get("summary")!;
+    const edited = loadPromptLibrary(library(VALID.replace("Summarize \"", "Briefly summarize \""))).get("summary")!;
+
+    expect(original.hash).toMatch(/^[0-9a-f]{12}$/);
+    expect(described.hash).toBe(original.hash);
+    expect(edited.hash).not.toBe(original.hash);
+  });
+
+  it("rejects placeholders that are not declared", () => {
+    const file = library(VALID.replace("Notes: {notes}", "Notes: {notes} {language}"));
+    expect(() => loadPromptLibrary(file)).toThrow("Template \"summary\" uses undeclared input variable(s): language");
+  });
+
+  it("rejects declared variables the prompt never uses", () => {
+    const file = library(VALID.replace("    Notes: {notes}\n", ""));
+    expect(() => loadPromptLibrary(file)).toThrow("Template \"summary\" declares input variable(s) it never uses: notes");
+  });
+
+  it("rejects a variable declared twice", () => {
+    const file = library(VALID.replace("    - title\n", "    - title\n    - name: title\n"));
+    expect(() => loadPromptLibrary(file)).toThrow("declares input variable(s) more than once: title");
+  });
+
+  it("rejects a template name used twice", () => {
+    const file = library(`${VALID}\nsummary:\n  prompt: Again\n`);
+    expect(() => loadPromptLibrary(file)).toThrow(/Cannot read prompt library .*duplicated mapping key/);
+  });
+
+  it("rejects templates without a prompt and malformed lists", () => {
+    expect(() => loadPromptLibrary(library("empty:\n  version: 1\n"))).toThrow("Template \"empty\" has no prompt");
+    expect(() => loadPromptLibrary(library(VALID.replace("keys: [summary]", "keys: summary"))))
+      .toThrow("output.keys of template \"summary\" must be a list of strings");
+    expect(() => loadPromptLibrary(library("- just a list\n"))).toThrow("must map template names to templates");
+  });
+});
+
+describe("renderPrompt", () => {
+  const template = loadPromptLibrary(library(VALID)).get("summary")!;
+
+  it("fills every placeholder in one pass and leaves optional ones empty", () => {
+    expect(renderPrompt(template, { title: "My {story}", transcript: "Hello {notes}" }))
+      .toBe("Summarize \"My {story}\":\nHello {notes}\nNotes: \n");
+  });
+
+  it("names the required inputs that are missing", () => {
+    expect(() => renderPrompt(template, { title: "t", transcript: null }))
+      .toThrow("Template \"summary\" needs input variable(s): transcript");
+  });
+
+  it("rejects values of the wrong type", () => {
+    expect(() => renderPrompt(template, { title: "t", transcript: 42 as any }))
+      .toThrow("Template \"summary\" expects string value(s) for: transcript");
+  });
+});
+
+describe("isAnalysisTemplate", () => {
+  const summary = loadPromptLibrary(library(VALID)).get("summary")!;
+
+  it("accepts templates that read the transcript and need nothing but the title besides", () => {
+    expect(isAnalysisTemplate(summary)).toBe(true);
+    expect(isAnalysisTemplate({ ...summary, inputVariables: summary.inputVariables.filter(variable => variable.name !== "title") }))
+      .toBe(true);
+  });
+
+  it("rejects templates without a transcript or with other required inputs", () => {
+    const notes = summary.inputVariables[2];
+    expect(isAnalysisTemplate({ ...summary, inputVariables: summary.inputVariables.filter(variable => variable.name !== "transcript") }))
+      .toBe(false);
+    expect(isAnalysisTemplate({ ...summary, inputVariables: [...summary.inputVariables.slice(0, 2), { ...notes, required: true }] }))
+      .toBe(false);
+  });
+});
+
+describe("the bundled library", () => {
+  it("loads and defaults to disease_space", () => {
+    expect(getPromptTemplate().name).toBe("disease_space");
+    expect(() => getPromptTemplate("nope")).toThrow("Unknown prompt template \"nope\"");
+  });
+
+  it("only offers disease_space for analysis, not search_terms", () => {
+    expect(getAnalysisPromptTemplate().name).toBe("disease_space");
+    expect(getPromptTemplate("search_terms").name).toBe("search_terms");
+    expect(() => getAnalysisPromptTemplate("search_terms")).toThrow(
+      "Template \"search_terms\" is not an analysis prompt: it must take title and transcript and require no other inputs. " +
+      "Analysis templates: disease_space"
+    );
+    expect(() => getAnalysisPromptTemplate("nope")).toThrow("Unknown prompt template \"nope\"");
+  });
+});
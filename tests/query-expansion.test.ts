@@ -0,0 +1,44 @@
+import { expandSearchQueries } from "../lib/query-expansion";
+
+describe("expandSearchQueries", () => {
+  it("puts the search phrases first, then the names, then every name with every keyword", () => {
+    expect(expandSearchQueries({
+      searchPhrases: ["friedreich ataxia"],
+      diseaseName: "Friedreich's ataxia",
+      synonyms: ["FRDA"],
+      keywords: ["patient story", "diagnosis"],
+    }, 20)).toEqual([
+      "friedreich ataxia",
+      "Friedreich's ataxia",
+      "FRDA",
+      "Friedreich's ataxia patient story",
+      "Friedreich's ataxia diagnosis",
+      "FRDA patient story",
+      "FRDA diagnosis",
+    ]);
+  });
+
+  it("drops repeats ignoring case and extra spaces, keeping the first spelling", () => {
+    expect(expandSearchQueries({
+      searchPhrases: ["FRDA", "ataxia ", "FRDA  Patient"],
+      diseaseName: "frda",
+      synonyms: ["  Ataxia"],
+      keywords: ["patient", "Patient"],
+    }, 20)).toEqual(["FRDA", "ataxia", "FRDA Patient", "Ataxia patient"]);
+  });
+
+  it("uses the synonyms as names without a disease name, and never searches keywords alone", () => {
+    expect(expandSearchQueries({ synonyms: ["FRDA"], keywords: ["vlog"] }, 20)).toEqual(["FRDA", "FRDA vlog"]);
+    expect(expandSearchQueries({ searchPhrases: ["ataxia"], keywords: ["vlog"] }, 20)).toEqual(["ataxia"]);
+    expect(expandSearchQueries({ diseaseName: "ataxia", synonyms: [], keywords: [] }, 20)).toEqual(["ataxia"]);
+    expect(expandSearchQueries({}, 20)).toEqual([]);
+  });
+
+  it("cuts the list at the limit, keeping the search phrases", () => {
+    expect(expandSearchQueries({
+      searchPhrases: ["ataxia"],
+      diseaseName: "FRDA",
+      keywords: ["vlog", "story", "diagnosis"],
+    }, 3)).toEqual(["ataxia", "FRDA", "FRDA vlog"]);
+  });
+});
@@ -0,0 +1,100 @@
+import { getAnalysisReview, relabelForVideoType, submitReview } from "../lib/review";
+import * as database from "../lib/database";
+
+jest.mock("../lib/database", () => ({
+  getPool: jest.fn(),
+  storeAnalysisSymptoms: jest.fn(),
+  searchVideoIds: jest.fn(() => "SELECT video_id FROM video_searches"),
+}));
+
+const db = jest.mocked(database);
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+const ANALYSIS = {
+  video_id: "v1",
+  title: "My story",
+  url: "https://youtube.com/watch?v=v1",
+  search_name: "ataxia",
+  review_status: "corrected",
+  reviewed_by: "sam",
+  reviewed_at: "2024-05-01T10:00:00Z",
+  review_note: null,
+  video_type: "patient story",
+  video_labels: ["patient story", "fundraising"],
+  symptoms: ["fatigue"],
+};
+
+// Answers the analysis query with ANALYSIS and the overrides query with the given overrides
+function fakePool(overrides: { field: string; value: any }[]) {
+  const query = jest.fn(async (sql: string) => sql.includes("FROM analysis_overrides")
+    ? { rows: overrides.map(override => ({ ...override, reviewer: "sam", updated_at: "2024-05-01T10:00:00Z" })) }
+    : { rows: [ANALYSIS] });
+  db.getPool.mockResolvedValue({ query } as any);
+}
+
+describe("relabelForVideoType", () => {
+  it("puts the corrected type in place of the original one", () => {
+    expect(relabelForVideoType("patient story", ["patient story", "fundraising"], "caregiver story"))
+      .toEqual(["caregiver story", "fundraising"]);
+  });
+
+  it("does not repeat a corrected type that was already a label", () => {
+    expect(relabelForVideoType("patient story", ["patient story", "fundraising"], "fundraising")).toEqual(["fundraising"]);
+  });
+
+  it("drops the original type when the correction is unknown or cleared", () => {
+    expect(relabelForVideoType("patient story", ["patient story", "fundraising"], "unknown")).toEqual(["fundraising"]);
+    expect(relabelForVideoType("patient story", ["patient story"], null)).toBeNull();
+    expect(relabelForVideoType("unknown", null, "KOL interview")).toEqual(["KOL interview"]);
+  });
+});
+
+describe("getAnalysisReview", () => {
+  it("re-derives the labels when only the video type was corrected", async () => {
+    fakePool([{ field: "video_type", value: "caregiver story" }]);
+    const review = await getAnalysisReview("v1");
+
+    expect(review?.original.video_labels).toEqual(["patient story", "fundraising"]);
+    expect(review?.effective.video_type).toBe("caregiver story");
+    expect(review?.effective.video_labels).toEqual(["caregiver story", "fundraising"]);
+  });
+
+  it("keeps labels the reviewer corrected explicitly", async () => {
+    fakePool([
+      { field: "video_type", value: "caregiver story" },
+      { field: "video_labels", value: ["caregiver story"] },
+    ]);
+    expect((await getAnalysisReview("v1"))?.effective.video_labels).toEqual(["caregiver story"]);
+  });
+
+  it("leaves the labels alone without a type correction", async () => {
+    fakePool([{ field: "symptoms", value: ["tremor"] }]);
+    expect((await getAnalysisReview("v1"))?.effective.video_labels).toEqual(["patient story", "fundraising"]);
+  });
+});
+
+describe("submitReview", () => {
+  it("rejects labels outside the taxonomy before touching the database", async () => {
+    await expect(submitReview("v1", { reviewer: "sam", corrections: { video_labels: ["documentary"] } }))
+      .rejects.toThrow("video_labels must be a list of: patient story");
+    await expect(submitReview("v1", { reviewer: "sam", corrections: { video_labels: ["unknown"] } }))
+      .rejects.toMatchObject({ name: "ReviewValidationError" });
+    await expect(submitReview("v1", { reviewer: "sam", corrections: { video_labels: "fundraising" } }))
+      .rejects.toMatchObject({ name: "ReviewValidationError" });
+    expect(db.getPool).not.toHaveBeenCalled();
+  });
+
+  it("stores labels in the taxonomy's spelling without duplicates", async () => {
+    const query = jest.fn(async (sql: string) => sql.startsWith("UPDATE") ? { rowCount: 1, rows: [] } : { rows: [] });
+    const client = { query, release: jest.fn() };
+    db.getPool.mockResolvedValue({ connect: async () => client, query: async () => ({ rows: [] }) } as any);
+
+    await submitReview("v1", { reviewer: "sam", corrections: { video_labels: ["Fundraising", "kol INTERVIEW", "fundraising"] } });
+
+    const insert = query.mock.calls.find(([sql]) => sql.includes("INSERT INTO analysis_overrides")) as any[];
+    expect(insert[1]).toEqual(["v1", "video_labels", JSON.stringify(["fundraising", "KOL interview"]), "sam"]);
+  });
+});
@@ -0,0 +1,158 @@
+import { nextRunTime, isSearchDue, runScheduledSearch, runDueSearches } from "../lib/scheduler";
+import { runPipeline } from "../lib/pipeline";
+import { ScheduledSearchConfig } from "../lib/database";
+
+const mockQuery = jest.fn();
+
+// lib/database runs for real against a fake pool, so the watermark update is exercised too
+jest.mock("pg", () => ({
+  __esModule: true,
+  default: { Pool: jest.fn(() => ({ query: mockQuery, on: jest.fn() })) },
+}));
+
+jest.mock("../lib/pipeline", () => ({
+  runPipeline: jest.fn(),
+}));
+
+const pipeline = jest.mocked(runPipeline);
+
+function config(overrides: Partial<ScheduledSearchConfig> = {}): ScheduledSearchConfig {
+  return {
+    param_id: 3,
+    user_id: "sam",
+    search_phrase: "ataxia",
+    search_name: "ataxia",
+    search_phrases: ["ataxia"],
+    exclude_keywords: [],
+    start_date: null,
+    end_date: null,
+    schedule: "0 6 * * 1",
+    last_fetched_at: null,
+    last_run_started_at: null,
+    ...overrides,
+  };
+}
+
+// Cron runs in local time, so these dates are local too; 2024-01-08 is a Monday
+function at(month: number, day: number, hour = 0, minute = 0): Date {
+  return new Date(2024, month - 1, day, hour, minute);
+}
+
+let configs: ScheduledSearchConfig[] = [];
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  configs = [];
+  let windowEnd: Date | null = null;
+  mockQuery.mockImplementation(async (sql: string, params: any[] = []) => {
+    if (sql.startsWith("INSERT INTO scheduled_runs")) {
+      windowEnd = params[2];
+      return { rows: [{ scheduled_run_id: 7 }] };
+    }
+    if (sql.startsWith("UPDATE scheduled_runs")) {
+      return { rows: [{ param_id: 3, window_end: windowEnd }] };
+    }
+    if (sql.includes("FROM SearchConfig sc")) {
+      return { rows: configs };
+    }
+    return { rows: [] };
+  });
+  pipeline.mockResolvedValue({ runId: 12, videos: [{}, {}], transcripts: [{}], analyses: [{}] } as any);
+});
+
+function queries(prefix: string): any[][] {
+  return mockQuery.mock.calls.filter(([sql]) => sql.startsWith(prefix));
+}
+
+describe("nextRunTime", () => {
+  it("is null without a schedule and now for a search that never ran", () => {
+    expect(nextRunTime(config({ schedule: null }), at(1, 10))).toBeNull();
+    expect(nextRunTime(config(), at(1, 10))).toEqual(at(1, 10));
+  });
+
+  it("is the first tick after the last scheduled run", () => {
+    expect(nextRunTime(config({ last_run_started_at: at(1, 8, 6, 0) }), at(1, 10))).toEqual(at(1, 15, 6, 0));
+    // A run that started late still waits for the next tick rather than running again at once
+    expect(nextRunTime(config({ last_run_started_at: at(1, 8, 9, 30) }), at(1, 10))).toEqual(at(1, 15, 6, 0));
+  });
+});
+
+describe("isSearchDue", () => {
+  const ran = config({ last_run_started_at: at(1, 8, 6, 0) });
+
+  it("is due once the next tick has passed", () => {
+    expect(isSearchDue(ran, at(1, 15, 5, 59))).toBe(false);
+    expect(isSearchDue(ran, at(1, 15, 6, 0))).toBe(true);
+  });
+
+  it("runs missed ticks once rather than once per tick", () => {
+    expect(isSearchDue(ran, at(2, 1))).toBe(true);
+    expect(isSearchDue(config({ last_run_started_at: at(2, 1) }), at(2, 1, 0, 5))).toBe(false);
+  });
+
+  it("never runs unscheduled searches", () => {
+    expect(isSearchDue(config({ schedule: null }), at(2, 1))).toBe(false);
+  });
+});
+
+describe("runScheduledSearch", () => {
+  const now = at(3, 4, 6, 0);
+
+  it("fetches from the watermark to now", async () => {
+    const outcome = await runScheduledSearch(config({ last_fetched_at: at(2, 26, 6, 0), start_date: "2024-01-01" }), now);
+
+    expect(queries("INSERT INTO scheduled_runs")[0][1]).toEqual([3, at(2, 26, 6, 0), now]);
+    expect(pipeline).toHaveBeenCalledWith({
+      searchName: "ataxia",
+      userId: "sam",
+      startDate: at(2, 26, 6, 0).toISOString(),
+      endDate: now.toISOString(),
+    });
+    expect(outcome).toMatchObject({ status: "completed", scheduledRunId: 7, runId: 12, videos: 2, transcripts: 1, analyses: 1 });
+  });
+
+  it("starts at the config's start date when it is later than the watermark", async () => {
+    await runScheduledSearch(config({ last_fetched_at: at(1, 1), start_date: "2024-02-01" }), now);
+    expect(pipeline.mock.calls[0][0].startDate).toBe(new Date("2024-02-01").toISOString());
+  });
+
+  it("uses the default range on a first run without a start date, and stops at the end date", async () => {
+    const outcome = await runScheduledSearch(config({ end_date: "2024-02-15" }), now);
+
+    expect(pipeline.mock.calls[0][0]).toMatchObject({ startDate: undefined, endDate: new Date("2024-02-15").toISOString() });
+    expect(outcome).toMatchObject({ windowStart: null, windowEnd: new Date("2024-02-15") });
+  });
+
+  it("moves the watermark to the window end, never backwards, after a completed run", async () => {
+    await runScheduledSearch(config({ last_fetched_at: at(2, 26, 6, 0) }), now);
+
+    expect(queries("UPDATE SearchConfig")).toEqual([[
+      "UPDATE SearchConfig SET last_fetched_at = GREATEST(last_fetched_at, $2) WHERE param_id = $1",
+      [3, now],
+    ]]);
+  });
+
+  it("records a failed run and leaves the watermark alone", async () => {
+    pipeline.mockRejectedValue(new Error("quota exceeded"));
+    const outcome = await runScheduledSearch(config({ last_fetched_at: at(2, 26, 6, 0) }), now);
+
+    expect(outcome).toMatchObject({ status: "failed", error: "quota exceeded", runId: null, videos: 0 });
+    expect(queries("UPDATE scheduled_runs")[0][1]).toEqual([7, "failed", null, 0, 0, 0, "quota exceeded"]);
+    expect(queries("UPDATE SearchConfig")).toEqual([]);
+  });
+});
+
+describe("runDueSearches", () => {
+  it("runs only the due searches and skips ones whose schedule cannot be parsed", async () => {
+    configs = [
+      config({ search_name: "broken", schedule: "0 0 30 2 *", last_run_started_at: at(1, 1) }),
+      config({ search_name: "waiting", last_run_started_at: new Date() }),
+      config({ search_name: "new" }),
+    ];
+
+    const outcomes = await runDueSearches();
+
+    expect(outcomes.map(outcome => outcome.searchName)).toEqual(["new"]);
+    expect(pipeline).toHaveBeenCalledTimes(1);
+  });
+});
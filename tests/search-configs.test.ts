@@ -0,0 +1,110 @@
+import { createSearchConfig, updateSearchConfig, searchConfigFromFileEntry } from "../lib/search-configs";
+import * as database from "../lib/database";
+
+jest.mock("../lib/database", () => ({
+  getPool: jest.fn(),
+  getSearchConfig: jest.fn(),
+}));
+
+const db = jest.mocked(database);
+
+const PLACEHOLDER = {
+  param_id: 3,
+  user_id: "unknown",
+  search_phrase: "ataxia",
+  search_name: "ataxia",
+  search_phrases: ["ataxia"],
+  creation_date: new Date("2024-01-01T00:00:00Z"),
+  updated_at: null,
+};
+
+let query: jest.Mock;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  query = jest.fn(async () => ({ rows: [], rowCount: 1 }));
+  db.getPool.mockResolvedValue({ query } as any);
+});
+
+describe("createSearchConfig", () => {
+  it("rejects unknown and invalid fields before touching the database", async () => {
+    await expect(createSearchConfig({ searchName: "ataxia", searchPhrase: "ataxia" } as any))
+      .rejects.toThrow("Unknown field \"searchPhrase\". Use one of: searchName, userId, searchPhrases");
+    await expect(createSearchConfig({ searchName: " " })).rejects.toThrow("searchName must be a non-empty string");
+    await expect(createSearchConfig({ searchName: "ataxia", searchPhrases: [] }))
+      .rejects.toMatchObject({ name: "SearchConfigValidationError", message: "searchPhrases needs at least one phrase" });
+    await expect(createSearchConfig({ searchName: "ataxia", promptTemplate: "search_terms" }))
+      .rejects.toThrow("Template \"search_terms\" is not an analysis prompt");
+    await expect(createSearchConfig({ searchName: "ataxia", startDate: "2024-03-01", endDate: "2024-02-01" }))
+      .rejects.toThrow("startDate must not be after endDate");
+    expect(db.getSearchConfig).not.toHaveBeenCalled();
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it("refuses to replace a config someone created", async () => {
+    db.getSearchConfig.mockResolvedValue({ ...PLACEHOLDER, user_id: "sam" });
+    await expect(createSearchConfig({ searchName: "ataxia" })).rejects.toThrow("Search config \"ataxia\" already exists");
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it("takes over a placeholder config without resetting its creation date", async () => {
+    db.getSearchConfig.mockResolvedValueOnce(PLACEHOLDER).mockResolvedValueOnce({ ...PLACEHOLDER, user_id: "sam" });
+
+    const detail = await createSearchConfig({ searchName: "ataxia", userId: "sam", searchPhrases: ["ataxia", "FA"] });
+
+    const [sql, params] = query.mock.calls[0];
+    expect(sql).toContain("updated_at = NOW()");
+    expect(sql).not.toContain("creation_date = EXCLUDED");
+    expect(params).toEqual(["ataxia", "ataxia", "sam", JSON.stringify(["ataxia", "FA"])]);
+    expect(detail.creationDate).toBe("2024-01-01T00:00:00.000Z");
+  });
+});
+
+describe("updateSearchConfig", () => {
+  it("rejects unknown fields and a changed searchName", async () => {
+    await expect(updateSearchConfig("ataxia", { search_phrases: ["FA"] } as any)).rejects.toThrow("Unknown field \"search_phrases\"");
+    await expect(updateSearchConfig("ataxia", { searchName: "fa" })).rejects.toThrow("searchName cannot be changed");
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it("keeps search_phrase as the first phrase", async () => {
+    db.getSearchConfig.mockResolvedValue(PLACEHOLDER);
+    await updateSearchConfig("ataxia", { searchPhrases: ["FA", "ataxia"], region: "us" });
+
+    const [sql, params] = query.mock.calls[0];
+    expect(sql).toContain("SET search_phrases = $2, region = $3, search_phrase = $4, updated_at = NOW()");
+    expect(params).toEqual(["ataxia", JSON.stringify(["FA", "ataxia"]), "US", "FA"]);
+  });
+});
+
+describe("searchConfigFromFileEntry", () => {
+  it("maps column names to input fields", () => {
+    expect(searchConfigFromFileEntry({
+      search_name: "ataxia",
+      search_phrases: ["ataxia", "FA"],
+      start_date: "2024-01-01",
+      max_results: 20,
+      paused: true,
+    })).toMatchObject({
+      searchName: "ataxia",
+      searchPhrases: ["ataxia", "FA"],
+      startDate: "2024-01-01",
+      maxResults: 20,
+      paused: true,
+      userId: undefined,
+    });
+  });
+
+  it("reads the single search_phrase of older files", () => {
+    expect(searchConfigFromFileEntry({ search_name: "ataxia", search_phrase: "friedreich ataxia" }).searchPhrases)
+      .toEqual(["friedreich ataxia"]);
+    expect(searchConfigFromFileEntry({ search_name: "ataxia" }).searchPhrases).toBeUndefined();
+  });
+
+  it("rejects keys that are not columns and entries that are not objects", () => {
+    expect(() => searchConfigFromFileEntry({ search_name: "ataxia", searchPhrases: ["FA"] } as any))
+      .toThrow("Unknown field(s) in search config file entry \"ataxia\": searchPhrases. Use one of: search_name, search_phrase, user_id");
+    expect(() => searchConfigFromFileEntry("ataxia" as any)).toThrow("Each search config file entry must be an object");
+    expect(() => searchConfigFromFileEntry(["ataxia"] as any)).toThrow("Each search config file entry must be an object");
+  });
+});
@@ -0,0 +1,106 @@
+import path from "path";
+import { SymptomVocabulary, getSymptomVocabulary, normalizeSymptoms } from "../lib/symptom-vocabulary";
+
+const CSV = `# comment lines and blank lines are skipped
+
+code,term,synonyms
+HP:0012378,Fatigue,tiredness|tired;exhausted
+HP:0001251,Ataxia,"loss of balance|poor ""balance"""
+HP:0002066,Gait ataxia,unsteady gait
+HP:0002315,Headache,
+,No code,ignored
+`;
+
+const OBO = `format-version: 1.2
+
+[Term]
+id: HP:0012378
+name: Fatigue
+synonym: "Tiredness" EXACT []
+synonym: "Lack of \\"energy\\"" RELATED []
+
+[Term]
+id: HP:0000001
+name: Obsolete thing
+is_obsolete: true
+
+[Typedef]
+id: part_of
+name: part of
+`;
+
+describe("SymptomVocabulary.fromCsv", () => {
+  const vocabulary = SymptomVocabulary.fromCsv(CSV, "test.csv");
+
+  it("reads codes, terms and synonyms split on | or ;", () => {
+    expect(vocabulary.terms).toEqual([
+      { code: "HP:0012378", term: "Fatigue", synonyms: ["tiredness", "tired", "exhausted"] },
+      { code: "HP:0001251", term: "Ataxia", synonyms: ["loss of balance", "poor \"balance\""] },
+      { code: "HP:0002066", term: "Gait ataxia", synonyms: ["unsteady gait"] },
+      { code: "HP:0002315", term: "Headache", synonyms: [] },
+    ]);
+  });
+
+  it("requires code and term columns", () => {
+    expect(() => SymptomVocabulary.fromCsv("id,synonyms\nHP:1,x", "bad.csv")).toThrow("needs \"code\" and \"term\" columns");
+    expect(() => SymptomVocabulary.fromCsv("# only a comment\n", "empty.csv")).toThrow("Vocabulary empty.csv is empty");
+  });
+});
+
+describe("SymptomVocabulary.fromObo", () => {
+  it("reads non-obsolete terms with their quoted synonyms", () => {
+    expect(SymptomVocabulary.fromObo(OBO, "hp.obo").terms).toEqual([
+      { code: "HP:0012378", term: "Fatigue", synonyms: ["Tiredness", "Lack of \"energy\""] },
+    ]);
+  });
+});
+
+describe("SymptomVocabulary.normalize", () => {
+  const vocabulary = SymptomVocabulary.fromCsv(CSV, "test.csv");
+
+  it("matches the canonical term exactly, ignoring case, punctuation and plurals", () => {
+    expect(vocabulary.normalize(" Headaches! ")).toEqual({
+      raw: "Headaches!",
+      code: "HP:0002315",
+      term: "Headache",
+      matchType: "exact",
+      vocabulary: "test.csv",
+    });
+  });
+
+  it("matches synonyms, also after dropping filler words", () => {
+    expect(vocabulary.normalize("Tiredness")).toMatchObject({ code: "HP:0012378", matchType: "synonym" });
+    expect(vocabulary.normalize("always extremely exhausted")).toMatchObject({ code: "HP:0012378", matchType: "synonym" });
+  });
+
+  it("falls back to the longest label whose words all occur in the phrase", () => {
+    expect(vocabulary.normalize("my gait ataxia got worse")).toMatchObject({ term: "Gait ataxia", matchType: "partial" });
+    expect(vocabulary.normalize("ataxia in the arms")).toMatchObject({ term: "Ataxia", matchType: "partial" });
+  });
+
+  it("leaves phrases without a matching term unmapped", () => {
+    expect(vocabulary.normalize("hearing loss")).toEqual({ raw: "hearing loss", code: null, term: null, matchType: null, vocabulary: null });
+    expect(vocabulary.normalize("  ").code).toBeNull();
+  });
+});
+
+describe("getSymptomVocabulary", () => {
+  const cwd = process.cwd();
+
+  afterEach(() => {
+    process.chdir(cwd);
+    delete process.env.SYMPTOM_VOCABULARY_FILE;
+  });
+
+  it("maps symptoms with the bundled vocabulary", () => {
+    expect(normalizeSymptoms(["fatigue", "loss of balance"]).map(symptom => symptom.code)).toEqual(["HP:0012378", "HP:0001251"]);
+  });
+
+  it("fails loudly instead of storing symptoms unmapped when the file cannot be found", () => {
+    process.chdir(path.join(cwd, "tests"));
+    expect(() => normalizeSymptoms(["fatigue"])).toThrow("set SYMPTOM_VOCABULARY_FILE");
+
+    process.env.SYMPTOM_VOCABULARY_FILE = path.join(cwd, "vocabularies/symptoms.csv");
+    expect(getSymptomVocabulary().name).toBe("symptoms.csv");
+  });
+});
@@ -0,0 +1,63 @@
+import { chunkByTokens, countTokens } from "../lib/transcript-chunker";
+
+// Distinct words, so each chunk's position in the text is unambiguous
+const WORDS = Array.from({ length: 400 }, (_, i) => `word${i}`).join(" ");
+
+function positions(text: string, chunks: string[]): number[] {
+  return chunks.map(chunk => {
+    const index = text.indexOf(chunk);
+    expect(index).not.toBe(-1);
+    return index;
+  });
+}
+
+describe("chunkByTokens", () => {
+  it("returns short text whole", () => {
+    expect(chunkByTokens("A short transcript.", 100, 20)).toEqual(["A short transcript."]);
+  });
+
+  it("rejects a non-positive budget", () => {
+    expect(() => chunkByTokens(WORDS, 0)).toThrow("maxTokens must be positive (got 0)");
+  });
+
+  it("keeps every chunk within the budget and covers the whole text", () => {
+    const chunks = chunkByTokens(WORDS, 100, 0);
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => expect(countTokens(chunk)).toBeLessThanOrEqual(100));
+    expect(chunks.join("")).toBe(WORDS);
+  });
+
+  it("starts each chunk before the previous one ended", () => {
+    const chunks = chunkByTokens(WORDS, 100, 30);
+    const starts = positions(WORDS, chunks);
+    for (let i = 1; i < chunks.length; i++) {
+      const previousEnd = starts[i - 1] + chunks[i - 1].length;
+      expect(starts[i]).toBeGreaterThan(starts[i - 1]);
+      expect(starts[i]).toBeLessThan(previousEnd);
+      expect(countTokens(WORDS.slice(starts[i], previousEnd))).toBeGreaterThanOrEqual(25);
+    }
+    expect(starts[0]).toBe(0);
+    expect(starts[starts.length - 1] + chunks[chunks.length - 1].length).toBe(WORDS.length);
+  });
+
+  it("caps the overlap at half the budget so chunks always advance", () => {
+    const chunks = chunkByTokens(WORDS, 20, 100);
+    const starts = positions(WORDS, chunks);
+    for (let i = 1; i < starts.length; i++) {
+      expect(starts[i]).toBeGreaterThan(starts[i - 1]);
+    }
+  });
+
+  it("never splits a character that spans several tokens", () => {
+    const text = "Ich hatte Schwindel 😵‍💫 und Müdigkeit, 疲れと めまい がありました. ".repeat(40);
+    for (const maxTokens of [7, 13, 50]) {
+      const chunks = chunkByTokens(text, maxTokens, 5);
+      expect(chunks.length).toBeGreaterThan(1);
+      for (const chunk of chunks) {
+        expect(chunk).not.toContain("�");
+        expect(text).toContain(chunk);
+        expect(countTokens(chunk)).toBeLessThanOrEqual(maxTokens);
+      }
+    }
+  });
+});
@@ -0,0 +1,63 @@
+import { YouTubeService } from "../lib/youtube-service";
+import { VideoMetadata } from "../lib/types";
+
+jest.mock("googleapis", () => ({
+  google: { youtube: jest.fn(() => ({})) },
+}));
+
+function video(id: string): VideoMetadata {
+  return {
+    id,
+    title: `Video ${id}`,
+    description: "",
+    publishedDate: "2024-01-01T00:00:00Z",
+    durationInSeconds: 60,
+    viewCount: 1,
+    url: `https://www.youtube.com/watch?v=${id}`,
+    channel_name: "Channel",
+  };
+}
+
+// Answers each query with the given video ids instead of calling the API
+function serviceFinding(results: Record<string, string[]>): YouTubeService {
+  const service = new YouTubeService("key");
+  jest.spyOn(service as any, "searchSingleQuery").mockImplementation(async (query: any) => results[query].map(video));
+  return service;
+}
+
+describe("YouTubeService.searchVideos", () => {
+  it("records the query that found each video", async () => {
+    const service = serviceFinding({ ataxia: ["a", "b"] });
+    expect((await service.searchVideos("ataxia")).map(item => item.matched_queries)).toEqual([["ataxia"], ["ataxia"]]);
+  });
+
+  it("merges the results in query order, keeping every query that found a video", async () => {
+    const service = serviceFinding({
+      ataxia: ["a", "b"],
+      FRDA: ["c", "a"],
+      "FRDA vlog": ["a", "c", "d"],
+    });
+
+    const videos = await service.searchVideos(["ataxia", "FRDA", "FRDA vlog"]);
+
+    expect(videos.map(item => [item.id, item.matched_queries])).toEqual([
+      ["a", ["ataxia", "FRDA", "FRDA vlog"]],
+      ["b", ["ataxia"]],
+      ["c", ["FRDA", "FRDA vlog"]],
+      ["d", ["FRDA vlog"]],
+    ]);
+  });
+
+  it("lists a query once even when it is given twice", async () => {
+    const service = serviceFinding({ ataxia: ["a"] });
+    const [merged] = await service.searchVideos(["ataxia", "ataxia"]);
+    expect(merged.matched_queries).toEqual(["ataxia"]);
+  });
+
+  it("applies maxResults to the merged list", async () => {
+    const service = serviceFinding({ ataxia: ["a", "b"], FRDA: ["b", "c"] });
+    const videos = await service.searchVideos(["ataxia", "FRDA"], { maxResults: 2 });
+    expect(videos.map(item => item.id)).toEqual(["a", "b"]);
+    expect(videos[1].matched_queries).toEqual(["ataxia", "FRDA"]);
+  });
+});